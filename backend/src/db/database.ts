@@ -30,48 +30,11 @@ try {
 // Enable foreign keys
 db.pragma('foreign_keys = ON');
 
-export interface Conversation {
-  id: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface Message {
-  id: string;
-  conversationId: string;
-  sender: 'user' | 'ai';
-  text: string;
-  timestamp: string;
-}
+export type ConversationStatus = 'active' | 'awaiting_agent' | 'agent_assigned';
 
-export function initDatabase() {
-  // Create conversations table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS conversations (
-      id TEXT PRIMARY KEY,
-      createdAt TEXT NOT NULL,
-      updatedAt TEXT NOT NULL
-    )
-  `);
-
-  // Create messages table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS messages (
-      id TEXT PRIMARY KEY,
-      conversationId TEXT NOT NULL,
-      sender TEXT NOT NULL CHECK(sender IN ('user', 'ai')),
-      text TEXT NOT NULL,
-      timestamp TEXT NOT NULL,
-      FOREIGN KEY (conversationId) REFERENCES conversations(id) ON DELETE CASCADE
-    )
-  `);
-
-  // Create indexes for better query performance
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_messages_conversationId ON messages(conversationId);
-    CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp);
-  `);
-}
+export type MessageSender = 'user' | 'ai' | 'agent';
 
+// Schema is managed by versioned migrations (see migrator.ts); services
+// define the row types they read
 export const dbInstance: DatabaseType = db;
 
@@ -0,0 +1,39 @@
+/**
+ * Articles seeded into a fresh knowledge base. They mirror the store policy
+ * that used to be hard-coded in the LLM system prompt.
+ */
+export const DEFAULT_KNOWLEDGE_BASE_ARTICLES: { title: string; body: string; tags: string[] }[] = [
+  {
+    title: 'Shipping policy',
+    tags: ['shipping', 'delivery'],
+    body: `- We ship worldwide via standard shipping (5-7 business days) and express shipping (2-3 business days)
+- Standard shipping: $5.99 (free for orders over $50)
+- Express shipping: $12.99
+- We ship to USA, Canada, UK, Australia, and most European countries
+- Orders are processed within 1-2 business days`,
+  },
+  {
+    title: 'Return and refund policy',
+    tags: ['returns', 'refunds'],
+    body: `- 30-day return policy for unused items in original packaging
+- Full refunds are processed within 5-7 business days after we receive the item
+- Customers are responsible for return shipping costs unless the item is defective
+- Refunds are issued to the original payment method`,
+  },
+  {
+    title: 'Support hours and contact',
+    tags: ['support', 'hours', 'contact'],
+    body: `- Monday to Friday: 9 AM - 6 PM EST
+- Saturday: 10 AM - 4 PM EST
+- Sunday: Closed
+- Email support: support@spurstore.com
+- Response time: Within 24 hours during business hours`,
+  },
+  {
+    title: 'Product information',
+    tags: ['products', 'gifts'],
+    body: `- We offer a wide range of products including electronics, clothing, home goods, and accessories
+- Most items are in stock and ready to ship
+- We offer gift wrapping and gift messages for orders`,
+  },
+];
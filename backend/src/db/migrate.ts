@@ -1,6 +1,36 @@
-import { initDatabase } from './database.js';
+import 'dotenv/config';
+import { getMigrationStatus, runMigrations } from './migrator.js';
 
-console.log('Initializing database...');
-initDatabase();
-console.log('Database initialized successfully!');
+// Usage: npm run migrate [-- status | --dry-run]
+const args = process.argv.slice(2);
+const command = args.find((arg) => !arg.startsWith('--')) || 'up';
+const dryRun = args.includes('--dry-run');
 
+try {
+  if (command === 'status') {
+    const statuses = getMigrationStatus();
+    for (const status of statuses) {
+      const state = status.appliedAt ? `applied ${status.appliedAt}` : 'pending';
+      console.log(`${String(status.version).padStart(3, '0')} ${status.name.padEnd(24)} ${state}`);
+    }
+    const pending = statuses.filter((status) => !status.appliedAt).length;
+    console.log(pending > 0 ? `\n${pending} pending migration(s)` : '\nDatabase is up to date');
+  } else if (command === 'up') {
+    console.log(dryRun ? 'Checking pending migrations (dry run)...' : 'Running database migrations...');
+    const { applied } = runMigrations({ dryRun });
+    for (const migration of applied) {
+      console.log(`  ${dryRun ? 'would apply' : 'applied'} ${String(migration.version).padStart(3, '0')} ${migration.name}`);
+    }
+    if (applied.length === 0) {
+      console.log('Database is up to date');
+    } else {
+      console.log(dryRun ? 'Dry run complete, no changes were made.' : 'Database migrated successfully!');
+    }
+  } else {
+    console.error(`Unknown command "${command}". Use "up" (default) or "status".`);
+    process.exit(1);
+  }
+} catch (error: any) {
+  console.error('Migration failed:', error.message);
+  process.exit(1);
+}
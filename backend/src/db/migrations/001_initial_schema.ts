@@ -0,0 +1,31 @@
+import type { Migration } from './types.js';
+
+// Statements use IF NOT EXISTS so databases created before versioned
+// migrations existed are adopted as-is
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS messages (
+        id TEXT PRIMARY KEY,
+        conversationId TEXT NOT NULL,
+        sender TEXT NOT NULL CHECK(sender IN ('user', 'ai')),
+        text TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        FOREIGN KEY (conversationId) REFERENCES conversations(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_messages_conversationId ON messages(conversationId);
+      CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp);
+    `);
+  },
+};
+
+export default migration;
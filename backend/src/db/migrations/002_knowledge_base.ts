@@ -0,0 +1,77 @@
+import { randomUUID } from 'crypto';
+import type { Migration } from './types.js';
+import { tableExists } from './helpers.js';
+import { DEFAULT_KNOWLEDGE_BASE_ARTICLES } from '../knowledgeBaseSeed.js';
+
+const migration: Migration = {
+  version: 2,
+  name: 'knowledge_base',
+  up(db) {
+    const alreadyExists = tableExists(db, 'kb_articles');
+
+    // Knowledge base articles (tags stored as a JSON array)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS kb_articles (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        body TEXT NOT NULL,
+        tags TEXT NOT NULL DEFAULT '[]',
+        enabled INTEGER NOT NULL DEFAULT 1,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      )
+    `);
+
+    // Full-text index over articles, kept in sync by triggers
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS kb_articles_fts USING fts5(
+        articleId UNINDEXED,
+        title,
+        body,
+        tags,
+        tokenize = 'porter unicode61'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS kb_articles_ai AFTER INSERT ON kb_articles BEGIN
+        INSERT INTO kb_articles_fts (articleId, title, body, tags)
+        VALUES (new.id, new.title, new.body, new.tags);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS kb_articles_ad AFTER DELETE ON kb_articles BEGIN
+        DELETE FROM kb_articles_fts WHERE articleId = old.id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS kb_articles_au AFTER UPDATE ON kb_articles BEGIN
+        DELETE FROM kb_articles_fts WHERE articleId = old.id;
+        INSERT INTO kb_articles_fts (articleId, title, body, tags)
+        VALUES (new.id, new.title, new.body, new.tags);
+      END;
+    `);
+
+    // Knowledge base snippets used to answer each AI message
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS message_sources (
+        messageId TEXT NOT NULL,
+        articleId TEXT NOT NULL,
+        title TEXT NOT NULL,
+        snippet TEXT NOT NULL,
+        score REAL NOT NULL,
+        PRIMARY KEY (messageId, articleId),
+        FOREIGN KEY (messageId) REFERENCES messages(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Seed a fresh knowledge base with the default store policy
+    if (!alreadyExists) {
+      const now = new Date().toISOString();
+      const insert = db.prepare(
+        'INSERT INTO kb_articles (id, title, body, tags, enabled, createdAt, updatedAt) VALUES (?, ?, ?, ?, 1, ?, ?)'
+      );
+      for (const article of DEFAULT_KNOWLEDGE_BASE_ARTICLES) {
+        insert.run(randomUUID(), article.title, article.body, JSON.stringify(article.tags), now, now);
+      }
+    }
+  },
+};
+
+export default migration;
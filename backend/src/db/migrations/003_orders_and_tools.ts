@@ -0,0 +1,87 @@
+import type { Migration } from './types.js';
+import { daysAgo, tableExists } from './helpers.js';
+import { ORDERS_FIXTURE } from '../ordersFixture.js';
+
+const migration: Migration = {
+  version: 3,
+  name: 'orders_and_tools',
+  up(db) {
+    const alreadyExists = tableExists(db, 'orders');
+
+    // Orders backing the bundled orders adapter (items and tracking events as JSON)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS orders (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL,
+        status TEXT NOT NULL CHECK(status IN ('processing', 'shipped', 'delivered', 'cancelled')),
+        items TEXT NOT NULL,
+        total REAL NOT NULL,
+        placedAt TEXT NOT NULL,
+        deliveredAt TEXT,
+        carrier TEXT,
+        trackingNumber TEXT,
+        trackingEvents TEXT NOT NULL DEFAULT '[]'
+      );
+
+      CREATE TABLE IF NOT EXISTS returns (
+        id TEXT PRIMARY KEY,
+        orderId TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'requested',
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (orderId) REFERENCES orders(id) ON DELETE CASCADE
+      );
+    `);
+
+    // Audit trail of every tool the bot invoked
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS tool_invocations (
+        id TEXT PRIMARY KEY,
+        conversationId TEXT NOT NULL,
+        messageId TEXT NOT NULL,
+        name TEXT NOT NULL,
+        arguments TEXT NOT NULL,
+        result TEXT,
+        status TEXT NOT NULL CHECK(status IN ('success', 'error')),
+        error TEXT,
+        durationMs INTEGER NOT NULL,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (conversationId) REFERENCES conversations(id) ON DELETE CASCADE,
+        FOREIGN KEY (messageId) REFERENCES messages(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_tool_invocations_conversationId ON tool_invocations(conversationId);
+      CREATE INDEX IF NOT EXISTS idx_tool_invocations_messageId ON tool_invocations(messageId);
+    `);
+
+    // Seed a fresh database with the sample orders
+    if (!alreadyExists) {
+      const insert = db.prepare(`
+        INSERT INTO orders (id, email, status, items, total, placedAt, deliveredAt, carrier, trackingNumber, trackingEvents)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const order of ORDERS_FIXTURE) {
+        insert.run(
+          order.id,
+          order.email,
+          order.status,
+          JSON.stringify(order.items),
+          order.total,
+          daysAgo(order.placedDaysAgo),
+          order.deliveredDaysAgo !== undefined ? daysAgo(order.deliveredDaysAgo) : null,
+          order.carrier ?? null,
+          order.trackingNumber ?? null,
+          JSON.stringify(
+            (order.trackingEvents ?? []).map((event) => ({
+              timestamp: daysAgo(event.daysAgo),
+              location: event.location,
+              description: event.description,
+            }))
+          )
+        );
+      }
+    }
+  },
+};
+
+export default migration;
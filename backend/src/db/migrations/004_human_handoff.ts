@@ -0,0 +1,44 @@
+import type { Migration } from './types.js';
+import { addColumnIfMissing } from './helpers.js';
+
+const migration: Migration = {
+  version: 4,
+  name: 'human_handoff',
+  // messages is rebuilt below and is referenced by other tables
+  disableForeignKeys: true,
+  up(db) {
+    addColumnIfMissing(db, 'conversations', 'status', "TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active', 'awaiting_agent', 'agent_assigned'))");
+    addColumnIfMissing(db, 'conversations', 'assignedAgent', 'TEXT');
+    addColumnIfMissing(db, 'conversations', 'escalatedAt', 'TEXT');
+    addColumnIfMissing(db, 'conversations', 'escalationReason', 'TEXT');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_conversations_status ON conversations(status)');
+
+    // SQLite can't alter a CHECK constraint, so messages is rebuilt to allow 'agent'
+    const table = db
+      .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'messages'")
+      .get() as { sql: string };
+    if (table.sql.includes("'agent'")) {
+      return;
+    }
+
+    db.exec(`
+      CREATE TABLE messages_new (
+        id TEXT PRIMARY KEY,
+        conversationId TEXT NOT NULL,
+        sender TEXT NOT NULL CHECK(sender IN ('user', 'ai', 'agent')),
+        text TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        FOREIGN KEY (conversationId) REFERENCES conversations(id) ON DELETE CASCADE
+      );
+      INSERT INTO messages_new (id, conversationId, sender, text, timestamp)
+        SELECT id, conversationId, sender, text, timestamp FROM messages;
+      DROP TABLE messages;
+      ALTER TABLE messages_new RENAME TO messages;
+
+      CREATE INDEX IF NOT EXISTS idx_messages_conversationId ON messages(conversationId);
+      CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp);
+    `);
+  },
+};
+
+export default migration;
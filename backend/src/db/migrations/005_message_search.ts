@@ -0,0 +1,38 @@
+import type { Migration } from './types.js';
+
+const migration: Migration = {
+  version: 5,
+  name: 'message_search',
+  up(db) {
+    // Full-text index over message text, kept in sync by triggers so every
+    // insert (including addMessage) and cascade delete is reflected
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+        messageId UNINDEXED,
+        text,
+        tokenize = 'porter unicode61'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_ai AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts (messageId, text) VALUES (new.id, new.text);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_ad AFTER DELETE ON messages BEGIN
+        DELETE FROM messages_fts WHERE messageId = old.id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_au AFTER UPDATE OF text ON messages BEGIN
+        DELETE FROM messages_fts WHERE messageId = old.id;
+        INSERT INTO messages_fts (messageId, text) VALUES (new.id, new.text);
+      END;
+    `);
+
+    // Index messages written before search existed
+    db.exec(`
+      DELETE FROM messages_fts;
+      INSERT INTO messages_fts (messageId, text) SELECT id, text FROM messages;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,40 @@
+import type { Migration } from './types.js';
+
+const migration: Migration = {
+  version: 6,
+  name: 'feedback',
+  up(db) {
+    // Thumbs up/down on individual AI replies; customers can change their vote
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS message_feedback (
+        messageId TEXT PRIMARY KEY,
+        conversationId TEXT NOT NULL,
+        rating TEXT NOT NULL CHECK(rating IN ('up', 'down')),
+        comment TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        FOREIGN KEY (messageId) REFERENCES messages(id) ON DELETE CASCADE,
+        FOREIGN KEY (conversationId) REFERENCES conversations(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_message_feedback_rating ON message_feedback(rating, updatedAt);
+      CREATE INDEX IF NOT EXISTS idx_message_feedback_conversationId ON message_feedback(conversationId);
+    `);
+
+    // End-of-conversation CSAT (1-5), one per conversation
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS conversation_ratings (
+        conversationId TEXT PRIMARY KEY,
+        score INTEGER NOT NULL CHECK(score BETWEEN 1 AND 5),
+        comment TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        FOREIGN KEY (conversationId) REFERENCES conversations(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_conversation_ratings_updatedAt ON conversation_ratings(updatedAt);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,41 @@
+import type { Migration } from './types.js';
+
+const migration: Migration = {
+  version: 7,
+  name: 'pii_vault',
+  up(db) {
+    // Original values behind redacted placeholders, AES-256-GCM encrypted
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS pii_vault (
+        conversationId TEXT NOT NULL,
+        token TEXT NOT NULL,
+        type TEXT NOT NULL,
+        iv BLOB NOT NULL,
+        authTag BLOB NOT NULL,
+        ciphertext BLOB NOT NULL,
+        createdAt TEXT NOT NULL,
+        PRIMARY KEY (conversationId, token),
+        FOREIGN KEY (conversationId) REFERENCES conversations(id) ON DELETE CASCADE
+      );
+    `);
+
+    // Audit trail of reveals; kept even after the conversation is deleted
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS pii_reveals (
+        id TEXT PRIMARY KEY,
+        messageId TEXT NOT NULL,
+        conversationId TEXT NOT NULL,
+        tokens TEXT NOT NULL,
+        reason TEXT,
+        ip TEXT,
+        userAgent TEXT,
+        revealedAt TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_pii_reveals_revealedAt ON pii_reveals(revealedAt);
+      CREATE INDEX IF NOT EXISTS idx_pii_reveals_conversationId ON pii_reveals(conversationId);
+    `);
+  },
+};
+
+export default migration;
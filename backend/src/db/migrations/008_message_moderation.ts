@@ -0,0 +1,17 @@
+import type { Migration } from './types.js';
+import { addColumnIfMissing } from './helpers.js';
+
+const migration: Migration = {
+  version: 8,
+  name: 'message_moderation',
+  up(db) {
+    // Moderation verdict per message: the action on its own for filtering,
+    // the full verdict (rules matched, original text) as JSON.
+    // Both stay null for messages that weren't moderated, e.g. agent replies
+    addColumnIfMissing(db, 'messages', 'moderationAction', "TEXT CHECK(moderationAction IN ('allow', 'flag', 'rewrite', 'block'))");
+    addColumnIfMissing(db, 'messages', 'moderation', 'TEXT');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_messages_moderationAction ON messages(moderationAction)');
+  },
+};
+
+export default migration;
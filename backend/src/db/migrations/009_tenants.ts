@@ -0,0 +1,82 @@
+import type { Migration } from './types.js';
+import { addColumnIfMissing } from './helpers.js';
+
+// Existing data belongs to the store the bot was built for
+const DEFAULT_TENANT = {
+  id: 'default',
+  name: 'SpurStore',
+  persona: 'You are a helpful and friendly customer support agent for "SpurStore", a small e-commerce store.',
+  supportEmail: 'support@spurstore.com',
+  widgetKey: 'wk_default',
+};
+
+const migration: Migration = {
+  version: 9,
+  name: 'tenants',
+  // SQLite can't add a REFERENCES column with a non-null default while
+  // foreign keys are enforced
+  disableForeignKeys: true,
+  up(db) {
+    // One row per storefront; allowedOrigins is a JSON array, and an empty
+    // array falls back to FRONTEND_URL
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS tenants (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        persona TEXT NOT NULL,
+        policy TEXT NOT NULL DEFAULT '',
+        supportEmail TEXT NOT NULL,
+        supportPhone TEXT,
+        supportHours TEXT,
+        allowedOrigins TEXT NOT NULL DEFAULT '[]',
+        widgetKey TEXT NOT NULL UNIQUE,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS tenant_api_keys (
+        id TEXT PRIMARY KEY,
+        tenantId TEXT NOT NULL,
+        name TEXT NOT NULL,
+        keyHash TEXT NOT NULL UNIQUE,
+        createdAt TEXT NOT NULL,
+        lastUsedAt TEXT,
+        FOREIGN KEY (tenantId) REFERENCES tenants(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_tenant_api_keys_tenantId ON tenant_api_keys(tenantId);
+    `);
+
+    const now = new Date().toISOString();
+    db.prepare(`
+      INSERT OR IGNORE INTO tenants (id, name, persona, supportEmail, widgetKey, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      DEFAULT_TENANT.id,
+      DEFAULT_TENANT.name,
+      DEFAULT_TENANT.persona,
+      DEFAULT_TENANT.supportEmail,
+      DEFAULT_TENANT.widgetKey,
+      now,
+      now
+    );
+
+    // Messages carry their conversation's tenant so admin queries can scope
+    // them without a join
+    const tenantColumn = `TEXT NOT NULL DEFAULT '${DEFAULT_TENANT.id}' REFERENCES tenants(id)`;
+    addColumnIfMissing(db, 'conversations', 'tenantId', tenantColumn);
+    addColumnIfMissing(db, 'messages', 'tenantId', tenantColumn);
+    addColumnIfMissing(db, 'kb_articles', 'tenantId', tenantColumn);
+    // Reveals outlive their conversation, so they keep the tenant themselves
+    addColumnIfMissing(db, 'pii_reveals', 'tenantId', `TEXT NOT NULL DEFAULT '${DEFAULT_TENANT.id}'`);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_conversations_tenantId ON conversations(tenantId, updatedAt);
+      CREATE INDEX IF NOT EXISTS idx_messages_tenantId ON messages(tenantId, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_kb_articles_tenantId ON kb_articles(tenantId);
+      CREATE INDEX IF NOT EXISTS idx_pii_reveals_tenantId ON pii_reveals(tenantId, revealedAt);
+    `);
+  },
+};
+
+export default migration;
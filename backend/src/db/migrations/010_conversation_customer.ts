@@ -0,0 +1,16 @@
+import type { Migration } from './types.js';
+import { addColumnIfMissing } from './helpers.js';
+
+const migration: Migration = {
+  version: 10,
+  name: 'conversation_customer',
+  up(db) {
+    // Who the storefront says the customer is, from the embedded widget's
+    // identify() call. Reported by the site, not verified
+    addColumnIfMissing(db, 'conversations', 'customerId', 'TEXT');
+    addColumnIfMissing(db, 'conversations', 'customerName', 'TEXT');
+    addColumnIfMissing(db, 'conversations', 'customerEmail', 'TEXT');
+  },
+};
+
+export default migration;
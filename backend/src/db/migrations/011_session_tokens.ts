@@ -0,0 +1,14 @@
+import type { Migration } from './types.js';
+import { addColumnIfMissing } from './helpers.js';
+
+const migration: Migration = {
+  version: 11,
+  name: 'session_tokens',
+  up(db) {
+    // Session tokens carry the version they were issued at; bumping it on
+    // refresh or sign-out revokes every older token for the conversation
+    addColumnIfMissing(db, 'conversations', 'sessionTokenVersion', 'INTEGER NOT NULL DEFAULT 0');
+  },
+};
+
+export default migration;
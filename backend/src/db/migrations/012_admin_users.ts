@@ -0,0 +1,62 @@
+import type { Migration } from './types.js';
+import { addColumnIfMissing } from './helpers.js';
+
+// Keys created before scopes existed keep the access they had: everything
+const LEGACY_KEY_SCOPES = JSON.stringify([
+  'conversations:read',
+  'conversations:export',
+  'pii:reveal',
+  'knowledge-base:read',
+  'knowledge-base:write',
+  'agent:handle',
+  'tenant:read',
+  'tenant:write',
+  'users:manage',
+  'api-keys:manage',
+]);
+
+const migration: Migration = {
+  version: 12,
+  name: 'admin_users',
+  up(db) {
+    // People who sign in to the admin dashboard. Passwords are scrypt hashes;
+    // sessions are bearer tokens stored as SHA-256 hashes
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS admin_users (
+        id TEXT PRIMARY KEY,
+        tenantId TEXT NOT NULL,
+        email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        name TEXT NOT NULL,
+        passwordHash TEXT NOT NULL,
+        role TEXT NOT NULL CHECK(role IN ('viewer', 'agent', 'admin')),
+        createdAt TEXT NOT NULL,
+        lastLoginAt TEXT,
+        disabledAt TEXT,
+        FOREIGN KEY (tenantId) REFERENCES tenants(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS admin_sessions (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        tokenHash TEXT NOT NULL UNIQUE,
+        createdAt TEXT NOT NULL,
+        expiresAt TEXT NOT NULL,
+        lastUsedAt TEXT,
+        FOREIGN KEY (userId) REFERENCES admin_users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_admin_users_tenantId ON admin_users(tenantId);
+      CREATE INDEX IF NOT EXISTS idx_admin_sessions_userId ON admin_sessions(userId);
+    `);
+
+    // API keys get scopes (a JSON array) and can be revoked without deleting
+    // their usage history
+    addColumnIfMissing(db, 'tenant_api_keys', 'scopes', `TEXT NOT NULL DEFAULT '${LEGACY_KEY_SCOPES}'`);
+    addColumnIfMissing(db, 'tenant_api_keys', 'revokedAt', 'TEXT');
+
+    // Reveals record which user or API key asked for the values
+    addColumnIfMissing(db, 'pii_reveals', 'revealedBy', 'TEXT');
+  },
+};
+
+export default migration;
@@ -0,0 +1,59 @@
+import type { Migration } from './types.js';
+
+const migration: Migration = {
+  version: 13,
+  name: 'webhooks',
+  up(db) {
+    // Subscriptions keep their signing secret in plain text: it has to be
+    // read back to sign every delivery.
+    // Deliveries are the outbox: rows are written in the same transaction as
+    // the change they describe and sent by the background dispatcher
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+        id TEXT PRIMARY KEY,
+        tenantId TEXT NOT NULL,
+        url TEXT NOT NULL,
+        events TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        description TEXT,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        FOREIGN KEY (tenantId) REFERENCES tenants(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        subscriptionId TEXT NOT NULL,
+        tenantId TEXT NOT NULL,
+        eventId TEXT NOT NULL,
+        event TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'delivered', 'dead')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        nextAttemptAt TEXT NOT NULL,
+        lastAttemptAt TEXT,
+        lastStatusCode INTEGER,
+        lastError TEXT,
+        deliveredAt TEXT,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (subscriptionId) REFERENCES webhook_subscriptions(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_tenantId ON webhook_subscriptions(tenantId);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, nextAttemptAt);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_tenant ON webhook_deliveries(tenantId, createdAt);
+    `);
+
+    // Keys that could manage API keys had every scope; they also get the new
+    // webhooks:manage scope
+    db.exec(`
+      UPDATE tenant_api_keys
+      SET scopes = json_insert(scopes, '$[#]', 'webhooks:manage')
+      WHERE EXISTS (SELECT 1 FROM json_each(tenant_api_keys.scopes) WHERE value = 'api-keys:manage')
+        AND NOT EXISTS (SELECT 1 FROM json_each(tenant_api_keys.scopes) WHERE value = 'webhooks:manage')
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,16 @@
+import type { Migration } from './types.js';
+import { addColumnIfMissing } from './helpers.js';
+
+const migration: Migration = {
+  version: 14,
+  name: 'conversation_summaries',
+  up(db) {
+    // Rolling summary of the turns that no longer fit in the prompt.
+    // summarizedUntil is the timestamp of the last message it covers
+    addColumnIfMissing(db, 'conversations', 'summary', 'TEXT');
+    addColumnIfMissing(db, 'conversations', 'summarizedUntil', 'TEXT');
+    addColumnIfMissing(db, 'conversations', 'summaryUpdatedAt', 'TEXT');
+  },
+};
+
+export default migration;
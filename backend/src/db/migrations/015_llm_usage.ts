@@ -0,0 +1,44 @@
+import type { Migration } from './types.js';
+import { addColumnIfMissing } from './helpers.js';
+
+const migration: Migration = {
+  version: 15,
+  name: 'llm_usage',
+  up(db) {
+    // One row per reply or summary the LLM produced. Tool-calling rounds of
+    // a reply are added up into its row; messageId is null for summaries.
+    // costUsd is priced when the row is written, so later price changes
+    // don't rewrite history. Rows hold no conversation content and outlive
+    // deleted conversations, so spend totals and caps stay accurate
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS llm_usage (
+        id TEXT PRIMARY KEY,
+        tenantId TEXT NOT NULL,
+        conversationId TEXT NOT NULL,
+        messageId TEXT,
+        purpose TEXT NOT NULL CHECK(purpose IN ('reply', 'summary')),
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        inputTokens INTEGER NOT NULL,
+        outputTokens INTEGER NOT NULL,
+        estimated INTEGER NOT NULL DEFAULT 0,
+        latencyMs INTEGER NOT NULL,
+        costUsd REAL NOT NULL,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (tenantId) REFERENCES tenants(id) ON DELETE CASCADE,
+        FOREIGN KEY (messageId) REFERENCES messages(id) ON DELETE SET NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_llm_usage_tenant_createdAt ON llm_usage(tenantId, createdAt);
+      CREATE INDEX IF NOT EXISTS idx_llm_usage_createdAt ON llm_usage(createdAt);
+      CREATE INDEX IF NOT EXISTS idx_llm_usage_conversationId ON llm_usage(conversationId);
+      CREATE INDEX IF NOT EXISTS idx_llm_usage_messageId ON llm_usage(messageId);
+    `);
+
+    // Daily LLM spend after which the tenant's bot runs in degraded mode;
+    // null means no cap of its own
+    addColumnIfMissing(db, 'tenants', 'dailySpendCapUsd', 'REAL');
+  },
+};
+
+export default migration;
@@ -0,0 +1,52 @@
+import type { Migration } from './types.js';
+import { addColumnIfMissing } from './helpers.js';
+
+const migration: Migration = {
+  version: 16,
+  name: 'privacy',
+  up(db) {
+    // Retention rules: conversations inactive for this many days are deleted
+    // or anonymized. Null falls back to the server-wide default
+    addColumnIfMissing(db, 'tenants', 'retentionDeleteAfterDays', 'INTEGER');
+    addColumnIfMissing(db, 'tenants', 'retentionAnonymizeAfterDays', 'INTEGER');
+
+    // When retention stripped the conversation's PII
+    addColumnIfMissing(db, 'conversations', 'anonymizedAt', 'TEXT');
+
+    // Data subject lookups, exports and erasures plus retention runs. The
+    // subject is only stored as a hash and conversation ids are kept as a
+    // list, so entries outlive the data they describe without holding it
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS privacy_audit_log (
+        id TEXT PRIMARY KEY,
+        tenantId TEXT NOT NULL,
+        action TEXT NOT NULL CHECK(action IN ('subject.lookup', 'subject.export', 'subject.erase', 'retention.delete', 'retention.anonymize')),
+        subjectHash TEXT,
+        conversationIds TEXT NOT NULL,
+        details TEXT,
+        actor TEXT NOT NULL,
+        ip TEXT,
+        userAgent TEXT,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (tenantId) REFERENCES tenants(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_privacy_audit_log_tenant ON privacy_audit_log(tenantId, createdAt);
+      CREATE INDEX IF NOT EXISTS idx_privacy_audit_log_subjectHash ON privacy_audit_log(subjectHash);
+
+      CREATE INDEX IF NOT EXISTS idx_conversations_customerId ON conversations(tenantId, customerId);
+      CREATE INDEX IF NOT EXISTS idx_conversations_customerEmail ON conversations(tenantId, lower(customerEmail));
+    `);
+
+    // Keys that could manage API keys had every scope; they also get the new
+    // privacy:manage scope
+    db.exec(`
+      UPDATE tenant_api_keys
+      SET scopes = json_insert(scopes, '$[#]', 'privacy:manage')
+      WHERE EXISTS (SELECT 1 FROM json_each(tenant_api_keys.scopes) WHERE value = 'api-keys:manage')
+        AND NOT EXISTS (SELECT 1 FROM json_each(tenant_api_keys.scopes) WHERE value = 'privacy:manage')
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,23 @@
+import type { Migration } from './types.js';
+import { addColumnIfMissing } from './helpers.js';
+
+const migration: Migration = {
+  version: 17,
+  name: 'failed_replies',
+  up(db) {
+    // Bot messages sent because the LLM couldn't reply (knowledge base
+    // articles or an apology, or a reply cut off partway): the error type on
+    // its own for filtering, the details and every provider attempt as JSON.
+    // Both stay null for ordinary messages
+    addColumnIfMissing(
+      db,
+      'messages',
+      'failureType',
+      "TEXT CHECK(failureType IN ('invalid_key', 'rate_limit', 'timeout', 'unavailable', 'circuit_open', 'other'))"
+    );
+    addColumnIfMissing(db, 'messages', 'failure', 'TEXT');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_messages_failureType ON messages(failureType)');
+  },
+};
+
+export default migration;
@@ -0,0 +1,41 @@
+import type { Migration } from './types.js';
+import { addColumnIfMissing } from './helpers.js';
+
+const migration: Migration = {
+  version: 18,
+  name: 'response_cache',
+  up(db) {
+    // Bot replies reused for repeated questions. The question is stored
+    // normalized; knowledgeVersion hashes the knowledge base and store policy
+    // the reply was written from, so entries stop matching once either
+    // changes. Only questions without customer PII are stored, and entries
+    // aren't tied to a conversation
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS response_cache (
+        id TEXT PRIMARY KEY,
+        tenantId TEXT NOT NULL,
+        knowledgeVersion TEXT NOT NULL,
+        question TEXT NOT NULL,
+        reply TEXT NOT NULL,
+        sources TEXT NOT NULL,
+        hits INTEGER NOT NULL DEFAULT 0,
+        createdAt TEXT NOT NULL,
+        lastUsedAt TEXT NOT NULL,
+        expiresAt TEXT NOT NULL,
+        UNIQUE (tenantId, knowledgeVersion, question),
+        FOREIGN KEY (tenantId) REFERENCES tenants(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_response_cache_tenant_lastUsedAt ON response_cache(tenantId, lastUsedAt);
+    `);
+
+    // Whether a bot reply was served from the cache: the outcome on its own
+    // for stats, the matched entry as JSON. Both stay null when the cache
+    // wasn't consulted
+    addColumnIfMissing(db, 'messages', 'cacheStatus', "TEXT CHECK(cacheStatus IN ('hit', 'miss'))");
+    addColumnIfMissing(db, 'messages', 'cache', 'TEXT');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_messages_cacheStatus ON messages(tenantId, cacheStatus)');
+  },
+};
+
+export default migration;
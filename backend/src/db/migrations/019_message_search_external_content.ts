@@ -0,0 +1,46 @@
+import type { Migration } from './types.js';
+
+const migration: Migration = {
+  version: 19,
+  name: 'message_search_external_content',
+  up(db) {
+    // Rebuild the message index as an external-content table over
+    // messages, keyed by rowid. Removing a message from the old standalone
+    // index looked it up by its unindexed messageId, a scan of the whole
+    // index per message, which made purges, erasure and anonymization
+    // quadratic. The index now reads text from messages and is updated
+    // with FTS5 'delete' commands by rowid. messages has no INTEGER PRIMARY
+    // KEY, so a VACUUM may renumber its rowids: run
+    // `INSERT INTO messages_fts (messages_fts) VALUES ('rebuild')` after one
+    db.exec(`
+      DROP TRIGGER IF EXISTS messages_fts_ai;
+      DROP TRIGGER IF EXISTS messages_fts_ad;
+      DROP TRIGGER IF EXISTS messages_fts_au;
+      DROP TABLE IF EXISTS messages_fts;
+
+      CREATE VIRTUAL TABLE messages_fts USING fts5(
+        text,
+        content = 'messages',
+        content_rowid = 'rowid',
+        tokenize = 'porter unicode61'
+      );
+
+      CREATE TRIGGER messages_fts_ai AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts (rowid, text) VALUES (new.rowid, new.text);
+      END;
+
+      CREATE TRIGGER messages_fts_ad AFTER DELETE ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, text) VALUES ('delete', old.rowid, old.text);
+      END;
+
+      CREATE TRIGGER messages_fts_au AFTER UPDATE OF text ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, text) VALUES ('delete', old.rowid, old.text);
+        INSERT INTO messages_fts (rowid, text) VALUES (new.rowid, new.text);
+      END;
+
+      INSERT INTO messages_fts (messages_fts) VALUES ('rebuild');
+    `);
+  },
+};
+
+export default migration;
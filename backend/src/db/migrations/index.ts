@@ -0,0 +1,49 @@
+import type { Migration } from './types.js';
+import initialSchema from './001_initial_schema.js';
+import knowledgeBase from './002_knowledge_base.js';
+import ordersAndTools from './003_orders_and_tools.js';
+import humanHandoff from './004_human_handoff.js';
+import messageSearch from './005_message_search.js';
+import feedback from './006_feedback.js';
+import piiVault from './007_pii_vault.js';
+import messageModeration from './008_message_moderation.js';
+import tenants from './009_tenants.js';
+import conversationCustomer from './010_conversation_customer.js';
+import sessionTokens from './011_session_tokens.js';
+import adminUsers from './012_admin_users.js';
+import webhooks from './013_webhooks.js';
+import conversationSummaries from './014_conversation_summaries.js';
+import llmUsage from './015_llm_usage.js';
+import privacy from './016_privacy.js';
+import failedReplies from './017_failed_replies.js';
+import responseCache from './018_response_cache.js';
+import messageSearchExternalContent from './019_message_search_external_content.js';
+
+export type { Migration } from './types.js';
+
+/**
+ * Every migration, in order. New migrations get the next number, a file
+ * named `NNN_description.ts`, and an entry at the end of this list.
+ * Applied migrations must never be edited.
+ */
+export const migrations: Migration[] = [
+  initialSchema,
+  knowledgeBase,
+  ordersAndTools,
+  humanHandoff,
+  messageSearch,
+  feedback,
+  piiVault,
+  messageModeration,
+  tenants,
+  conversationCustomer,
+  sessionTokens,
+  adminUsers,
+  webhooks,
+  conversationSummaries,
+  llmUsage,
+  privacy,
+  failedReplies,
+  responseCache,
+  messageSearchExternalContent,
+];
@@ -0,0 +1,13 @@
+import type { Database } from 'better-sqlite3';
+
+export interface Migration {
+  /** Unique, increasing version; matches the numeric prefix of the file name */
+  version: number;
+  name: string;
+  /**
+   * Run with foreign key enforcement switched off, for table rebuilds that
+   * drop and recreate a referenced table. Integrity is re-checked afterwards.
+   */
+  disableForeignKeys?: boolean;
+  up(db: Database): void;
+}
@@ -0,0 +1,176 @@
+import type { Database as DatabaseType } from 'better-sqlite3';
+import { dbInstance } from './database.js';
+import { migrations as allMigrations, type Migration } from './migrations/index.js';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+}
+
+export interface MigrationRunResult {
+  applied: Migration[];
+  dryRun: boolean;
+}
+
+// Thrown inside a dry-run transaction so better-sqlite3 rolls it back
+class DryRunRollback extends Error {}
+
+function ensureMigrationsTable(db: DatabaseType) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt TEXT NOT NULL
+    )
+  `);
+}
+
+function validateMigrations(migrations: Migration[]) {
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version <= migrations[i - 1].version) {
+      throw new Error(
+        `Migrations must have unique, increasing versions (${migrations[i - 1].version} is followed by ${migrations[i].version})`
+      );
+    }
+  }
+}
+
+function getAppliedVersions(db: DatabaseType): Map<number, string> {
+  ensureMigrationsTable(db);
+  const rows = db
+    .prepare('SELECT version, appliedAt FROM schema_migrations')
+    .all() as { version: number; appliedAt: string }[];
+  return new Map(rows.map((row) => [row.version, row.appliedAt]));
+}
+
+/**
+ * Every known migration alongside when it was applied (null if pending).
+ * Versions recorded in the database but unknown to this build are listed
+ * too, which means the database was migrated by a newer release.
+ */
+export function getMigrationStatus(
+  db: DatabaseType = dbInstance,
+  migrations: Migration[] = allMigrations
+): MigrationStatus[] {
+  validateMigrations(migrations);
+  const applied = getAppliedVersions(db);
+
+  const statuses: MigrationStatus[] = migrations.map((migration) => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: applied.get(migration.version) ?? null,
+  }));
+
+  const known = new Set(migrations.map((migration) => migration.version));
+  const unknown = db
+    .prepare('SELECT version, name, appliedAt FROM schema_migrations ORDER BY version')
+    .all() as MigrationStatus[];
+  statuses.push(...unknown.filter((row) => !known.has(row.version)));
+
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+export function getPendingMigrations(
+  db: DatabaseType = dbInstance,
+  migrations: Migration[] = allMigrations
+): Migration[] {
+  validateMigrations(migrations);
+  const applied = getAppliedVersions(db);
+  return migrations.filter((migration) => !applied.has(migration.version));
+}
+
+function checkForeignKeys(db: DatabaseType) {
+  const violations = db.pragma('foreign_key_check') as unknown[];
+  if (violations.length > 0) {
+    throw new Error(`left ${violations.length} foreign key violation(s)`);
+  }
+}
+
+function recordMigration(db: DatabaseType, migration: Migration) {
+  db.prepare('INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)').run(
+    migration.version,
+    migration.name,
+    new Date().toISOString()
+  );
+}
+
+function describe(migration: Migration): string {
+  return `Migration ${migration.version} (${migration.name})`;
+}
+
+/**
+ * Run `fn` in a transaction with foreign key enforcement optionally off.
+ * The pragma is a no-op inside a transaction, so it's toggled around it.
+ */
+function withTransaction(db: DatabaseType, disableForeignKeys: boolean, fn: () => void) {
+  if (disableForeignKeys) {
+    db.pragma('foreign_keys = OFF');
+  }
+  try {
+    db.transaction(fn)();
+  } finally {
+    if (disableForeignKeys) {
+      db.pragma('foreign_keys = ON');
+    }
+  }
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction so a
+ * failure leaves the schema at the last successful version.
+ *
+ * With `dryRun` all pending migrations execute in a single transaction
+ * that is rolled back at the end, surfacing any SQL errors without
+ * changing the database.
+ */
+export function runMigrations(
+  options: { dryRun?: boolean } = {},
+  db: DatabaseType = dbInstance,
+  migrations: Migration[] = allMigrations
+): MigrationRunResult {
+  const dryRun = options.dryRun ?? false;
+  const pending = getPendingMigrations(db, migrations);
+
+  if (dryRun) {
+    try {
+      withTransaction(db, pending.some((migration) => migration.disableForeignKeys), () => {
+        for (const migration of pending) {
+          try {
+            migration.up(db);
+            if (migration.disableForeignKeys) {
+              checkForeignKeys(db);
+            }
+            recordMigration(db, migration);
+          } catch (error: any) {
+            throw new Error(`${describe(migration)} failed: ${error.message}`);
+          }
+        }
+        throw new DryRunRollback();
+      });
+    } catch (error) {
+      if (!(error instanceof DryRunRollback)) {
+        throw error;
+      }
+    }
+    return { applied: pending, dryRun };
+  }
+
+  const applied: Migration[] = [];
+  for (const migration of pending) {
+    try {
+      withTransaction(db, migration.disableForeignKeys ?? false, () => {
+        migration.up(db);
+        if (migration.disableForeignKeys) {
+          checkForeignKeys(db);
+        }
+        recordMigration(db, migration);
+      });
+    } catch (error: any) {
+      throw new Error(`${describe(migration)} failed: ${error.message}`);
+    }
+    applied.push(migration);
+  }
+
+  return { applied, dryRun };
+}
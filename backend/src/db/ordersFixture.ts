@@ -0,0 +1,73 @@
+export interface OrderFixture {
+  id: string;
+  email: string;
+  status: 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  items: { sku: string; name: string; quantity: number; price: number }[];
+  total: number;
+  /** Days before the seed date the order was placed, so fixtures never go stale */
+  placedDaysAgo: number;
+  deliveredDaysAgo?: number;
+  carrier?: string;
+  trackingNumber?: string;
+  trackingEvents?: { daysAgo: number; location: string; description: string }[];
+}
+
+/**
+ * Sample orders seeded into a fresh database so the order tools work
+ * locally without a real commerce backend.
+ */
+export const ORDERS_FIXTURE: OrderFixture[] = [
+  {
+    id: 'SPUR-1001',
+    email: 'alex@example.com',
+    status: 'processing',
+    items: [{ sku: 'HEAD-01', name: 'Wireless Headphones', quantity: 1, price: 79.99 }],
+    total: 79.99,
+    placedDaysAgo: 1,
+  },
+  {
+    id: 'SPUR-1002',
+    email: 'sam@example.com',
+    status: 'shipped',
+    items: [
+      { sku: 'TEE-BLK-M', name: 'Classic T-Shirt (Black, M)', quantity: 2, price: 19.5 },
+      { sku: 'MUG-01', name: 'Ceramic Mug', quantity: 1, price: 12 },
+    ],
+    total: 51,
+    placedDaysAgo: 4,
+    carrier: 'UPS',
+    trackingNumber: '1Z999AA10123456784',
+    trackingEvents: [
+      { daysAgo: 3, location: 'Newark, NJ', description: 'Shipment picked up' },
+      { daysAgo: 2, location: 'Philadelphia, PA', description: 'In transit' },
+      { daysAgo: 1, location: 'Columbus, OH', description: 'Arrived at facility' },
+    ],
+  },
+  {
+    id: 'SPUR-1003',
+    email: 'jordan@example.com',
+    status: 'delivered',
+    items: [{ sku: 'LAMP-02', name: 'Desk Lamp', quantity: 1, price: 34.99 }],
+    total: 40.98,
+    placedDaysAgo: 12,
+    deliveredDaysAgo: 6,
+    carrier: 'USPS',
+    trackingNumber: '9400111899223344556677',
+    trackingEvents: [
+      { daysAgo: 10, location: 'Newark, NJ', description: 'Shipment picked up' },
+      { daysAgo: 6, location: 'Austin, TX', description: 'Delivered' },
+    ],
+  },
+  {
+    id: 'SPUR-1004',
+    email: 'jordan@example.com',
+    status: 'delivered',
+    items: [{ sku: 'BAG-01', name: 'Canvas Tote Bag', quantity: 1, price: 24 }],
+    total: 29.99,
+    placedDaysAgo: 60,
+    deliveredDaysAgo: 54,
+    carrier: 'USPS',
+    trackingNumber: '9400111899220000111122',
+    trackingEvents: [{ daysAgo: 54, location: 'Austin, TX', description: 'Delivered' }],
+  },
+];
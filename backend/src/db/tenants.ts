@@ -0,0 +1,113 @@
+import 'dotenv/config';
+import { getPendingMigrations } from './migrator.js';
+import { tenantService } from '../services/tenantService.js';
+import { SCOPES, isScope, type Scope } from '../services/accessScopes.js';
+
+// Usage: npm run tenants -- list
+//        npm run tenants -- create <id> --name <name> --email <support email> [--persona <text>] [--policy <text>] [--phone <phone>] [--hours <hours>] [--origins <origin,origin>] [--scopes <scope,scope>]
+//        npm run tenants -- add-key <id> [--name <label>] [--scopes <scope,scope>]
+//        npm run tenants -- revoke-key <id> <key id>
+//        npm run tenants -- rotate-widget-key <id>
+const args = process.argv.slice(2);
+const [command = 'list', tenantId, keyId] = args.filter((arg, i) => !arg.startsWith('--') && !args[i - 1]?.startsWith('--'));
+
+const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,39}$/;
+
+function option(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+/**
+ * `--scopes` as a list, every scope by default
+ */
+function scopesOption(): Scope[] {
+  const value = option('scopes');
+  if (!value) {
+    return [...SCOPES];
+  }
+  const scopes = value.split(',').map((scope) => scope.trim()).filter(Boolean);
+  const unknown = scopes.filter((scope) => !isScope(scope));
+  if (unknown.length > 0 || scopes.length === 0) {
+    throw new Error(`Unknown scope(s): ${unknown.join(', ') || '(none)'}. Valid scopes: ${SCOPES.join(', ')}`);
+  }
+  return [...new Set(scopes)] as Scope[];
+}
+
+function requireTenantId(): string {
+  if (!tenantId) {
+    throw new Error(`Missing tenant id. Usage: npm run tenants -- ${command} <id>`);
+  }
+  return tenantId;
+}
+
+try {
+  if (getPendingMigrations().length > 0) {
+    throw new Error('Database has pending migrations. Run "npm run migrate" first.');
+  }
+
+  if (command === 'list') {
+    for (const tenant of tenantService.listTenants()) {
+      const keys = tenantService.listApiKeys(tenant.id).filter((key) => !key.revokedAt).length;
+      console.log(`${tenant.id.padEnd(24)} ${tenant.name.padEnd(24)} widget key ${tenant.widgetKey}, ${keys} API key(s)`);
+    }
+  } else if (command === 'create') {
+    const id = requireTenantId();
+    const name = option('name');
+    const supportEmail = option('email');
+    if (!TENANT_ID_PATTERN.test(id)) {
+      throw new Error('Tenant id must be 2-40 lowercase letters, digits or dashes.');
+    }
+    if (!name || !supportEmail) {
+      throw new Error('--name and --email are required.');
+    }
+    if (tenantService.getTenant(id)) {
+      throw new Error(`Tenant "${id}" already exists.`);
+    }
+
+    const tenant = tenantService.createTenant(id, {
+      name,
+      supportEmail,
+      persona: option('persona') ?? `You are a helpful and friendly customer support agent for "${name}".`,
+      policy: option('policy'),
+      supportPhone: option('phone'),
+      supportHours: option('hours'),
+      allowedOrigins: option('origins')?.split(',').map((origin) => origin.trim()).filter(Boolean),
+    });
+    const apiKey = tenantService.createApiKey(tenant.id, 'default', scopesOption());
+    console.log(`Created tenant "${tenant.id}"`);
+    console.log(`  Widget key (public): ${tenant.widgetKey}`);
+    console.log(`  API key (secret, shown once): ${apiKey.key}`);
+  } else if (command === 'add-key') {
+    const id = requireTenantId();
+    if (!tenantService.getTenant(id)) {
+      throw new Error(`Tenant "${id}" not found.`);
+    }
+    const apiKey = tenantService.createApiKey(id, option('name') ?? 'default', scopesOption());
+    console.log(`API key "${apiKey.name}" for "${id}" (secret, shown once): ${apiKey.key}`);
+    console.log(`  Scopes: ${apiKey.scopes.join(', ')}`);
+  } else if (command === 'revoke-key') {
+    const id = requireTenantId();
+    if (!keyId) {
+      throw new Error('Missing key id. Usage: npm run tenants -- revoke-key <id> <key id>');
+    }
+    const apiKey = tenantService.revokeApiKey(id, keyId);
+    if (!apiKey) {
+      throw new Error(`API key "${keyId}" not found for "${id}".`);
+    }
+    console.log(`Revoked API key "${apiKey.name}" (${apiKey.id})`);
+  } else if (command === 'rotate-widget-key') {
+    const id = requireTenantId();
+    const widgetKey = tenantService.rotateWidgetKey(id);
+    if (!widgetKey) {
+      throw new Error(`Tenant "${id}" not found.`);
+    }
+    console.log(`New widget key for "${id}": ${widgetKey}`);
+  } else {
+    console.error(`Unknown command "${command}". Use "list", "create", "add-key", "revoke-key" or "rotate-widget-key".`);
+    process.exit(1);
+  }
+} catch (error: any) {
+  console.error('Tenant command failed:', error.message);
+  process.exit(1);
+}
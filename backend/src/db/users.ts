@@ -0,0 +1,105 @@
+import 'dotenv/config';
+import { randomBytes } from 'crypto';
+import { getPendingMigrations } from './migrator.js';
+import { adminUserService, MIN_PASSWORD_LENGTH } from '../services/adminUserService.js';
+import { tenantService, DEFAULT_TENANT_ID } from '../services/tenantService.js';
+import { ROLES, type Role } from '../services/accessScopes.js';
+
+// Usage: npm run users -- list [--tenant <id>]
+//        npm run users -- create <email> --name <name> [--role viewer|agent|admin] [--tenant <id>] [--password <password>]
+//        npm run users -- set-password <email> [--password <password>]
+//        npm run users -- disable <email>
+//        npm run users -- enable <email>
+//
+// Without --password a random one is generated and printed once.
+const args = process.argv.slice(2);
+const [command = 'list', email] = args.filter((arg, i) => !arg.startsWith('--') && !args[i - 1]?.startsWith('--'));
+
+function option(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function requireEmail(): string {
+  if (!email) {
+    throw new Error(`Missing email. Usage: npm run users -- ${command} <email>`);
+  }
+  return email;
+}
+
+function passwordOption(): { password: string; generated: boolean } {
+  const password = option('password');
+  if (password === undefined) {
+    return { password: randomBytes(12).toString('base64url'), generated: true };
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Passwords must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+  return { password, generated: false };
+}
+
+function requireUser(userEmail: string) {
+  const user = adminUserService.getUserByEmail(userEmail);
+  if (!user) {
+    throw new Error(`User "${userEmail}" not found.`);
+  }
+  return user;
+}
+
+try {
+  if (getPendingMigrations().length > 0) {
+    throw new Error('Database has pending migrations. Run "npm run migrate" first.');
+  }
+
+  if (command === 'list') {
+    const tenants = option('tenant') ? [option('tenant')!] : tenantService.listTenants().map((tenant) => tenant.id);
+    for (const tenantId of tenants) {
+      for (const user of adminUserService.listUsers(tenantId)) {
+        const status = user.disabledAt ? 'disabled' : `last sign-in ${user.lastLoginAt ?? 'never'}`;
+        console.log(`${user.email.padEnd(32)} ${user.role.padEnd(8)} ${tenantId.padEnd(24)} ${status}`);
+      }
+    }
+  } else if (command === 'create') {
+    const userEmail = requireEmail();
+    const name = option('name');
+    const role = (option('role') ?? 'admin') as Role;
+    const tenantId = option('tenant') ?? DEFAULT_TENANT_ID;
+    if (!name) {
+      throw new Error('--name is required.');
+    }
+    if (!ROLES.includes(role)) {
+      throw new Error(`--role must be one of ${ROLES.join(', ')}.`);
+    }
+    if (!tenantService.getTenant(tenantId)) {
+      throw new Error(`Tenant "${tenantId}" not found.`);
+    }
+    if (adminUserService.getUserByEmail(userEmail)) {
+      throw new Error(`User "${userEmail}" already exists.`);
+    }
+
+    const { password, generated } = passwordOption();
+    const user = await adminUserService.createUser(tenantId, { email: userEmail, name, role, password });
+    console.log(`Created ${user.role} "${user.email}" for tenant "${tenantId}"`);
+    if (generated) {
+      console.log(`  Password (shown once): ${password}`);
+    }
+  } else if (command === 'set-password') {
+    const user = requireUser(requireEmail());
+    const { password, generated } = passwordOption();
+    await adminUserService.updateUser(user.id, user.tenantId, { password });
+    console.log(`Password changed for "${user.email}"; their sessions were ended`);
+    if (generated) {
+      console.log(`  Password (shown once): ${password}`);
+    }
+  } else if (command === 'disable' || command === 'enable') {
+    const user = requireUser(requireEmail());
+    await adminUserService.updateUser(user.id, user.tenantId, { disabled: command === 'disable' });
+    console.log(`${command === 'disable' ? 'Disabled' : 'Enabled'} "${user.email}"`);
+  } else {
+    console.error(`Unknown command "${command}". Use "list", "create", "set-password", "disable" or "enable".`);
+    process.exit(1);
+  }
+} catch (error: any) {
+  console.error('User command failed:', error.message);
+  process.exit(1);
+}
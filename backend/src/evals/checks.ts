@@ -0,0 +1,119 @@
+import type { LLMProvider } from '../services/providers/index.js';
+import type { ToolInvocation } from '../services/tools/index.js';
+import type { EvalCase } from './suite.js';
+
+export interface CheckResult {
+  /** e.g. `contains "30 days"` */
+  name: string;
+  passed: boolean;
+  /** Why a check failed, or the judge's reasoning */
+  detail?: string;
+}
+
+/**
+ * Ways the bot declines a question: the out-of-scope answer from its
+ * guidelines and common paraphrases of it
+ */
+const REFUSAL_PATTERNS = [
+  /don'?t have (that|this|the) (specific )?information/i,
+  /(connect|put) you (in touch )?with our (human )?support team/i,
+  /\b(i'?m|i am) (not able|unable) to help/i,
+  /\bi can(no|')?t help with/i,
+];
+
+const JUDGE_SYSTEM_PROMPT = `You grade answers given by a customer support assistant.
+You get the customer's question, the criteria a good answer meets and the assistant's answer.
+Reply with PASS or FAIL on the first line, then one sentence explaining your verdict. Judge only against the criteria.`;
+
+const MAX_JUDGE_TOKENS = 150;
+
+export function isRefusal(reply: string): boolean {
+  return REFUSAL_PATTERNS.some((pattern) => pattern.test(reply));
+}
+
+/**
+ * The deterministic checks of a case: facts, forbidden claims, patterns,
+ * refusal and tool calls
+ */
+export function runChecks(evalCase: EvalCase, reply: string, toolCalls: ToolInvocation[]): CheckResult[] {
+  const { expect } = evalCase;
+  const text = reply.toLowerCase();
+  const results: CheckResult[] = [];
+
+  for (const fact of expect.contains) {
+    const passed = text.includes(fact.toLowerCase());
+    results.push({ name: `contains "${fact}"`, passed, detail: passed ? undefined : 'Not found in the answer' });
+  }
+
+  for (const claim of expect.notContains) {
+    const passed = !text.includes(claim.toLowerCase());
+    results.push({ name: `does not contain "${claim}"`, passed, detail: passed ? undefined : 'Found in the answer' });
+  }
+
+  for (const pattern of expect.matches) {
+    const passed = new RegExp(pattern, 'i').test(reply);
+    results.push({ name: `matches /${pattern}/`, passed, detail: passed ? undefined : 'No match in the answer' });
+  }
+
+  for (const pattern of expect.notMatches) {
+    const match = new RegExp(pattern, 'i').exec(reply);
+    results.push({ name: `does not match /${pattern}/`, passed: !match, detail: match ? `Matched "${match[0]}"` : undefined });
+  }
+
+  if (expect.refusal !== undefined) {
+    const refused = isRefusal(reply);
+    const passed = refused === expect.refusal;
+    results.push({
+      name: expect.refusal ? 'refuses' : 'answers without refusing',
+      passed,
+      detail: passed ? undefined : refused ? 'The answer declines the question' : 'The answer does not decline the question',
+    });
+  }
+
+  const called = new Set(toolCalls.map((call) => call.name));
+  for (const tool of expect.tools) {
+    const passed = called.has(tool);
+    results.push({
+      name: `calls ${tool}`,
+      passed,
+      detail: passed ? undefined : `Called: ${[...called].join(', ') || 'no tools'}`,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Ask `provider` whether the answer meets the case's `judge` criteria
+ */
+export async function judgeReply(provider: LLMProvider, evalCase: EvalCase, reply: string): Promise<CheckResult> {
+  const criteria = evalCase.expect.judge!;
+  const result = await provider.generate({
+    system: JUDGE_SYSTEM_PROMPT,
+    messages: [
+      {
+        role: 'user',
+        content: `Customer question:
+${evalCase.question}
+
+Criteria:
+${criteria}
+
+Assistant answer:
+${reply}`,
+      },
+    ],
+    maxOutputTokens: MAX_JUDGE_TOKENS,
+    purpose: 'judge',
+  });
+
+  const verdict = /^\s*\**\s*(PASS|FAIL)\b\**[\s:.-]*([\s\S]*)$/i.exec(result.text);
+  if (!verdict) {
+    return { name: 'judge', passed: false, detail: `Unreadable verdict: ${result.text.trim().slice(0, 200)}` };
+  }
+  return {
+    name: 'judge',
+    passed: verdict[1].toUpperCase() === 'PASS',
+    detail: verdict[2].trim() || undefined,
+  };
+}
@@ -0,0 +1,96 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { LLMProvider, LLMRequest, LLMResult } from '../services/providers/index.js';
+
+/**
+ * Provider responses captured by `--record`, keyed by a hash of the
+ * request, so a suite can be replayed without network access or API keys
+ */
+export interface Recording {
+  provider: string;
+  model: string;
+  recordedAt: string;
+  responses: Record<string, LLMResult>;
+}
+
+/**
+ * Everything that shapes the provider's answer. A changed prompt, knowledge
+ * base or question gets a new key, so stale recordings show up as misses
+ * instead of passing silently.
+ */
+function requestKey(request: LLMRequest): string {
+  const { system, messages, maxOutputTokens, purpose } = request;
+  return createHash('sha256')
+    .update(JSON.stringify({ system, messages, maxOutputTokens, purpose: purpose ?? 'reply' }))
+    .digest('hex');
+}
+
+/**
+ * Passes requests to `inner` and keeps every response for `save`
+ */
+export class RecordingProvider implements LLMProvider {
+  private responses: Record<string, LLMResult> = {};
+
+  constructor(private inner: LLMProvider) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResult> {
+    const result = await this.inner.generate(request);
+    this.responses[requestKey(request)] = result;
+    return result;
+  }
+
+  /**
+   * Write the recording. With `merge`, responses already recorded at
+   * `filePath` are kept, for runs of only some cases.
+   */
+  save(filePath: string, merge = false) {
+    const existing = merge && existsSync(filePath)
+      ? (JSON.parse(readFileSync(filePath, 'utf-8')) as Recording).responses
+      : {};
+    const recording: Recording = {
+      provider: this.inner.name,
+      model: this.inner.model,
+      recordedAt: new Date().toISOString(),
+      responses: { ...existing, ...this.responses },
+    };
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, `${JSON.stringify(recording, null, 2)}\n`);
+  }
+}
+
+/**
+ * Answers from a recording. Requests that weren't recorded fail, which
+ * marks the case as errored rather than guessing a reply.
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay';
+  readonly model: string;
+
+  constructor(private recording: Recording) {
+    this.model = `${recording.provider}/${recording.model}`;
+  }
+
+  static fromFile(filePath: string): ReplayProvider {
+    if (!existsSync(filePath)) {
+      throw new Error(`No recording at ${filePath}. Run the suite with --record first.`);
+    }
+    return new ReplayProvider(JSON.parse(readFileSync(filePath, 'utf-8')) as Recording);
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResult> {
+    const result = this.recording.responses[requestKey(request)];
+    if (!result) {
+      throw new Error('No recorded response for this prompt. The prompt changed since recording; run with --record to refresh.');
+    }
+    return result;
+  }
+}
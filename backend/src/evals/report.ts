@@ -0,0 +1,134 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { CaseResult, CaseStatus, EvalReport } from './runner.js';
+
+export interface StatusChange {
+  id: string;
+  from: CaseStatus;
+  to: CaseStatus;
+}
+
+/**
+ * How a run differs from the previous one
+ */
+export interface ReportDiff {
+  previousStartedAt: string;
+  /** Passed before, fail or error now */
+  regressions: StatusChange[];
+  /** Failed or errored before, pass now */
+  fixes: StatusChange[];
+  /** Between fail and error */
+  otherChanges: StatusChange[];
+  /** Cases whose status is unchanged but whose answer is worded differently */
+  changedAnswers: string[];
+  added: string[];
+  removed: string[];
+}
+
+const STATUS_LABELS: Record<CaseStatus, string> = {
+  pass: 'PASS',
+  fail: 'FAIL',
+  error: 'ERROR',
+};
+
+export function loadReport(filePath: string): EvalReport | null {
+  return existsSync(filePath) ? (JSON.parse(readFileSync(filePath, 'utf-8')) as EvalReport) : null;
+}
+
+export function saveReport(filePath: string, report: EvalReport) {
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, `${JSON.stringify(report, null, 2)}\n`);
+}
+
+export function diffReports(previous: EvalReport, current: EvalReport): ReportDiff {
+  const before = new Map(previous.cases.map((result) => [result.id, result]));
+  const after = new Map(current.cases.map((result) => [result.id, result]));
+  const diff: ReportDiff = {
+    previousStartedAt: previous.startedAt,
+    regressions: [],
+    fixes: [],
+    otherChanges: [],
+    changedAnswers: [],
+    added: current.cases.filter((result) => !before.has(result.id)).map((result) => result.id),
+    removed: previous.cases.filter((result) => !after.has(result.id)).map((result) => result.id),
+  };
+
+  for (const result of current.cases) {
+    const old = before.get(result.id);
+    if (!old) {
+      continue;
+    }
+    const change = { id: result.id, from: old.status, to: result.status };
+    if (old.status === result.status) {
+      if (old.reply !== result.reply) {
+        diff.changedAnswers.push(result.id);
+      }
+    } else if (old.status === 'pass') {
+      diff.regressions.push(change);
+    } else if (result.status === 'pass') {
+      diff.fixes.push(change);
+    } else {
+      diff.otherChanges.push(change);
+    }
+  }
+
+  return diff;
+}
+
+function indent(text: string, prefix = '      '): string {
+  return text
+    .trim()
+    .split('\n')
+    .map((line) => `${prefix}${line}`)
+    .join('\n');
+}
+
+function formatCase(result: CaseResult): string {
+  const lines = [`${STATUS_LABELS[result.status].padEnd(5)} ${result.id}`];
+  if (result.status === 'error') {
+    lines.push(`      ${result.error}`);
+  }
+  for (const check of result.checks.filter((check) => !check.passed)) {
+    lines.push(`    x ${check.name}${check.detail ? ` - ${check.detail}` : ''}`);
+  }
+  if (result.status === 'fail' && result.reply) {
+    lines.push('    Answer:', indent(result.reply));
+  }
+  return lines.join('\n');
+}
+
+function formatChanges(title: string, changes: StatusChange[]): string[] {
+  return changes.length > 0
+    ? [`  ${title}:`, ...changes.map((change) => `    ${change.id} (${STATUS_LABELS[change.from]} -> ${STATUS_LABELS[change.to]})`)]
+    : [];
+}
+
+/**
+ * Plain-text report: failed cases with their answers, the totals, and the diff
+ * against the previous run when there is one
+ */
+export function formatReport(report: EvalReport, diff: ReportDiff | null): string {
+  const { summary } = report;
+  const problems = report.cases.filter((result) => result.status !== 'pass');
+  const lines = [
+    `Suite "${report.suite}" with ${report.provider}/${report.model} on tenant "${report.tenantId}"${report.judged ? ', judged' : ''}`,
+    ...(problems.length > 0 ? ['', ...problems.map(formatCase)] : []),
+    '',
+    `${summary.passed}/${summary.total} passed, ${summary.failed} failed, ${summary.errored} errored in ${(report.durationMs / 1000).toFixed(1)}s`,
+  ];
+
+  if (diff) {
+    lines.push('', `Compared with the run of ${diff.previousStartedAt}:`);
+    const changes = [
+      ...formatChanges('Regressions', diff.regressions),
+      ...formatChanges('Fixed', diff.fixes),
+      ...formatChanges('Changed', diff.otherChanges),
+      ...(diff.changedAnswers.length > 0 ? [`  Reworded answers: ${diff.changedAnswers.join(', ')}`] : []),
+      ...(diff.added.length > 0 ? [`  New cases: ${diff.added.join(', ')}`] : []),
+      ...(diff.removed.length > 0 ? [`  Removed cases: ${diff.removed.join(', ')}`] : []),
+    ];
+    lines.push(...(changes.length > 0 ? changes : ['  No changes']));
+  }
+
+  return lines.join('\n');
+}
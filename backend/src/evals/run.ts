@@ -0,0 +1,100 @@
+import 'dotenv/config';
+import { basename, dirname, join, resolve } from 'path';
+import { getPendingMigrations } from '../db/migrator.js';
+import { LLMService } from '../services/llmService.js';
+import { createProviderFromEnv, type LLMProvider } from '../services/providers/index.js';
+import { tenantService, DEFAULT_TENANT_ID } from '../services/tenantService.js';
+import { RecordingProvider, ReplayProvider } from './recordingProvider.js';
+import { diffReports, formatReport, loadReport, saveReport } from './report.js';
+import { runSuite } from './runner.js';
+import { loadSuite } from './suite.js';
+
+// Usage: npm run eval -- [suite] [--record | --replay] [--judge] [--case <id>]... [--tenant <id>]
+//
+// Runs evals/support.yaml by default with the provider configured by
+// LLM_PROVIDER. --record saves the provider's responses next to the suite
+// (recordings/<suite>.json) and --replay answers from them, for offline runs.
+// --judge grades the cases' `judge` criteria with the same provider. The
+// report of each full run is kept in results/<suite>.json and the next run
+// is diffed against it. Exits with 1 if any case fails.
+const args = process.argv.slice(2);
+const [suiteArg = 'evals/support.yaml'] = args.filter((arg, i) => !arg.startsWith('--') && !args[i - 1]?.match(/^--(case|tenant)$/));
+
+function option(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function options(name: string): string[] {
+  return args.flatMap((arg, i) => (arg === `--${name}` && args[i + 1] ? [args[i + 1]] : []));
+}
+
+try {
+  if (args.includes('--record') && args.includes('--replay')) {
+    throw new Error('Use either --record or --replay, not both.');
+  }
+  if (getPendingMigrations().length > 0) {
+    throw new Error('Database has pending migrations. Run "npm run migrate" first.');
+  }
+
+  const suitePath = resolve(suiteArg);
+  const suite = loadSuite(suitePath);
+  const suiteDir = dirname(suitePath);
+  const recordingPath = join(suiteDir, 'recordings', `${suite.name}.json`);
+  const resultsPath = join(suiteDir, 'results', `${suite.name}.json`);
+
+  const onlyCases = options('case');
+  const unknown = onlyCases.filter((id) => !suite.cases.some((evalCase) => evalCase.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown case(s) in ${basename(suitePath)}: ${unknown.join(', ')}`);
+  }
+  if (onlyCases.length > 0) {
+    suite.cases = suite.cases.filter((evalCase) => onlyCases.includes(evalCase.id));
+  }
+
+  const tenantId = option('tenant') ?? suite.tenant ?? DEFAULT_TENANT_ID;
+  const tenant = tenantService.getTenant(tenantId);
+  if (!tenant) {
+    throw new Error(`Tenant "${tenantId}" not found.`);
+  }
+
+  let provider: LLMProvider;
+  let recorder: RecordingProvider | null = null;
+  if (args.includes('--replay')) {
+    provider = ReplayProvider.fromFile(recordingPath);
+  } else if (args.includes('--record')) {
+    provider = recorder = new RecordingProvider(createProviderFromEnv());
+  } else {
+    provider = createProviderFromEnv();
+  }
+
+  const report = await runSuite(suite, {
+    service: new LLMService(provider),
+    tenant,
+    judge: args.includes('--judge') ? provider : undefined,
+    onCase: (result) => console.log(`${result.status.toUpperCase().padEnd(5)} ${result.id}`),
+  });
+
+  // A partial run is only compared on the cases it ran, and doesn't replace the saved report
+  const previous = loadReport(resultsPath);
+  if (previous && onlyCases.length > 0) {
+    previous.cases = previous.cases.filter((result) => onlyCases.includes(result.id));
+  }
+  console.log(`\n${formatReport(report, previous ? diffReports(previous, report) : null)}`);
+
+  if (onlyCases.length === 0) {
+    saveReport(resultsPath, report);
+    console.log(`\nReport saved to ${resultsPath}`);
+  }
+  if (recorder) {
+    recorder.save(recordingPath, onlyCases.length > 0);
+    console.log(`Responses recorded to ${recordingPath}`);
+  }
+
+  if (report.summary.failed + report.summary.errored > 0) {
+    process.exit(1);
+  }
+} catch (error: any) {
+  console.error('Eval failed:', error.message);
+  process.exit(1);
+}
@@ -0,0 +1,137 @@
+import type { MessageData } from '../services/conversationService.js';
+import type { LLMService } from '../services/llmService.js';
+import type { LLMProvider } from '../services/providers/index.js';
+import { piiService } from '../services/pii/index.js';
+import type { Tenant } from '../services/tenantService.js';
+import type { LLMUsage } from '../services/usageService.js';
+import { judgeReply, runChecks, type CheckResult } from './checks.js';
+import type { EvalCase, EvalSuite } from './suite.js';
+
+export type CaseStatus = 'pass' | 'fail' | 'error';
+
+export interface CaseResult {
+  id: string;
+  question: string;
+  tags: string[];
+  status: CaseStatus;
+  /** Null when the reply couldn't be generated */
+  reply: string | null;
+  checks: CheckResult[];
+  toolCalls: string[];
+  usage?: LLMUsage;
+  /** Why the case errored */
+  error?: string;
+  durationMs: number;
+}
+
+export interface EvalReport {
+  suite: string;
+  provider: string;
+  model: string;
+  tenantId: string;
+  judged: boolean;
+  startedAt: string;
+  durationMs: number;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    errored: number;
+  };
+  cases: CaseResult[];
+}
+
+export interface RunOptions {
+  service: LLMService;
+  tenant: Tenant;
+  /** Grades `judge` criteria; cases' judge criteria are skipped without it */
+  judge?: LLMProvider;
+  /** Called as each case finishes, for progress output */
+  onCase?: (result: CaseResult) => void;
+}
+
+/**
+ * Earlier turns of a case as stored messages, one second apart
+ */
+function toHistory(evalCase: EvalCase): MessageData[] {
+  const start = Date.parse('2024-01-01T00:00:00.000Z');
+  return evalCase.history.map((turn, index) => ({
+    id: `${evalCase.id}-${index}`,
+    conversationId: `eval-${evalCase.id}`,
+    sender: turn.sender,
+    text: turn.text,
+    timestamp: new Date(start + index * 1000).toISOString(),
+  }));
+}
+
+async function runCase(evalCase: EvalCase, options: RunOptions): Promise<CaseResult> {
+  const startedAt = Date.now();
+  const base = { id: evalCase.id, question: evalCase.question, tags: evalCase.tags };
+
+  try {
+    // Mask PII like the chat route does, so prompts match production
+    const reply = await options.service.generateReply(
+      evalCase.question,
+      { summary: null, messages: toHistory(evalCase) },
+      options.tenant,
+      piiService.createRedactor(`eval-${evalCase.id}`)
+    );
+
+    const checks = runChecks(evalCase, reply.text, reply.toolCalls);
+    if (evalCase.expect.judge && options.judge) {
+      checks.push(await judgeReply(options.judge, evalCase, reply.text));
+    }
+
+    return {
+      ...base,
+      status: checks.every((check) => check.passed) ? 'pass' : 'fail',
+      reply: reply.text,
+      checks,
+      toolCalls: reply.toolCalls.map((call) => call.name),
+      usage: reply.usage,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error: any) {
+    return {
+      ...base,
+      status: 'error',
+      reply: null,
+      checks: [],
+      toolCalls: [],
+      error: error.message,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+/**
+ * Answer every case of the suite through `LLMService` and check the
+ * answers. Cases run one after another to stay within provider rate limits.
+ */
+export async function runSuite(suite: EvalSuite, options: RunOptions): Promise<EvalReport> {
+  const startedAt = new Date();
+  const cases: CaseResult[] = [];
+
+  for (const evalCase of suite.cases) {
+    const result = await runCase(evalCase, options);
+    cases.push(result);
+    options.onCase?.(result);
+  }
+
+  return {
+    suite: suite.name,
+    provider: options.service.providerName,
+    model: options.service.modelName,
+    tenantId: options.tenant.id,
+    judged: Boolean(options.judge),
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    summary: {
+      total: cases.length,
+      passed: cases.filter((result) => result.status === 'pass').length,
+      failed: cases.filter((result) => result.status === 'fail').length,
+      errored: cases.filter((result) => result.status === 'error').length,
+    },
+    cases,
+  };
+}
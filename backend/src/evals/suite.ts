@@ -0,0 +1,93 @@
+import { readFileSync } from 'fs';
+import { basename, extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+const regexSchema = z.string().min(1).refine(
+  (pattern) => {
+    try {
+      new RegExp(pattern, 'i');
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Must be a valid regular expression' }
+);
+
+const expectationsSchema = z
+  .object({
+    /** Facts the answer must state, matched case-insensitively */
+    contains: z.array(z.string().min(1)).default([]),
+    /** Claims the answer must not make */
+    notContains: z.array(z.string().min(1)).default([]),
+    matches: z.array(regexSchema).default([]),
+    notMatches: z.array(regexSchema).default([]),
+    /** true: the bot must decline and point to human support; false: it must answer */
+    refusal: z.boolean().optional(),
+    /** Tools the bot must call, in any order */
+    tools: z.array(z.string().min(1)).default([]),
+    /** What a good answer looks like, graded by the LLM judge when enabled */
+    judge: z.string().trim().min(1).optional(),
+  })
+  .strict();
+
+const caseSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Use lowercase letters, digits and dashes'),
+    question: z.string().trim().min(1).max(2000),
+    /** Earlier turns of the conversation, oldest first */
+    history: z
+      .array(z.object({ sender: z.enum(['user', 'ai']), text: z.string().min(1) }).strict())
+      .default([]),
+    tags: z.array(z.string()).default([]),
+    expect: expectationsSchema,
+  })
+  .strict();
+
+const suiteSchema = z
+  .object({
+    name: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Use lowercase letters, digits and dashes').optional(),
+    description: z.string().optional(),
+    /** Tenant whose persona, policy and knowledge base answer the questions */
+    tenant: z.string().optional(),
+    cases: z.array(caseSchema).min(1),
+  })
+  .strict()
+  .superRefine((suite, ctx) => {
+    const seen = new Set<string>();
+    suite.cases.forEach((evalCase, index) => {
+      if (seen.has(evalCase.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cases', index, 'id'], message: `Duplicate case id "${evalCase.id}"` });
+      }
+      seen.add(evalCase.id);
+    });
+  });
+
+export type EvalExpectations = z.infer<typeof expectationsSchema>;
+export type EvalCase = z.infer<typeof caseSchema>;
+
+export interface EvalSuite extends z.infer<typeof suiteSchema> {
+  name: string;
+}
+
+/**
+ * Read a suite from a `.yaml`, `.yml` or `.json` file. The suite is named
+ * after the file unless it sets `name`.
+ */
+export function loadSuite(filePath: string): EvalSuite {
+  const source = readFileSync(filePath, 'utf-8');
+  const extension = extname(filePath).toLowerCase();
+  const raw = extension === '.json' ? JSON.parse(source) : parseYaml(source);
+
+  const result = suiteSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.errors.map((issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid eval suite ${filePath}:\n${issues.join('\n')}`);
+  }
+
+  return {
+    ...result.data,
+    name: result.data.name ?? basename(filePath, extension),
+  };
+}
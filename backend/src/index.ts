@@ -1,21 +1,31 @@
+// Load .env before anything reads process.env (the database path included)
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
 import rateLimit from 'express-rate-limit';
-import { initDatabase, dbInstance } from './db/database.js';
+import { dbInstance } from './db/database.js';
+import { getPendingMigrations } from './db/migrator.js';
 import chatRoutes from './routes/chatRoutes.js';
 import dataRoutes from './routes/dataRoutes.js';
-
-dotenv.config();
+import agentRoutes from './routes/agentRoutes.js';
+import authRoutes from './routes/authRoutes.js';
+import { tenantService } from './services/tenantService.js';
+import { webhookService } from './services/webhookService.js';
+import { retentionService } from './services/retentionService.js';
+import { logger } from './services/logger.js';
+import { metricsRegistry, instrumentDatabase } from './services/metrics.js';
+import { requestContext } from './middleware/requestContext.js';
+import { metricsAuth } from './middleware/auth.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-// CORS configuration - environment-aware
-const allowedOrigins = process.env.FRONTEND_URL
-  ? process.env.FRONTEND_URL.split(',').map(url => url.trim())
-  : ['http://localhost:5173', 'http://localhost:3000'];
+// Time SQLite statements for /metrics
+instrumentDatabase(dbInstance);
 
+// CORS configuration - environment-aware. FRONTEND_URL plus every
+// tenant's allowed origins; /chat then checks the origin against the
+// tenant behind the widget key
 const corsOptions = {
   origin: (origin: string | undefined, callback: (err: Error | null, allow?: boolean) => void) => {
     // Allow requests with no origin (like mobile apps or curl requests)
@@ -23,17 +33,21 @@ const corsOptions = {
       callback(null, true);
       return;
     }
-    if (allowedOrigins.includes(origin)) {
+    if (tenantService.isKnownOrigin(origin)) {
       callback(null, true);
     } else {
       callback(new Error('Not allowed by CORS'));
     }
   },
   credentials: true,
+  // Lets the embedded widget read the session token it was issued
+  exposedHeaders: ['X-Session-Token', 'X-Session-Expires', 'X-Request-Id'],
   optionsSuccessStatus: 200,
 };
 
 // Middleware
+// Request ids, access logs and HTTP metrics; first so every response is counted
+app.use(requestContext);
 app.use(cors(corsOptions));
 app.use(express.json({ limit: '10mb' }));
 
@@ -48,9 +62,32 @@ const limiter = rateLimit({
 
 app.use('/chat', limiter);
 app.use('/data', limiter);
+app.use('/agent', limiter);
+
+// Sign-in attempts get a much smaller budget to slow down password guessing
+const loginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: process.env.NODE_ENV === 'production' ? 10 : 100,
+  message: 'Too many sign-in attempts from this IP, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+app.use('/auth', limiter);
+app.use('/auth/login', loginLimiter);
 
-// Initialize database
-initDatabase();
+if (process.env.NODE_ENV === 'production' && process.env.ADMIN_AUTH_DISABLED === 'true') {
+  logger.warn('ADMIN_AUTH_DISABLED is ignored in production - data and agent endpoints require credentials');
+}
+
+// Refuse to start against a schema that is behind the code
+const pendingMigrations = getPendingMigrations();
+if (pendingMigrations.length > 0) {
+  logger.error('Database has pending migrations. Run "npm run migrate" in the backend directory, then start the server again.', {
+    pending: pendingMigrations.map((migration) => `${migration.version} ${migration.name}`),
+  });
+  process.exit(1);
+}
 
 // Enhanced health check endpoint with database connectivity
 app.get('/health', (req, res) => {
@@ -72,13 +109,26 @@ app.get('/health', (req, res) => {
   }
 });
 
+// Prometheus metrics
+app.get('/metrics', metricsAuth, async (req, res) => {
+  try {
+    res.set('Content-Type', metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  } catch (error: any) {
+    logger.error('Metrics error', { error });
+    res.status(500).json({ error: 'Internal server error', message: error.message });
+  }
+});
+
 // API routes
 app.use('/chat', chatRoutes);
 app.use('/data', dataRoutes);
+app.use('/agent', agentRoutes);
+app.use('/auth', authRoutes);
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Unhandled error:', err);
+  logger.error('Unhandled error', { error: err });
   res.status(500).json({
     error: 'Internal server error',
     message: 'An unexpected error occurred.',
@@ -91,7 +141,15 @@ app.use((req, res) => {
 });
 
 app.listen(PORT, () => {
-  console.log(`🚀 Backend server running on http://localhost:${PORT}`);
-  console.log(`📊 Health check: http://localhost:${PORT}/health`);
+  logger.info(`Backend server running on http://localhost:${PORT}`, {
+    health: `http://localhost:${PORT}/health`,
+    metrics: `http://localhost:${PORT}/metrics`,
+  });
 });
 
+// Deliver queued webhook events in the background
+webhookService.start();
+
+// Apply data retention rules now and on a schedule
+retentionService.start();
+
@@ -1,28 +1,231 @@
 import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { tenantService, DEFAULT_TENANT_ID, type Tenant } from '../services/tenantService.js';
+import { sessionTokenService } from '../services/sessionTokenService.js';
+import { adminUserService, ADMIN_SESSION_PREFIX } from '../services/adminUserService.js';
+import { SCOPES, ROLE_SCOPES, type Role, type Scope } from '../services/accessScopes.js';
+import { logger } from '../services/logger.js';
+
+/** Who is calling a `/data` or `/agent` endpoint */
+export interface Principal {
+  type: 'user' | 'api_key' | 'development';
+  /** Admin user or API key id */
+  id: string;
+  /** User name or API key name */
+  name: string;
+  /** Set for admin users */
+  role: Role | null;
+  scopes: Scope[];
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Tenant resolved from the widget key or API key */
+      tenant?: Tenant;
+      /** Conversation the customer's session token grants access to */
+      sessionId?: string;
+      /** Admin user or API key behind a `/data` or `/agent` request */
+      principal?: Principal;
+    }
+  }
+}
 
 /**
- * Simple API key authentication middleware
- * For demo purposes - in production, use proper JWT or OAuth
+ * The tenant the auth middleware resolved for this request
  */
-export function apiKeyAuth(req: Request, res: Response, next: NextFunction) {
-  const apiKey = req.headers['x-api-key'] || req.query.apiKey as string;
-  const validApiKey = process.env.API_KEY;
+export function requestTenant(req: Request): Tenant {
+  if (!req.tenant) {
+    throw new Error('Tenant was not resolved for this request');
+  }
+  return req.tenant;
+}
 
-  // If no API key is set, allow access (for development)
-  if (!validApiKey) {
-    console.warn('⚠️  API_KEY not set - data endpoints are publicly accessible');
-    return next();
+/**
+ * The admin user or API key the auth middleware resolved for this request
+ */
+export function requestPrincipal(req: Request): Principal {
+  if (!req.principal) {
+    throw new Error('Principal was not resolved for this request');
   }
+  return req.principal;
+}
 
-  // If API key is provided and matches, allow access
-  if (apiKey && apiKey === validApiKey) {
-    return next();
+/**
+ * The bearer token or API key sent with the request. Query strings are not
+ * accepted because they end up in access logs.
+ */
+function readCredential(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return req.headers['x-api-key'] as string | undefined;
+}
+
+let warnedAuthDisabled = false;
+
+/**
+ * Authenticate `/data` and `/agent` requests with an admin session token
+ * (`Authorization: Bearer as_...`) or an API key (`Authorization: Bearer
+ * sk_...` or `X-API-Key`). Either one resolves the tenant and the scopes
+ * the routes check with requireScope.
+ *
+ * Requests without credentials are refused, except in development with
+ * `ADMIN_AUTH_DISABLED=true`, where they get the default tenant with every
+ * scope. Production always fails closed.
+ */
+export function adminAuth(req: Request, res: Response, next: NextFunction) {
+  const credential = readCredential(req);
+
+  if (credential?.startsWith(ADMIN_SESSION_PREFIX)) {
+    const user = adminUserService.authenticateSession(credential);
+    const tenant = user ? tenantService.getTenant(user.tenantId) : null;
+    if (user && tenant) {
+      req.tenant = tenant;
+      req.principal = { type: 'user', id: user.id, name: user.name, role: user.role, scopes: ROLE_SCOPES[user.role] };
+      return next();
+    }
+  } else if (credential) {
+    const match = tenantService.authenticateApiKey(credential);
+    if (match) {
+      req.tenant = match.tenant;
+      req.principal = { type: 'api_key', id: match.apiKey.id, name: match.apiKey.name, role: null, scopes: match.apiKey.scopes };
+      return next();
+    }
+  }
+
+  if (!credential && process.env.ADMIN_AUTH_DISABLED === 'true' && process.env.NODE_ENV !== 'production') {
+    if (!warnedAuthDisabled) {
+      logger.warn('ADMIN_AUTH_DISABLED=true - data and agent endpoints are open without credentials');
+      warnedAuthDisabled = true;
+    }
+    req.tenant = tenantService.getTenant(DEFAULT_TENANT_ID) ?? undefined;
+    req.principal = { type: 'development', id: 'development', name: 'Development', role: null, scopes: [...SCOPES] };
+    if (req.tenant) {
+      return next();
+    }
   }
 
-  // Otherwise, deny access
   res.status(401).json({
     error: 'Unauthorized',
-    message: 'Valid API key required. Provide it via X-API-Key header or ?apiKey query parameter.',
+    message: credential
+      ? 'Invalid, expired or revoked credentials.'
+      : 'Credentials required. Sign in via POST /auth/login and send "Authorization: Bearer <token>", or send an API key.',
   });
 }
 
+/**
+ * Only let the request through if the caller's role or API key grants
+ * `scope`. Runs after adminAuth.
+ */
+export function requireScope(scope: Scope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!requestPrincipal(req).scopes.includes(scope)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: `This action requires the "${scope}" scope.`,
+      });
+    }
+    next();
+  };
+}
+
+/**
+ * Resolve the tenant from the public widget key sent by the chat widget.
+ * Browsers may only use a key from one of the tenant's allowed origins.
+ */
+export function widgetKeyAuth(req: Request, res: Response, next: NextFunction) {
+  const widgetKey = req.headers['x-widget-key'] as string | undefined;
+  const tenant = widgetKey ? tenantService.getTenantByWidgetKey(widgetKey) : null;
+
+  if (!tenant) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid widget key required. Provide it via X-Widget-Key header.',
+    });
+  }
+
+  const origin = req.headers.origin;
+  if (origin && !tenantService.isOriginAllowed(tenant, origin)) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: 'This widget key is not allowed on this site.',
+    });
+  }
+
+  req.tenant = tenant;
+  next();
+}
+
+/**
+ * Resolve the customer's conversation from the `X-Session-Token` header.
+ * Runs after widgetKeyAuth. With `optional`, a request without a token goes
+ * through without a session, e.g. the first message of a new conversation.
+ */
+export function sessionTokenAuth(options: { optional?: boolean } = {}) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = req.headers['x-session-token'] as string | undefined;
+    if (!token && options.optional) {
+      return next();
+    }
+
+    const sessionId = token ? sessionTokenService.verify(token, requestTenant(req).id) : null;
+    if (!sessionId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: token
+          ? 'Session token is invalid or expired. Start a new conversation.'
+          : 'Session token required. Provide it via X-Session-Token header.',
+      });
+    }
+
+    req.sessionId = sessionId;
+    next();
+  };
+}
+
+/**
+ * The conversation sessionTokenAuth resolved for this request
+ */
+export function requestSessionId(req: Request): string {
+  if (!req.sessionId) {
+    throw new Error('Session was not resolved for this request');
+  }
+  return req.sessionId;
+}
+
+function sameSecret(given: string, expected: string): boolean {
+  // Hash both so the comparison doesn't leak the expected length
+  const left = createHash('sha256').update(given).digest();
+  const right = createHash('sha256').update(expected).digest();
+  return timingSafeEqual(left, right);
+}
+
+/**
+ * Protect `/metrics` with `METRICS_TOKEN`, sent by the scraper as
+ * `Authorization: Bearer <token>`. Without a token configured the endpoint
+ * is open in development and refused in production.
+ */
+export function metricsAuth(req: Request, res: Response, next: NextFunction) {
+  const expected = process.env.METRICS_TOKEN;
+  if (!expected) {
+    if (process.env.NODE_ENV === 'production') {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Metrics are disabled. Set METRICS_TOKEN to enable them.',
+      });
+    }
+    return next();
+  }
+
+  const authorization = req.headers.authorization;
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+  if (!token || !sameSecret(token, expected)) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Metrics token required. Provide it via "Authorization: Bearer <token>".',
+    });
+  }
+  next();
+}
@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { logger, runWithRequestContext } from '../services/logger.js';
+import { httpRequestDuration, httpRequestsTotal } from '../services/metrics.js';
+
+// Ids accepted from callers; anything else is replaced with a fresh one
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Scrapes and probes are logged at debug level so they don't drown out traffic
+const QUIET_PATHS = new Set(['/metrics', '/health']);
+
+/**
+ * The route pattern that handled the request, e.g. `/data/conversations/:id`,
+ * so metrics don't get a series per id. Requests a router's middleware
+ * answered before any route (failed auth, say) are grouped under the
+ * router's prefix, and requests nothing matched under `unmatched`.
+ */
+function routeLabel(req: Request): string {
+  if (req.route) {
+    return `${req.baseUrl}${req.route.path}`;
+  }
+  return req.baseUrl ? `${req.baseUrl}/*` : 'unmatched';
+}
+
+/**
+ * Give every request a correlation id, taken from `X-Request-Id` (the
+ * SvelteKit proxy routes pass theirs on) or generated, and return it in the
+ * `X-Request-Id` response header. Log lines written while handling the
+ * request carry it. When the response is done, a summary line is logged and
+ * the request is counted in the HTTP metrics.
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get('X-Request-Id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  const context = { requestId, method: req.method, path: req.path };
+  const startedAt = process.hrtime.bigint();
+  res.setHeader('X-Request-Id', requestId);
+
+  // 'close' also fires when the client goes away before the response ends
+  res.once('close', () => {
+    const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+    const labels = { method: req.method, route: routeLabel(req), status: String(res.statusCode) };
+    httpRequestsTotal.inc(labels);
+    httpRequestDuration.observe(labels, seconds);
+
+    const fields = {
+      route: labels.route,
+      status: res.statusCode,
+      durationMs: Math.round(seconds * 1000),
+      ...(res.writableFinished ? {} : { aborted: true }),
+    };
+    runWithRequestContext(context, () => {
+      if (QUIET_PATHS.has(req.path)) {
+        logger.debug('Request completed', fields);
+      } else {
+        logger.info('Request completed', fields);
+      }
+    });
+  });
+
+  runWithRequestContext(context, next);
+}
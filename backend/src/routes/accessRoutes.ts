@@ -0,0 +1,223 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { adminUserService, MIN_PASSWORD_LENGTH } from '../services/adminUserService.js';
+import { tenantService } from '../services/tenantService.js';
+import { SCOPES, ROLES, ROLE_SCOPES, type Scope } from '../services/accessScopes.js';
+import { requireScope, requestPrincipal, requestTenant } from '../middleware/auth.js';
+import { logger } from '../services/logger.js';
+
+const router = Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const passwordSchema = z.string().min(MIN_PASSWORD_LENGTH).max(200);
+
+const userSchema = z.object({
+  email: z.string().trim().email().max(200),
+  name: z.string().trim().min(1).max(100),
+  role: z.enum(ROLES),
+  password: passwordSchema,
+});
+
+const userUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    role: z.enum(ROLES),
+    password: passwordSchema,
+    disabled: z.boolean(),
+  })
+  .partial()
+  .refine((changes) => Object.keys(changes).length > 0, { message: 'At least one field must be provided' });
+
+const apiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(SCOPES)).min(1),
+});
+
+/**
+ * Callers can only hand out access they have themselves
+ */
+function exceedsCaller(req: Request, scopes: Scope[]): boolean {
+  const held = requestPrincipal(req).scopes;
+  return scopes.some((scope) => !held.includes(scope));
+}
+
+const SCOPE_ESCALATION = {
+  error: 'Forbidden',
+  message: 'Cannot grant scopes the caller does not have.',
+};
+
+// GET /data/users - Admin users of the tenant
+router.get('/users', requireScope('users:manage'), (req: Request, res: Response) => {
+  try {
+    const users = adminUserService.listUsers(requestTenant(req).id);
+    res.json({
+      users,
+      total: users.length,
+    });
+  } catch (error: any) {
+    logger.error('List admin users error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve users.',
+    });
+  }
+});
+
+// POST /data/users - Invite a user with a role and an initial password
+router.post('/users', requireScope('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const validationResult = userSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const input = validationResult.data;
+    if (exceedsCaller(req, ROLE_SCOPES[input.role])) {
+      return res.status(403).json(SCOPE_ESCALATION);
+    }
+
+    // Emails are unique across tenants, since sign-in is by email alone
+    if (adminUserService.getUserByEmail(input.email)) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'A user with this email already exists.',
+      });
+    }
+
+    const user = await adminUserService.createUser(requestTenant(req).id, input);
+    res.status(201).json(user);
+  } catch (error: any) {
+    logger.error('Create admin user error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to create user.',
+    });
+  }
+});
+
+// PATCH /data/users/:id - Rename, change role, reset password or disable
+router.patch('/users/:id', requireScope('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid user ID format',
+      });
+    }
+
+    const validationResult = userUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const changes = validationResult.data;
+    if (changes.role && exceedsCaller(req, ROLE_SCOPES[changes.role])) {
+      return res.status(403).json(SCOPE_ESCALATION);
+    }
+
+    const principal = requestPrincipal(req);
+    if (principal.type === 'user' && principal.id === id && (changes.role || changes.disabled)) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Users cannot change their own role or disable themselves.',
+      });
+    }
+
+    const user = await adminUserService.updateUser(id, requestTenant(req).id, changes);
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+      });
+    }
+
+    res.json(user);
+  } catch (error: any) {
+    logger.error('Update admin user error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to update user.',
+    });
+  }
+});
+
+// GET /data/api-keys - API keys of the tenant, including revoked ones
+router.get('/api-keys', requireScope('api-keys:manage'), (req: Request, res: Response) => {
+  try {
+    const apiKeys = tenantService.listApiKeys(requestTenant(req).id);
+    res.json({
+      apiKeys,
+      total: apiKeys.length,
+    });
+  } catch (error: any) {
+    logger.error('List API keys error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve API keys.',
+    });
+  }
+});
+
+// POST /data/api-keys - Create a named, scoped key. The secret is only returned here
+router.post('/api-keys', requireScope('api-keys:manage'), (req: Request, res: Response) => {
+  try {
+    const validationResult = apiKeySchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const { name, scopes } = validationResult.data;
+    if (exceedsCaller(req, scopes)) {
+      return res.status(403).json(SCOPE_ESCALATION);
+    }
+
+    const apiKey = tenantService.createApiKey(requestTenant(req).id, name, [...new Set(scopes)]);
+    res.status(201).json(apiKey);
+  } catch (error: any) {
+    logger.error('Create API key error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to create API key.',
+    });
+  }
+});
+
+// DELETE /data/api-keys/:id - Revoke a key; it stays listed with revokedAt set
+router.delete('/api-keys/:id', requireScope('api-keys:manage'), (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid API key ID format',
+      });
+    }
+
+    const apiKey = tenantService.revokeApiKey(requestTenant(req).id, id);
+    if (!apiKey) {
+      return res.status(404).json({
+        error: 'API key not found',
+      });
+    }
+
+    res.json(apiKey);
+  } catch (error: any) {
+    logger.error('Revoke API key error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to revoke API key.',
+    });
+  }
+});
+
+export default router;
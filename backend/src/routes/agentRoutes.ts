@@ -0,0 +1,289 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { conversationService } from '../services/conversationService.js';
+import { handoffService } from '../services/handoffService.js';
+import { realtimeService } from '../services/realtimeService.js';
+import { adminAuth, requireScope, requestPrincipal, requestTenant } from '../middleware/auth.js';
+import { logger } from '../services/logger.js';
+
+const router = Router();
+
+// Agent endpoints use the same credentials as the data endpoints
+router.use(adminAuth, requireScope('agent:handle'));
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const agentSchema = z.object({
+  agentName: z.string().trim().min(1).max(100).optional(),
+});
+
+const agentMessageSchema = agentSchema.extend({
+  message: z.string().trim().min(1).max(2000),
+});
+
+const agentTypingSchema = agentSchema.extend({
+  active: z.boolean().default(true),
+});
+
+/**
+ * Signed-in users act under their own name; API keys have to say which agent
+ * they act for
+ */
+function resolveAgentName(req: Request, agentName: string | undefined): string | null {
+  const principal = requestPrincipal(req);
+  return principal.type === 'user' ? principal.name : agentName ?? null;
+}
+
+const AGENT_NAME_REQUIRED = {
+  error: 'Invalid request',
+  message: 'agentName is required when acting with an API key.',
+};
+
+// GET /agent/queue - Conversations waiting for (or assigned to) an agent
+router.get('/queue', (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as string | undefined) || 'awaiting_agent';
+
+    if (status !== 'awaiting_agent' && status !== 'agent_assigned') {
+      return res.status(400).json({
+        error: 'Invalid status parameter. Must be "awaiting_agent" or "agent_assigned".',
+      });
+    }
+
+    const conversations = handoffService.getQueue(requestTenant(req).id, status);
+    res.json({
+      conversations,
+      total: conversations.length,
+    });
+  } catch (error: any) {
+    logger.error('Get agent queue error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve the agent queue.',
+    });
+  }
+});
+
+// GET /agent/conversations/:id - Full transcript for the agent
+router.get('/conversations/:id', (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid conversation ID format',
+      });
+    }
+
+    const conversation = conversationService.getConversationWithMessages(id, requestTenant(req).id);
+    if (!conversation) {
+      return res.status(404).json({
+        error: 'Conversation not found',
+      });
+    }
+
+    res.json(conversation);
+  } catch (error: any) {
+    logger.error('Get agent conversation error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve conversation.',
+    });
+  }
+});
+
+// POST /agent/conversations/:id/claim - Take ownership of a waiting conversation
+router.post('/conversations/:id/claim', (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid conversation ID format',
+      });
+    }
+
+    const validationResult = agentSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const agentName = resolveAgentName(req, validationResult.data.agentName);
+    if (!agentName) {
+      return res.status(400).json(AGENT_NAME_REQUIRED);
+    }
+
+    if (!conversationService.getConversation(id, requestTenant(req).id)) {
+      return res.status(404).json({
+        error: 'Conversation not found',
+      });
+    }
+
+    if (!handoffService.claim(id, agentName)) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Conversation is not waiting for an agent.',
+      });
+    }
+
+    res.json(conversationService.getConversation(id, requestTenant(req).id));
+  } catch (error: any) {
+    logger.error('Claim conversation error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to claim conversation.',
+    });
+  }
+});
+
+// POST /agent/conversations/:id/messages - Reply to the customer as the assigned agent
+router.post('/conversations/:id/messages', (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid conversation ID format',
+      });
+    }
+
+    const validationResult = agentMessageSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const { message } = validationResult.data;
+    const agentName = resolveAgentName(req, validationResult.data.agentName);
+    if (!agentName) {
+      return res.status(400).json(AGENT_NAME_REQUIRED);
+    }
+
+    const conversation = conversationService.getConversation(id, requestTenant(req).id);
+    if (!conversation) {
+      return res.status(404).json({
+        error: 'Conversation not found',
+      });
+    }
+
+    if (conversation.status !== 'agent_assigned' || conversation.assignedAgent !== agentName) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Conversation must be claimed by this agent before replying.',
+      });
+    }
+
+    const saved = conversationService.addMessage(id, 'agent', message);
+    res.status(201).json(saved);
+  } catch (error: any) {
+    logger.error('Agent message error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to send agent message.',
+    });
+  }
+});
+
+// POST /agent/conversations/:id/typing - Show the customer that the assigned agent is typing
+router.post('/conversations/:id/typing', (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid conversation ID format',
+      });
+    }
+
+    const validationResult = agentTypingSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const { active } = validationResult.data;
+    const agentName = resolveAgentName(req, validationResult.data.agentName);
+    if (!agentName) {
+      return res.status(400).json(AGENT_NAME_REQUIRED);
+    }
+
+    const conversation = conversationService.getConversation(id, requestTenant(req).id);
+    if (!conversation) {
+      return res.status(404).json({
+        error: 'Conversation not found',
+      });
+    }
+
+    if (conversation.status !== 'agent_assigned' || conversation.assignedAgent !== agentName) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Conversation must be claimed by this agent before typing.',
+      });
+    }
+
+    realtimeService.publish(id, { type: 'typing', sender: 'agent', active });
+    res.status(204).end();
+  } catch (error: any) {
+    logger.error('Agent typing error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to send the typing indicator.',
+    });
+  }
+});
+
+// POST /agent/conversations/:id/release - Hand the conversation back to the bot
+router.post('/conversations/:id/release', (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid conversation ID format',
+      });
+    }
+
+    const validationResult = agentSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const agentName = resolveAgentName(req, validationResult.data.agentName);
+    if (!agentName) {
+      return res.status(400).json(AGENT_NAME_REQUIRED);
+    }
+
+    if (!conversationService.getConversation(id, requestTenant(req).id)) {
+      return res.status(404).json({
+        error: 'Conversation not found',
+      });
+    }
+
+    if (!handoffService.release(id, agentName)) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Conversation is not assigned to this agent.',
+      });
+    }
+
+    res.json(conversationService.getConversation(id, requestTenant(req).id));
+  } catch (error: any) {
+    logger.error('Release conversation error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to release conversation.',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,100 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { adminUserService, ADMIN_SESSION_PREFIX } from '../services/adminUserService.js';
+import { ROLE_SCOPES } from '../services/accessScopes.js';
+import { tenantService } from '../services/tenantService.js';
+import { logger } from '../services/logger.js';
+
+const router = Router();
+
+const loginSchema = z.object({
+  email: z.string().trim().email().max(200),
+  password: z.string().min(1).max(200),
+});
+
+function bearerToken(req: Request): string | null {
+  const authorization = req.headers.authorization;
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+  return token.startsWith(ADMIN_SESSION_PREFIX) ? token : null;
+}
+
+// POST /auth/login - Exchange an email and password for a session token
+router.post('/login', async (req: Request, res: Response) => {
+  try {
+    const validationResult = loginSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const { email, password } = validationResult.data;
+    const session = await adminUserService.login(email, password);
+    if (!session) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Invalid email or password.',
+      });
+    }
+
+    res.json({
+      token: session.token,
+      expiresAt: session.expiresAt,
+      user: session.user,
+      scopes: ROLE_SCOPES[session.user.role],
+    });
+  } catch (error: any) {
+    logger.error('Login error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to sign in.',
+    });
+  }
+});
+
+// POST /auth/logout - End the session the bearer token belongs to
+router.post('/logout', (req: Request, res: Response) => {
+  try {
+    const token = bearerToken(req);
+    if (token) {
+      adminUserService.logout(token);
+    }
+    res.status(204).end();
+  } catch (error: any) {
+    logger.error('Logout error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to sign out.',
+    });
+  }
+});
+
+// GET /auth/me - The signed-in user, their tenant and scopes
+router.get('/me', (req: Request, res: Response) => {
+  try {
+    const token = bearerToken(req);
+    const user = token ? adminUserService.authenticateSession(token) : null;
+    const tenant = user ? tenantService.getTenant(user.tenantId) : null;
+    if (!user || !tenant) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Session is invalid or has expired.',
+      });
+    }
+
+    res.json({
+      user,
+      tenant: { id: tenant.id, name: tenant.name },
+      scopes: ROLE_SCOPES[user.role],
+    });
+  } catch (error: any) {
+    logger.error('Get current user error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve the current user.',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,91 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// An OpenAI-compatible provider that answers the first call with a tool
+// call it can't parse, then rejects the retry, so the reply fails after
+// tokens were already spent
+const FIRST_CALL_USAGE = { prompt_tokens: 120, completion_tokens: 8 };
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'chat-routes-test-'));
+let providerCalls = 0;
+let provider: Server;
+let app: Server;
+let appUrl: string;
+
+function listen(server: Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  });
+}
+
+before(async () => {
+  provider = createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      providerCalls++;
+      res.setHeader('Content-Type', 'application/json');
+      if (providerCalls === 1) {
+        res.end(JSON.stringify({ choices: [{ message: { content: 'TOOL_CALL: {"name":' } }], usage: FIRST_CALL_USAGE }));
+      } else {
+        res.statusCode = 400;
+        res.end(JSON.stringify({ error: { message: 'Bad request' } }));
+      }
+    });
+  });
+
+  // The database and LLM service read the environment when first imported
+  process.env.DATABASE_PATH = path.join(dataDir, 'chatbot.db');
+  process.env.LLM_PROVIDER = 'openai';
+  process.env.OPENAI_BASE_URL = await listen(provider);
+  process.env.LLM_MODEL = 'test-model';
+  process.env.LLM_MAX_RETRIES = '0';
+
+  const { runMigrations } = await import('../db/migrator.js');
+  runMigrations();
+
+  const { default: express } = await import('express');
+  const { default: chatRoutes } = await import('./chatRoutes.js');
+  const server = express();
+  server.use(express.json());
+  server.use('/chat', chatRoutes);
+  app = createServer(server);
+  appUrl = await listen(app);
+});
+
+after(async () => {
+  await new Promise((resolve) => app.close(resolve));
+  await new Promise((resolve) => provider.close(resolve));
+  const { dbInstance } = await import('../db/database.js');
+  dbInstance.close();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('a failed non-streaming reply records the tokens spent before it failed', async () => {
+  const { tenantService } = await import('../services/tenantService.js');
+  const { dbInstance } = await import('../db/database.js');
+  const [tenant] = tenantService.listTenants();
+
+  const response = await fetch(`${appUrl}/chat/message`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Widget-Key': tenant.widgetKey },
+    body: JSON.stringify({ message: 'Can you check something for me?' }),
+  });
+  assert.equal(response.status, 200);
+  const { sessionId } = (await response.json()) as { sessionId: string };
+  assert.equal(providerCalls, 2);
+
+  const reply = dbInstance
+    .prepare("SELECT id, failure FROM messages WHERE conversationId = ? AND sender = 'ai'")
+    .get(sessionId) as { id: string; failure: string | null };
+  assert.ok(reply.failure, 'the reply is stored as a failed turn');
+
+  const usage = dbInstance
+    .prepare('SELECT messageId, purpose, inputTokens, outputTokens FROM llm_usage WHERE conversationId = ?')
+    .all(sessionId);
+  assert.deepEqual(usage, [{ messageId: reply.id, purpose: 'reply', inputTokens: 120, outputTokens: 8 }]);
+});
@@ -1,16 +1,144 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { conversationService } from '../services/conversationService.js';
-import { llmService } from '../services/llmService.js';
+import { conversationService, type ConversationData, type MessageMetadata } from '../services/conversationService.js';
+import { llmService, describeFailure, type GeneratedReply, type ReplyStream } from '../services/llmService.js';
+import { summaryService } from '../services/summaryService.js';
+import { usageService } from '../services/usageService.js';
+import { responseCacheService, type CacheLookup } from '../services/responseCacheService.js';
+import { handoffService, CUSTOMER_ESCALATION_REPLY } from '../services/handoffService.js';
+import { REQUEST_HUMAN_AGENT_TOOL } from '../services/tools/index.js';
+import { feedbackService } from '../services/feedbackService.js';
+import { piiService } from '../services/pii/index.js';
+import { moderationService, type ModerationResult, type OutputContext } from '../services/moderation/index.js';
+import type { Tenant } from '../services/tenantService.js';
+import { sessionTokenService, type SessionToken } from '../services/sessionTokenService.js';
+import { realtimeService, statusEvent, type RealtimeEvent } from '../services/realtimeService.js';
+import { widgetKeyAuth, sessionTokenAuth, requestTenant, requestSessionId } from '../middleware/auth.js';
+import { logger } from '../services/logger.js';
 
 const router = Router();
 
+// Every chat request belongs to the tenant behind the widget key
+router.use(widgetKeyAuth);
+
 const messageSchema = z.object({
   message: z.string().min(1).max(2000),
-  sessionId: z.string().uuid().optional(),
+  // Set by sites embedding the widget through identify()
+  customer: z
+    .object({
+      id: z.string().trim().min(1).max(200).optional(),
+      name: z.string().trim().min(1).max(200).optional(),
+      email: z.string().trim().email().max(320).optional(),
+    })
+    .optional(),
+});
+
+const escalateSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+const feedbackSchema = z.object({
+  messageId: z.string().uuid(),
+  rating: z.enum(['up', 'down']),
+  comment: z.string().trim().max(1000).optional(),
+});
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// How long clients wait before reconnecting a dropped event stream
+const EVENTS_RETRY_MS = 3000;
+
+const ratingSchema = z.object({
+  score: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(1000).optional(),
 });
 
-router.post('/message', async (req: Request, res: Response) => {
+function sendSessionToken(res: Response, session: SessionToken) {
+  res.setHeader('X-Session-Token', session.token);
+  res.setHeader('X-Session-Expires', session.expiresAt);
+}
+
+/**
+ * The conversation the customer's session token grants, or a new one whose
+ * token goes back in the `X-Session-Token` response header
+ */
+function resolveConversation(req: Request, res: Response): ConversationData {
+  const tenant = requestTenant(req);
+  const existing = req.sessionId ? conversationService.getConversation(req.sessionId, tenant.id) : null;
+  if (existing) {
+    return existing;
+  }
+
+  const conversation = conversationService.createConversation(tenant.id);
+  sendSessionToken(res, sessionTokenService.issue(conversation.id));
+  return conversation;
+}
+
+/**
+ * Run input moderation on a customer message, with their earlier messages
+ * as context for repeat detection
+ */
+function moderateCustomerMessage(tenant: Tenant, conversationId: string, text: string): ModerationResult {
+  const previousMessages = conversationService
+    .getMessages(conversationId)
+    .filter((msg) => msg.sender === 'user')
+    .map((msg) => msg.text);
+  return moderationService.moderateInput(text, { store: tenant, previousMessages });
+}
+
+function createReplyContext(tenant: Tenant, metadata: MessageMetadata): OutputContext {
+  return moderationService.createOutputContext(metadata, tenant, llmService.confidentialPromptText(tenant));
+}
+
+/**
+ * A finished reply in the shape of a stream, sent as a single token
+ */
+function toReplyStream(reply: GeneratedReply): ReplyStream {
+  return {
+    chunks: (async function* () {
+      yield reply.text;
+    })(),
+    sources: reply.sources,
+    toolCalls: reply.toolCalls,
+    usage: () => reply.usage,
+  };
+}
+
+/**
+ * Show the bot as typing in the customer's open widgets until the response
+ * is finished, however it ends
+ */
+function showBotTyping(res: Response, conversationId: string) {
+  realtimeService.publish(conversationId, { type: 'typing', sender: 'ai', active: true });
+  res.once('close', () => {
+    realtimeService.publish(conversationId, { type: 'typing', sender: 'ai', active: false });
+  });
+}
+
+function wantsEventStream(req: Request): boolean {
+  return (req.headers.accept || '').includes('text/event-stream');
+}
+
+/**
+ * Queue the conversation for a human if the bot called the handoff tool
+ * while producing its reply.
+ */
+function applyBotEscalation(conversationId: string, metadata: MessageMetadata) {
+  const escalation = metadata.toolCalls?.find(
+    (call) => call.name === REQUEST_HUMAN_AGENT_TOOL && call.status === 'success'
+  );
+  if (escalation) {
+    const reason = (escalation.arguments as { reason?: string }).reason || 'Requested by the assistant';
+    handoffService.requestAgent(conversationId, reason);
+  }
+}
+
+router.post('/message', sessionTokenAuth({ optional: true }), async (req: Request, res: Response) => {
+  // Clients that accept SSE get the streaming variant on the same URL
+  if (wantsEventStream(req)) {
+    return streamMessage(req, res);
+  }
+
   try {
     // Validate input
     const validationResult = messageSchema.safeParse(req.body);
@@ -21,37 +149,87 @@ router.post('/message', async (req: Request, res: Response) => {
       });
     }
 
-    const { message, sessionId } = validationResult.data;
+    const { message, customer } = validationResult.data;
+    const tenant = requestTenant(req);
 
     // Get or create conversation
-    const conversation = conversationService.getOrCreateConversation(sessionId);
+    const conversation = resolveConversation(req, res);
+    if (customer) {
+      conversationService.identifyCustomer(conversation.id, customer);
+    }
 
-    // Save user message
-    conversationService.addMessage(conversation.id, 'user', message);
+    // Moderate and save user message
+    const input = moderateCustomerMessage(tenant, conversation.id, message);
+    const userMessage = conversationService.addMessage(conversation.id, 'user', input.text, { moderation: input.verdict });
 
-    // Get conversation history for context
-    const history = conversationService.getMessages(conversation.id);
+    // While a human agent is handling the conversation, the bot stays quiet
+    if (handoffService.isHandedOff(conversation)) {
+      return res.json({
+        reply: null,
+        sessionId: conversation.id,
+        status: conversation.status,
+      });
+    }
+
+    // Blocked messages never reach the LLM
+    if (input.blockReply) {
+      conversationService.addMessage(conversation.id, 'ai', input.blockReply);
+      return res.json({
+        reply: input.blockReply,
+        sessionId: conversation.id,
+        status: conversation.status,
+      });
+    }
+
+    showBotTyping(res, conversation.id);
+
+    // Get the conversation summary and recent history for context
+    const context = summaryService.getContext(conversation.id, userMessage.id);
 
-    // Generate AI reply
+    // Generate AI reply, with customer PII masked in the prompt, and
+    // moderate it before it is saved. Repeated questions are answered from
+    // the response cache. Once the daily spend cap is reached the reply
+    // comes from the knowledge base alone, and so it does when no provider
+    // could answer, saved as a failed turn
     let aiReply: string;
+    let metadata: MessageMetadata = {};
+    let cache: CacheLookup | null = null;
     try {
-      aiReply = await llmService.generateReply(message, history);
+      const redactor = piiService.createRedactor(conversation.id);
+      cache = responseCacheService.lookup(tenant, input.text, context);
+      const degraded = !cache?.reply && usageService.getSpendCapStatus(tenant).degraded;
+      const reply = cache?.reply
+        ?? (degraded
+          ? llmService.degradedReply(input.text, context, tenant)
+          : await llmService.generateReply(input.text, context, tenant, redactor));
+      const { text, ...replyMetadata } = reply;
+      const output = moderationService.moderateOutput(text, createReplyContext(tenant, replyMetadata));
+      aiReply = output.text;
+      metadata = { ...replyMetadata, moderation: output.verdict, cache: cache?.result };
+      // Only replies no moderation rule touched are reused
+      if (cache && !degraded && output.verdict.action === 'allow') {
+        responseCacheService.store(tenant.id, cache, context, reply);
+      }
     } catch (error: any) {
-      console.error('LLM Error:', error);
-      // Return a friendly error message to the user
-      aiReply = "I apologize, but I'm experiencing technical difficulties right now. Please try again in a moment, or contact our support team at support@spurstore.com for immediate assistance.";
+      logger.error('LLM Error', { error });
+      const { text, ...replyMetadata } = llmService.failedReply(input.text, context, tenant, error);
+      aiReply = text;
+      metadata = { ...replyMetadata, cache: cache?.result };
     }
 
-    // Save AI reply
-    conversationService.addMessage(conversation.id, 'ai', aiReply);
+    // Save AI reply along with the knowledge base snippets and tool calls it used
+    conversationService.addMessage(conversation.id, 'ai', aiReply, metadata);
+    applyBotEscalation(conversation.id, metadata);
+    summaryService.summarizeInBackground(conversation.id);
 
     // Return response
     res.json({
       reply: aiReply,
       sessionId: conversation.id,
+      status: conversationService.getConversation(conversation.id)?.status ?? conversation.status,
     });
   } catch (error: any) {
-    console.error('Chat route error:', error);
+    logger.error('Chat route error', { error });
     res.status(500).json({
       error: 'Internal server error',
       message: 'An unexpected error occurred. Please try again later.',
@@ -59,33 +237,374 @@ router.post('/message', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/history/:sessionId', async (req: Request, res: Response) => {
+router.post('/message/stream', sessionTokenAuth({ optional: true }), (req: Request, res: Response) => streamMessage(req, res));
+
+/**
+ * Stream the AI reply as Server-Sent Events:
+ * - `token`: `{ text }` for each chunk as it arrives
+ * - `done`: `{ messageId, sessionId, reply, status }` once the reply is persisted
+ *   (`messageId` and `reply` are null while a human agent owns the conversation).
+ *   `reply` is the saved text, which differs from the streamed tokens when
+ *   moderation rewrote or blocked the reply; a blocked reply stops streaming.
+ * - `error`: `{ error, message }` if the request fails before streaming starts
+ *
+ * If the client disconnects partway, whatever was received so far is still
+ * saved so the conversation history stays consistent. If the LLM fails
+ * before any text, the reply comes from the knowledge base or is an
+ * apology; if it fails partway, the text so far is kept. Either way the
+ * message is saved as a failed turn. Replies from the response cache or
+ * the knowledge base arrive as a single `token`.
+ */
+async function streamMessage(req: Request, res: Response) {
+  const validationResult = messageSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      details: validationResult.error.errors,
+    });
+  }
+
+  const { message, customer } = validationResult.data;
+  const tenant = requestTenant(req);
+  const abortController = new AbortController();
+
+  const writeEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    const conversation = resolveConversation(req, res);
+    if (customer) {
+      conversationService.identifyCustomer(conversation.id, customer);
+    }
+    const input = moderateCustomerMessage(tenant, conversation.id, message);
+    const userMessage = conversationService.addMessage(conversation.id, 'user', input.text, { moderation: input.verdict });
+    const context = summaryService.getContext(conversation.id, userMessage.id);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    // While a human agent is handling the conversation, the bot stays quiet
+    if (handoffService.isHandedOff(conversation)) {
+      writeEvent('done', {
+        messageId: null,
+        sessionId: conversation.id,
+        reply: null,
+        status: conversation.status,
+      });
+      return res.end();
+    }
+
+    // Blocked messages never reach the LLM
+    if (input.blockReply) {
+      const saved = conversationService.addMessage(conversation.id, 'ai', input.blockReply);
+      writeEvent('token', { text: input.blockReply });
+      writeEvent('done', {
+        messageId: saved.id,
+        sessionId: conversation.id,
+        reply: input.blockReply,
+        status: conversation.status,
+      });
+      return res.end();
+    }
+
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+    showBotTyping(res, conversation.id);
+
+    let aiReply = '';
+    let metadata: MessageMetadata = {};
+    let replyContext: OutputContext | null = null;
+    let stream: ReplyStream | null = null;
+    let failure: unknown = null;
+    let cache: CacheLookup | null = null;
+    let degraded = false;
+    try {
+      const redactor = piiService.createRedactor(conversation.id);
+      cache = responseCacheService.lookup(tenant, input.text, context);
+      degraded = !cache?.reply && usageService.getSpendCapStatus(tenant).degraded;
+      if (cache?.reply) {
+        stream = toReplyStream(cache.reply);
+      } else if (degraded) {
+        stream = toReplyStream(llmService.degradedReply(input.text, context, tenant));
+      } else {
+        stream = llmService.streamReply(input.text, context, tenant, abortController.signal, redactor);
+      }
+      // toolCalls is filled in as the stream is consumed
+      metadata = { sources: stream.sources, toolCalls: stream.toolCalls, cache: cache?.result };
+      for await (const chunk of stream.chunks) {
+        if (abortController.signal.aborted) {
+          break;
+        }
+        aiReply += chunk;
+        // Tools have all run once answer text arrives
+        replyContext ??= createReplyContext(tenant, metadata);
+        // Stop before a blocked reply reaches the customer
+        if (moderationService.moderateOutput(aiReply, replyContext).blockReply) {
+          break;
+        }
+        writeEvent('token', { text: chunk });
+      }
+    } catch (error: any) {
+      logger.error('LLM Error', { error });
+      failure = error;
+    }
+    if (stream) {
+      metadata = { ...metadata, usage: stream.usage() };
+    }
+
+    aiReply = aiReply.trim();
+    if (aiReply && replyContext) {
+      const output = moderationService.moderateOutput(aiReply, replyContext);
+      aiReply = output.text;
+      metadata = { ...metadata, moderation: output.verdict };
+      if (failure) {
+        // The customer has seen the start of the reply, so it is kept
+        metadata = { ...metadata, failure: describeFailure(failure, 'partial') };
+      }
+    } else if (!aiReply && !abortController.signal.aborted) {
+      const { text, ...replyMetadata } = llmService.failedReply(
+        input.text,
+        context,
+        tenant,
+        failure ?? new Error('Empty response from LLM')
+      );
+      aiReply = text;
+      metadata = { ...replyMetadata, usage: metadata.usage, cache: cache?.result };
+      writeEvent('token', { text: aiReply });
+    }
+
+    // Only complete replies no moderation rule touched are reused
+    const complete = !failure && !abortController.signal.aborted;
+    if (cache && stream && !degraded && complete && metadata.moderation?.action === 'allow') {
+      responseCacheService.store(tenant.id, cache, context, {
+        text: aiReply,
+        sources: stream.sources,
+        toolCalls: stream.toolCalls,
+      });
+    }
+
+    // Nothing to persist if the client left before the first token, but
+    // the calls made so far still count towards the spend cap
+    if (!aiReply) {
+      if (metadata.usage) {
+        usageService.record({
+          tenantId: tenant.id,
+          conversationId: conversation.id,
+          messageId: null,
+          purpose: 'reply',
+          usage: metadata.usage,
+        });
+      }
+      return;
+    }
+
+    const saved = conversationService.addMessage(conversation.id, 'ai', aiReply, metadata);
+    applyBotEscalation(conversation.id, metadata);
+    summaryService.summarizeInBackground(conversation.id);
+
+    if (!abortController.signal.aborted) {
+      writeEvent('done', {
+        messageId: saved.id,
+        sessionId: conversation.id,
+        reply: aiReply,
+        status: conversationService.getConversation(conversation.id)?.status ?? conversation.status,
+      });
+      res.end();
+    }
+  } catch (error: any) {
+    logger.error('Chat stream route error', { error });
+    if (!res.headersSent) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: 'An unexpected error occurred. Please try again later.',
+      });
+    }
+    writeEvent('error', {
+      error: 'Internal server error',
+      message: 'An unexpected error occurred. Please try again later.',
+    });
+    res.end();
+  }
+}
+
+// POST /chat/escalate - Customer asks to talk to a human agent
+router.post('/escalate', sessionTokenAuth(), (req: Request, res: Response) => {
+  try {
+    const validationResult = escalateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const { reason } = validationResult.data;
+
+    const conversation = conversationService.getConversation(requestSessionId(req), requestTenant(req).id);
+    if (!conversation) {
+      return res.status(404).json({
+        error: 'Conversation not found',
+      });
+    }
+
+    if (!handoffService.isHandedOff(conversation)) {
+      handoffService.requestAgent(conversation.id, reason || 'Requested by the customer');
+      conversationService.addMessage(conversation.id, 'ai', CUSTOMER_ESCALATION_REPLY);
+    }
+
+    const updated = conversationService.getConversation(conversation.id)!;
+    res.json({
+      sessionId: updated.id,
+      status: updated.status,
+      assignedAgent: updated.assignedAgent,
+    });
+  } catch (error: any) {
+    logger.error('Escalate route error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to request a human agent.',
+    });
+  }
+});
+
+// POST /chat/feedback - Thumbs up/down on an AI reply
+router.post('/feedback', sessionTokenAuth(), (req: Request, res: Response) => {
   try {
-    const { sessionId } = req.params;
+    const validationResult = feedbackSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const { messageId, rating, comment } = validationResult.data;
 
-    // Validate sessionId format
-    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(sessionId)) {
+    const feedback = feedbackService.rateMessage(requestSessionId(req), messageId, rating, comment);
+    if (!feedback) {
+      return res.status(404).json({
+        error: 'AI reply not found in this conversation',
+      });
+    }
+
+    res.json({
+      messageId: feedback.messageId,
+      rating: feedback.rating,
+      comment: feedback.comment,
+    });
+  } catch (error: any) {
+    logger.error('Feedback route error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to save feedback.',
+    });
+  }
+});
+
+// POST /chat/rating - End-of-conversation CSAT score (1-5)
+router.post('/rating', sessionTokenAuth(), (req: Request, res: Response) => {
+  try {
+    const validationResult = ratingSchema.safeParse(req.body);
+    if (!validationResult.success) {
       return res.status(400).json({
-        error: 'Invalid session ID format',
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const { score, comment } = validationResult.data;
+
+    const rating = feedbackService.rateConversation(requestSessionId(req), score, comment);
+    if (!rating) {
+      return res.status(404).json({
+        error: 'Conversation not found',
       });
     }
 
-    const conversation = conversationService.getConversation(sessionId);
+    res.json({
+      sessionId: rating.conversationId,
+      score: rating.score,
+      comment: rating.comment,
+    });
+  } catch (error: any) {
+    logger.error('Rating route error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to save rating.',
+    });
+  }
+});
+
+// POST /chat/session/refresh - Swap the session token for a new one, e.g.
+// when the widget loads; the old token stops working
+router.post('/session/refresh', sessionTokenAuth(), (req: Request, res: Response) => {
+  try {
+    const sessionId = requestSessionId(req);
+    const session = sessionTokenService.issue(sessionId);
+    sendSessionToken(res, session);
+    res.json({
+      sessionId,
+      expiresAt: session.expiresAt,
+    });
+  } catch (error: any) {
+    logger.error('Session refresh route error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to refresh the session.',
+    });
+  }
+});
+
+// DELETE /chat/session - Customer starts over; their token stops working
+router.delete('/session', sessionTokenAuth(), (req: Request, res: Response) => {
+  try {
+    sessionTokenService.revoke(requestSessionId(req));
+    res.status(204).end();
+  } catch (error: any) {
+    logger.error('Session end route error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to end the session.',
+    });
+  }
+});
+
+router.get('/history', sessionTokenAuth(), async (req: Request, res: Response) => {
+  try {
+    const sessionId = requestSessionId(req);
+
+    const conversation = conversationService.getConversation(sessionId, requestTenant(req).id);
     if (!conversation) {
       return res.status(404).json({
         error: 'Conversation not found',
       });
     }
 
-    const messages = conversationService.getMessages(sessionId);
+    // Include the customer's own ratings so the widget can show them again
+    const ratings = feedbackService.getMessageRatings(sessionId);
+    const messages = conversationService.getMessages(sessionId).map((message) =>
+      ratings.has(message.id) ? { ...message, feedback: ratings.get(message.id) } : message
+    );
 
     res.json({
       sessionId: conversation.id,
       createdAt: conversation.createdAt,
+      status: conversation.status,
+      assignedAgent: conversation.assignedAgent,
+      csatScore: feedbackService.getConversationRating(sessionId)?.score ?? null,
       messages,
     });
   } catch (error: any) {
-    console.error('History route error:', error);
+    logger.error('History route error', { error });
     res.status(500).json({
       error: 'Internal server error',
       message: 'Failed to retrieve conversation history.',
@@ -93,5 +612,102 @@ router.get('/history/:sessionId', async (req: Request, res: Response) => {
   }
 });
 
+// GET /chat/events - Live conversation activity for the widget (Server-Sent Events)
+router.get('/events', sessionTokenAuth(), (req: Request, res: Response) => {
+  try {
+    const tenant = requestTenant(req);
+    const sessionId = requestSessionId(req);
+
+    const conversation = conversationService.getConversation(sessionId, tenant.id);
+    if (!conversation) {
+      return res.status(404).json({
+        error: 'Conversation not found',
+      });
+    }
+
+    const lastEventId = req.get('Last-Event-ID');
+    if (lastEventId !== undefined && !UUID_PATTERN.test(lastEventId)) {
+      return res.status(400).json({
+        error: 'Invalid Last-Event-ID header. Must be a message ID.',
+      });
+    }
+
+    streamEvents(req, res, conversation, lastEventId);
+  } catch (error: any) {
+    logger.error('Events route error', { error });
+    if (!res.headersSent) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to open the event stream.',
+      });
+    }
+    res.end();
+  }
+});
+
+/**
+ * Push the conversation's activity as Server-Sent Events until the client
+ * disconnects:
+ * - `conversation.status`: `{ status, assignedAgent }`, first and on every change
+ * - `message.created`: `{ message }` for every saved message (customer, bot
+ *   or agent), with the message id as the event id
+ * - `typing`: `{ sender, active }` while the bot writes a reply or the
+ *   assigned agent types
+ *
+ * A client reconnecting with `Last-Event-ID` first gets the messages saved
+ * after that one; an id the conversation doesn't have replays them all. The
+ * stream closes at the next heartbeat once the session token is revoked or
+ * expired, so a reconnect with the old token gets a 401.
+ */
+function streamEvents(req: Request, res: Response, conversation: ConversationData, lastEventId: string | undefined) {
+  const writeEvent = (event: RealtimeEvent) => {
+    const { type, ...data } = event;
+    const id = event.type === 'message.created' ? `id: ${event.message.id}\n` : '';
+    res.write(`${id}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Nothing is published between subscribing and the replay below, which
+  // run in the same tick, so no message is missed or sent twice
+  const unsubscribe = realtimeService.subscribe(conversation.id, writeEvent);
+  if (!unsubscribe) {
+    return res.status(429).json({
+      error: 'Too many connections',
+      message: 'This conversation already has the maximum number of open event streams.',
+    });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: ${EVENTS_RETRY_MS}\n\n`);
+
+  writeEvent(statusEvent(conversation));
+  if (lastEventId) {
+    const missed =
+      conversationService.getMessagesAfter(conversation.id, lastEventId) ??
+      conversationService.getMessages(conversation.id);
+    for (const message of missed) {
+      writeEvent({ type: 'message.created', message });
+    }
+  }
+
+  const token = req.headers['x-session-token'] as string;
+  const heartbeat = setInterval(() => {
+    if (sessionTokenService.verify(token, conversation.tenantId) !== conversation.id) {
+      res.end();
+      return;
+    }
+    res.write(': ping\n\n');
+  }, realtimeService.options.heartbeatMs);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
+
 export default router;
 
@@ -1,14 +1,130 @@
 import { Router, Request, Response } from 'express';
-import { conversationService } from '../services/conversationService.js';
-import { apiKeyAuth } from '../middleware/auth.js';
+import { z } from 'zod';
+import { conversationService, DEFAULT_SATISFACTION_DAYS } from '../services/conversationService.js';
+import { searchService, decodeCursor } from '../services/searchService.js';
+import { feedbackService } from '../services/feedbackService.js';
+import {
+  exportService,
+  getExportFormatter,
+  isExportFormat,
+  EXPORT_FORMATS,
+  type ExportFilter,
+  type ExportFormat,
+} from '../services/exportService.js';
+import { piiService } from '../services/pii/index.js';
+import { tenantService } from '../services/tenantService.js';
+import { usageService } from '../services/usageService.js';
+import { responseCacheService } from '../services/responseCacheService.js';
+import { MODERATION_ACTIONS, isModerationAction } from '../services/moderation/index.js';
+import { adminAuth, requireScope, requestPrincipal, requestTenant } from '../middleware/auth.js';
+import knowledgeBaseRoutes from './knowledgeBaseRoutes.js';
+import accessRoutes from './accessRoutes.js';
+import webhookRoutes from './webhookRoutes.js';
+import privacyRoutes from './privacyRoutes.js';
+import { logger } from '../services/logger.js';
 
 const router = Router();
 
-// Apply API key authentication to all data routes
-router.use(apiKeyAuth);
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const revealSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Origins are compared with the browser's Origin header, so no path or trailing slash
+const originSchema = z.string().regex(/^https?:\/\/[^/\s]+$/, 'Must be an origin such as https://shop.example.com');
+
+const tenantUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    persona: z.string().trim().min(1).max(2000),
+    policy: z.string().trim().max(10000),
+    supportEmail: z.string().trim().email(),
+    supportPhone: z.string().trim().min(1).max(50).nullable(),
+    supportHours: z.string().trim().min(1).max(200).nullable(),
+    allowedOrigins: z.array(originSchema).max(20),
+    dailySpendCapUsd: z.number().nonnegative().max(1_000_000).nullable(),
+    retentionDeleteAfterDays: z.number().int().min(1).max(3650).nullable(),
+    retentionAnonymizeAfterDays: z.number().int().min(1).max(3650).nullable(),
+  })
+  .partial()
+  .refine((changes) => Object.keys(changes).length > 0, { message: 'At least one field must be provided' });
+
+/**
+ * Parse a `from`/`to` query value into an ISO timestamp. A bare date used
+ * as an upper bound covers that whole day.
+ */
+function parseDateParam(value: string, isUpperBound: boolean): string | null {
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    return null;
+  }
+  const dayMs = 24 * 60 * 60 * 1000;
+  return new Date(isUpperBound && DATE_ONLY_PATTERN.test(value) ? time + dayMs : time).toISOString();
+}
+
+// Every data route needs an admin session or API key; each route then
+// declares the scope it requires
+router.use(adminAuth);
+
+// Knowledge base management (/data/knowledge-base/*)
+router.use('/knowledge-base', knowledgeBaseRoutes);
+
+// Admin users and API keys (/data/users, /data/api-keys)
+router.use(accessRoutes);
+
+// Webhook subscriptions and deliveries (/data/webhooks/*)
+router.use('/webhooks', webhookRoutes);
+
+// Data subject requests, retention and the privacy audit log (/data/privacy/*)
+router.use('/privacy', privacyRoutes);
+
+/**
+ * Stream an export as a file download. Rows are written as they are read,
+ * pausing whenever the client falls behind.
+ */
+async function sendExport(res: Response, filter: ExportFilter, format: ExportFormat, filename: string) {
+  const { contentType, extension } = getExportFormatter(format);
+  res.writeHead(200, {
+    'Content-Type': contentType,
+    'Content-Disposition': `attachment; filename="${filename}.${extension}"`,
+    'Cache-Control': 'no-store',
+  });
+
+  try {
+    await exportService.exportConversations(filter, format, {
+      write: (chunk) => res.write(chunk),
+      drain: () =>
+        new Promise<void>((resolve) => {
+          const done = () => {
+            res.off('drain', done);
+            res.off('close', done);
+            resolve();
+          };
+          res.on('drain', done);
+          res.on('close', done);
+        }),
+      get closed() {
+        return res.destroyed;
+      },
+    });
+    res.end();
+  } catch (error: any) {
+    logger.error('Export error', { error });
+    // Headers are already sent, so cut the response short rather than
+    // letting a truncated file look complete
+    res.destroy(error);
+  }
+}
+
+function parseExportFormat(req: Request): ExportFormat | null {
+  const format = (req.query.format as string | undefined) ?? 'jsonl';
+  const normalized = format === 'md' ? 'markdown' : format;
+  return isExportFormat(normalized) ? normalized : null;
+}
 
 // GET /data/conversations - List all conversations with pagination
-router.get('/conversations', (req: Request, res: Response) => {
+router.get('/conversations', requireScope('conversations:read'), (req: Request, res: Response) => {
   try {
     const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
     const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined;
@@ -26,8 +142,9 @@ router.get('/conversations', (req: Request, res: Response) => {
       });
     }
 
-    const conversations = conversationService.getAllConversations(limit, offset);
-    const total = conversationService.getConversationCount();
+    const tenantId = requestTenant(req).id;
+    const conversations = conversationService.getAllConversations(tenantId, limit, offset);
+    const total = conversationService.getConversationCount(tenantId);
 
     res.json({
       conversations,
@@ -41,7 +158,7 @@ router.get('/conversations', (req: Request, res: Response) => {
       },
     });
   } catch (error: any) {
-    console.error('Get conversations error:', error);
+    logger.error('Get conversations error', { error });
     res.status(500).json({
       error: 'Internal server error',
       message: 'Failed to retrieve conversations.',
@@ -50,7 +167,7 @@ router.get('/conversations', (req: Request, res: Response) => {
 });
 
 // GET /data/conversations/:id - Get a specific conversation with all messages
-router.get('/conversations/:id', (req: Request, res: Response) => {
+router.get('/conversations/:id', requireScope('conversations:read'), (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
@@ -61,7 +178,7 @@ router.get('/conversations/:id', (req: Request, res: Response) => {
       });
     }
 
-    const conversation = conversationService.getConversationWithMessages(id);
+    const conversation = conversationService.getConversationWithMessages(id, requestTenant(req).id);
     
     if (!conversation) {
       return res.status(404).json({
@@ -71,7 +188,7 @@ router.get('/conversations/:id', (req: Request, res: Response) => {
 
     res.json(conversation);
   } catch (error: any) {
-    console.error('Get conversation error:', error);
+    logger.error('Get conversation error', { error });
     res.status(500).json({
       error: 'Internal server error',
       message: 'Failed to retrieve conversation.',
@@ -79,12 +196,81 @@ router.get('/conversations/:id', (req: Request, res: Response) => {
   }
 });
 
+// GET /data/conversations/:id/export - Download one conversation
+router.get('/conversations/:id/export', requireScope('conversations:export'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid conversation ID format',
+      });
+    }
+
+    const format = parseExportFormat(req);
+    if (!format) {
+      return res.status(400).json({
+        error: `Invalid format parameter. Must be one of: ${EXPORT_FORMATS.join(', ')}.`,
+      });
+    }
+
+    const tenantId = requestTenant(req).id;
+    if (!conversationService.getConversation(id, tenantId)) {
+      return res.status(404).json({
+        error: 'Conversation not found',
+      });
+    }
+
+    await sendExport(res, { tenantId, conversationId: id }, format, `conversation-${id}`);
+  } catch (error: any) {
+    logger.error('Export conversation error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to export conversation.',
+    });
+  }
+});
+
+// GET /data/export - Download every conversation started in a date range
+router.get('/export', requireScope('conversations:export'), async (req: Request, res: Response) => {
+  try {
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+
+    const format = parseExportFormat(req);
+    if (!format) {
+      return res.status(400).json({
+        error: `Invalid format parameter. Must be one of: ${EXPORT_FORMATS.join(', ')}.`,
+      });
+    }
+
+    const fromTimestamp = from !== undefined ? parseDateParam(from, false) : undefined;
+    const toTimestamp = to !== undefined ? parseDateParam(to, true) : undefined;
+    if (fromTimestamp === null || toTimestamp === null) {
+      return res.status(400).json({
+        error: 'Invalid from/to parameter. Use an ISO 8601 date or timestamp.',
+      });
+    }
+
+    const filename = `transcripts-${new Date().toISOString().slice(0, 10)}`;
+    await sendExport(res, { tenantId: requestTenant(req).id, from: fromTimestamp, to: toTimestamp }, format, filename);
+  } catch (error: any) {
+    logger.error('Export transcripts error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to export transcripts.',
+    });
+  }
+});
+
 // GET /data/messages - List all messages with optional filters
-router.get('/messages', (req: Request, res: Response) => {
+router.get('/messages', requireScope('conversations:read'), (req: Request, res: Response) => {
   try {
     const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
     const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined;
     const conversationId = req.query.conversationId as string | undefined;
+    const moderation = req.query.moderation as string | undefined;
+    const failed = req.query.failed as string | undefined;
 
     // Validate pagination parameters
     if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 100)) {
@@ -106,7 +292,26 @@ router.get('/messages', (req: Request, res: Response) => {
       });
     }
 
-    const messages = conversationService.getAllMessages(limit, offset, conversationId);
+    if (moderation !== undefined && !isModerationAction(moderation)) {
+      return res.status(400).json({
+        error: `Invalid moderation parameter. Must be one of: ${MODERATION_ACTIONS.join(', ')}.`,
+      });
+    }
+
+    if (failed !== undefined && failed !== 'true' && failed !== 'false') {
+      return res.status(400).json({
+        error: 'Invalid failed parameter. Must be true or false.',
+      });
+    }
+
+    const messages = conversationService.getAllMessages(
+      requestTenant(req).id,
+      limit,
+      offset,
+      conversationId,
+      moderation,
+      failed !== undefined ? failed === 'true' : undefined
+    );
 
     res.json({
       messages,
@@ -116,10 +321,12 @@ router.get('/messages', (req: Request, res: Response) => {
       },
       filters: {
         conversationId: conversationId || null,
+        moderation: moderation || null,
+        failed: failed !== undefined ? failed === 'true' : null,
       },
     });
   } catch (error: any) {
-    console.error('Get messages error:', error);
+    logger.error('Get messages error', { error });
     res.status(500).json({
       error: 'Internal server error',
       message: 'Failed to retrieve messages.',
@@ -127,16 +334,442 @@ router.get('/messages', (req: Request, res: Response) => {
   }
 });
 
+// GET /data/tool-invocations - Audit the tools the bot invoked
+router.get('/tool-invocations', requireScope('conversations:read'), (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined;
+    const conversationId = req.query.conversationId as string | undefined;
+    const name = req.query.name as string | undefined;
+    const status = req.query.status as string | undefined;
+
+    // Validate pagination parameters
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 100)) {
+      return res.status(400).json({
+        error: 'Invalid limit parameter. Must be between 1 and 100.',
+      });
+    }
+
+    if (offset !== undefined && (isNaN(offset) || offset < 0)) {
+      return res.status(400).json({
+        error: 'Invalid offset parameter. Must be >= 0.',
+      });
+    }
+
+    // Validate conversationId format if provided
+    if (conversationId && !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(conversationId)) {
+      return res.status(400).json({
+        error: 'Invalid conversation ID format',
+      });
+    }
+
+    if (status !== undefined && status !== 'success' && status !== 'error') {
+      return res.status(400).json({
+        error: 'Invalid status parameter. Must be "success" or "error".',
+      });
+    }
+
+    const invocations = conversationService.getToolInvocations({
+      tenantId: requestTenant(req).id,
+      conversationId,
+      name,
+      status,
+      limit,
+      offset,
+    });
+
+    res.json({
+      invocations,
+      pagination: {
+        limit: limit || invocations.length,
+        offset: offset || 0,
+      },
+      filters: {
+        conversationId: conversationId || null,
+        name: name || null,
+        status: status || null,
+      },
+    });
+  } catch (error: any) {
+    logger.error('Get tool invocations error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve tool invocations.',
+    });
+  }
+});
+
+// POST /data/messages/:id/reveal - Original values behind a message's PII placeholders (audited)
+router.post('/messages/:id/reveal', requireScope('pii:reveal'), (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid message ID format',
+      });
+    }
+
+    const validationResult = revealSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const principal = requestPrincipal(req);
+    const revealed = piiService.reveal(id, requestTenant(req).id, {
+      reason: validationResult.data.reason,
+      ip: req.ip,
+      userAgent: req.get('user-agent'),
+      revealedBy: `${principal.type}:${principal.id}`,
+    });
+    if (!revealed) {
+      return res.status(404).json({
+        error: 'Message not found',
+      });
+    }
+
+    res.json(revealed);
+  } catch (error: any) {
+    logger.error('Reveal PII error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to reveal message.',
+    });
+  }
+});
+
+// GET /data/pii/reveals - Audit log of PII reveals
+router.get('/pii/reveals', requireScope('pii:reveal'), (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined;
+    const conversationId = req.query.conversationId as string | undefined;
+
+    // Validate pagination parameters
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 100)) {
+      return res.status(400).json({
+        error: 'Invalid limit parameter. Must be between 1 and 100.',
+      });
+    }
+
+    if (offset !== undefined && (isNaN(offset) || offset < 0)) {
+      return res.status(400).json({
+        error: 'Invalid offset parameter. Must be >= 0.',
+      });
+    }
+
+    // Validate conversationId format if provided
+    if (conversationId && !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(conversationId)) {
+      return res.status(400).json({
+        error: 'Invalid conversation ID format',
+      });
+    }
+
+    const tenantId = requestTenant(req).id;
+    const reveals = piiService.getRevealLog({ tenantId, conversationId, limit: limit ?? 50, offset });
+    const total = piiService.getRevealCount(tenantId, conversationId);
+
+    res.json({
+      reveals,
+      pagination: {
+        total,
+        limit: limit || 50,
+        offset: offset || 0,
+        hasMore: (offset || 0) + reveals.length < total,
+      },
+      filters: {
+        conversationId: conversationId || null,
+      },
+    });
+  } catch (error: any) {
+    logger.error('Get PII reveals error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve reveal log.',
+    });
+  }
+});
+
+// GET /data/search - Full-text search across transcripts, grouped by conversation
+router.get('/search', requireScope('conversations:read'), (req: Request, res: Response) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const sender = req.query.sender as string | undefined;
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    const cursorParam = req.query.cursor as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+
+    if (!q) {
+      return res.status(400).json({
+        error: 'Missing q parameter.',
+      });
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({
+        error: 'Invalid limit parameter. Must be between 1 and 100.',
+      });
+    }
+
+    if (sender !== undefined && sender !== 'user' && sender !== 'ai' && sender !== 'agent') {
+      return res.status(400).json({
+        error: 'Invalid sender parameter. Must be "user", "ai" or "agent".',
+      });
+    }
+
+    const fromTimestamp = from !== undefined ? parseDateParam(from, false) : undefined;
+    const toTimestamp = to !== undefined ? parseDateParam(to, true) : undefined;
+    if (fromTimestamp === null || toTimestamp === null) {
+      return res.status(400).json({
+        error: 'Invalid from/to parameter. Use an ISO 8601 date or timestamp.',
+      });
+    }
+
+    const cursor = cursorParam !== undefined ? decodeCursor(cursorParam) : undefined;
+    if (cursor === null) {
+      return res.status(400).json({
+        error: 'Invalid cursor parameter.',
+      });
+    }
+
+    const { results, nextCursor } = searchService.searchMessages({
+      tenantId: requestTenant(req).id,
+      query: q,
+      sender,
+      from: fromTimestamp,
+      to: toTimestamp,
+      limit,
+      cursor,
+    });
+
+    res.json({
+      query: q,
+      results,
+      pagination: {
+        limit,
+        nextCursor,
+        hasMore: nextCursor !== null,
+      },
+      filters: {
+        sender: sender || null,
+        from: fromTimestamp || null,
+        to: toTimestamp || null,
+      },
+    });
+  } catch (error: any) {
+    logger.error('Search messages error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to search messages.',
+    });
+  }
+});
+
+// GET /data/feedback/downvoted - Thumbs-down replies, to find knowledge base gaps
+router.get('/feedback/downvoted', requireScope('conversations:read'), (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined;
+
+    // Validate pagination parameters
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 100)) {
+      return res.status(400).json({
+        error: 'Invalid limit parameter. Must be between 1 and 100.',
+      });
+    }
+
+    if (offset !== undefined && (isNaN(offset) || offset < 0)) {
+      return res.status(400).json({
+        error: 'Invalid offset parameter. Must be >= 0.',
+      });
+    }
+
+    const tenantId = requestTenant(req).id;
+    const replies = feedbackService.getDownvotedReplies(tenantId, limit, offset);
+    const total = feedbackService.getDownvotedCount(tenantId);
+
+    res.json({
+      replies,
+      pagination: {
+        total,
+        limit: limit || 50,
+        offset: offset || 0,
+        hasMore: (offset || 0) + replies.length < total,
+      },
+    });
+  } catch (error: any) {
+    logger.error('Get downvoted replies error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve downvoted replies.',
+    });
+  }
+});
+
+// GET /data/tenant - Settings of the caller's tenant
+router.get('/tenant', requireScope('tenant:read'), (req: Request, res: Response) => {
+  try {
+    res.json(requestTenant(req));
+  } catch (error: any) {
+    logger.error('Get tenant error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve tenant settings.',
+    });
+  }
+});
+
+// PATCH /data/tenant - Update persona, policy, support contacts, allowed origins, the daily spend cap or retention rules
+router.patch('/tenant', requireScope('tenant:write'), (req: Request, res: Response) => {
+  try {
+    const validationResult = tenantUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const tenant = tenantService.updateTenant(requestTenant(req).id, validationResult.data);
+    if (!tenant) {
+      return res.status(404).json({
+        error: 'Tenant not found',
+      });
+    }
+
+    res.json(tenant);
+  } catch (error: any) {
+    logger.error('Update tenant error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to update tenant settings.',
+    });
+  }
+});
+
+// GET /data/usage - LLM tokens, latency and cost per day and per conversation, and the spend cap status
+router.get('/usage', requireScope('tenant:read'), (req: Request, res: Response) => {
+  try {
+    const days = req.query.days ? parseInt(req.query.days as string, 10) : 30;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+    const conversationId = req.query.conversationId as string | undefined;
+
+    if (isNaN(days) || days < 1 || days > 365) {
+      return res.status(400).json({
+        error: 'Invalid days parameter. Must be between 1 and 365.',
+      });
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({
+        error: 'Invalid limit parameter. Must be between 1 and 100.',
+      });
+    }
+
+    // Validate conversationId format if provided
+    if (conversationId && !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(conversationId)) {
+      return res.status(400).json({
+        error: 'Invalid conversation ID format',
+      });
+    }
+
+    const report = usageService.getReport(requestTenant(req), { days, conversationId, conversationLimit: limit });
+    res.json({
+      ...report,
+      filters: {
+        days,
+        conversationId: conversationId || null,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    logger.error('Get usage error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve usage.',
+    });
+  }
+});
+
+// GET /data/response-cache - Cached replies currently reused for repeated questions
+router.get('/response-cache', requireScope('tenant:read'), (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined;
+
+    // Validate pagination parameters
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 100)) {
+      return res.status(400).json({
+        error: 'Invalid limit parameter. Must be between 1 and 100.',
+      });
+    }
+
+    if (offset !== undefined && (isNaN(offset) || offset < 0)) {
+      return res.status(400).json({
+        error: 'Invalid offset parameter. Must be >= 0.',
+      });
+    }
+
+    const tenant = requestTenant(req);
+    const entries = responseCacheService.listEntries(tenant, limit, offset);
+    const total = responseCacheService.countEntries(tenant);
+
+    res.json({
+      entries,
+      pagination: {
+        total,
+        limit: limit || 50,
+        offset: offset || 0,
+        hasMore: (offset || 0) + entries.length < total,
+      },
+    });
+  } catch (error: any) {
+    logger.error('Get response cache error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve the response cache.',
+    });
+  }
+});
+
+// DELETE /data/response-cache - Stop reusing every cached reply, e.g. after facts outside the knowledge base changed
+router.delete('/response-cache', requireScope('tenant:write'), (req: Request, res: Response) => {
+  try {
+    const deleted = responseCacheService.clear(requestTenant(req).id);
+    res.json({ deleted });
+  } catch (error: any) {
+    logger.error('Clear response cache error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to clear the response cache.',
+    });
+  }
+});
+
 // GET /data/stats - Get database statistics
-router.get('/stats', (req: Request, res: Response) => {
+router.get('/stats', requireScope('conversations:read'), (req: Request, res: Response) => {
   try {
-    const stats = conversationService.getStats();
+    const days = req.query.days ? parseInt(req.query.days as string, 10) : undefined;
+
+    if (days !== undefined && (isNaN(days) || days < 1 || days > 365)) {
+      return res.status(400).json({
+        error: 'Invalid days parameter. Must be between 1 and 365.',
+      });
+    }
+
+    const tenant = requestTenant(req);
+    const stats = conversationService.getStats(tenant.id, days);
     res.json({
       ...stats,
+      responseCache: responseCacheService.getStats(tenant, days ?? DEFAULT_SATISFACTION_DAYS),
       timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
-    console.error('Get stats error:', error);
+    logger.error('Get stats error', { error });
     res.status(500).json({
       error: 'Internal server error',
       message: 'Failed to retrieve statistics.',
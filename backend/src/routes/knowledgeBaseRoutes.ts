@@ -0,0 +1,187 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { knowledgeBaseService } from '../services/knowledgeBaseService.js';
+import { requireScope, requestTenant } from '../middleware/auth.js';
+import { logger } from '../services/logger.js';
+
+const router = Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const articleSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  body: z.string().trim().min(1).max(10000),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  enabled: z.boolean().optional(),
+});
+
+const articleUpdateSchema = articleSchema.partial().refine(
+  (changes) => Object.keys(changes).length > 0,
+  { message: 'At least one field must be provided' }
+);
+
+// GET /data/knowledge-base/articles - List articles (optionally only enabled ones)
+router.get('/articles', requireScope('knowledge-base:read'), (req: Request, res: Response) => {
+  try {
+    const enabledOnly = req.query.enabled === 'true';
+    const articles = knowledgeBaseService.listArticles(requestTenant(req).id, !enabledOnly);
+
+    res.json({
+      articles,
+      total: articles.length,
+    });
+  } catch (error: any) {
+    logger.error('List knowledge base articles error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve knowledge base articles.',
+    });
+  }
+});
+
+// GET /data/knowledge-base/articles/:id - Get a single article
+router.get('/articles/:id', requireScope('knowledge-base:read'), (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid article ID format',
+      });
+    }
+
+    const article = knowledgeBaseService.getArticle(id, requestTenant(req).id);
+    if (!article) {
+      return res.status(404).json({
+        error: 'Article not found',
+      });
+    }
+
+    res.json(article);
+  } catch (error: any) {
+    logger.error('Get knowledge base article error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve knowledge base article.',
+    });
+  }
+});
+
+// POST /data/knowledge-base/articles - Create an article
+router.post('/articles', requireScope('knowledge-base:write'), (req: Request, res: Response) => {
+  try {
+    const validationResult = articleSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const article = knowledgeBaseService.createArticle(requestTenant(req).id, validationResult.data);
+    res.status(201).json(article);
+  } catch (error: any) {
+    logger.error('Create knowledge base article error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to create knowledge base article.',
+    });
+  }
+});
+
+// PATCH /data/knowledge-base/articles/:id - Update title, body, tags or enabled flag
+router.patch('/articles/:id', requireScope('knowledge-base:write'), (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid article ID format',
+      });
+    }
+
+    const validationResult = articleUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const article = knowledgeBaseService.updateArticle(id, requestTenant(req).id, validationResult.data);
+    if (!article) {
+      return res.status(404).json({
+        error: 'Article not found',
+      });
+    }
+
+    res.json(article);
+  } catch (error: any) {
+    logger.error('Update knowledge base article error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to update knowledge base article.',
+    });
+  }
+});
+
+// DELETE /data/knowledge-base/articles/:id - Delete an article
+router.delete('/articles/:id', requireScope('knowledge-base:write'), (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid article ID format',
+      });
+    }
+
+    if (!knowledgeBaseService.deleteArticle(id, requestTenant(req).id)) {
+      return res.status(404).json({
+        error: 'Article not found',
+      });
+    }
+
+    res.status(204).end();
+  } catch (error: any) {
+    logger.error('Delete knowledge base article error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to delete knowledge base article.',
+    });
+  }
+});
+
+// GET /data/knowledge-base/search - Preview which snippets a question would retrieve
+router.get('/search', requireScope('knowledge-base:read'), (req: Request, res: Response) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+    if (!q) {
+      return res.status(400).json({
+        error: 'Missing q parameter.',
+      });
+    }
+
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 20)) {
+      return res.status(400).json({
+        error: 'Invalid limit parameter. Must be between 1 and 20.',
+      });
+    }
+
+    const results = knowledgeBaseService.search(q, requestTenant(req).id, limit);
+    res.json({
+      query: q,
+      results,
+    });
+  } catch (error: any) {
+    logger.error('Search knowledge base error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to search knowledge base.',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,209 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  privacyService,
+  PRIVACY_AUDIT_ACTIONS,
+  type PrivacyActor,
+  type PrivacyAuditAction,
+} from '../services/privacyService.js';
+import { retentionService } from '../services/retentionService.js';
+import { requireScope, requestPrincipal, requestTenant } from '../middleware/auth.js';
+import { logger } from '../services/logger.js';
+
+const router = Router();
+
+// Identifiers go in the body rather than the query string, which ends up in access logs
+const subjectSchema = z
+  .object({
+    customerId: z.string().trim().min(1).max(200).optional(),
+    email: z.string().trim().email().max(320).optional(),
+  })
+  .strict()
+  .refine((subject) => subject.customerId !== undefined || subject.email !== undefined, {
+    message: 'Provide customerId, email or both',
+  });
+
+const retentionRunSchema = z.object({
+  dryRun: z.boolean().optional(),
+});
+
+function requestActor(req: Request): PrivacyActor {
+  const principal = requestPrincipal(req);
+  return {
+    actor: `${principal.type}:${principal.id}`,
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+  };
+}
+
+router.use(requireScope('privacy:manage'));
+
+// POST /data/privacy/lookup - Conversations linked to a customer id or email (audited)
+router.post('/lookup', (req: Request, res: Response) => {
+  try {
+    const validationResult = subjectSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const conversations = privacyService.lookupSubject(requestTenant(req).id, validationResult.data, requestActor(req));
+    res.json({
+      conversations,
+      total: conversations.length,
+    });
+  } catch (error: any) {
+    logger.error('Privacy lookup error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to look up the data subject.',
+    });
+  }
+});
+
+// POST /data/privacy/export - Download everything linked to a customer as a JSON bundle (audited)
+router.post('/export', (req: Request, res: Response) => {
+  try {
+    const validationResult = subjectSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const bundle = privacyService.exportSubject(requestTenant(req).id, validationResult.data, requestActor(req));
+    res.set({
+      'Content-Disposition': `attachment; filename="subject-export-${bundle.exportedAt.slice(0, 10)}.json"`,
+      'Cache-Control': 'no-store',
+    });
+    res.json(bundle);
+  } catch (error: any) {
+    logger.error('Privacy export error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to export the data subject.',
+    });
+  }
+});
+
+// POST /data/privacy/erase - Hard-delete every conversation linked to a customer (audited)
+router.post('/erase', (req: Request, res: Response) => {
+  try {
+    const validationResult = subjectSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const conversationIds = privacyService.eraseSubject(requestTenant(req).id, validationResult.data, requestActor(req));
+    res.json({
+      deleted: conversationIds.length,
+      conversationIds,
+    });
+  } catch (error: any) {
+    logger.error('Privacy erase error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to erase the data subject.',
+    });
+  }
+});
+
+// GET /data/privacy/retention - The tenant's retention rules and what a run would do now
+router.get('/retention', (req: Request, res: Response) => {
+  try {
+    const tenant = requestTenant(req);
+    res.json({
+      rules: retentionService.rulesFor(tenant),
+      preview: retentionService.run(tenant, { dryRun: true }),
+    });
+  } catch (error: any) {
+    logger.error('Get retention error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve retention rules.',
+    });
+  }
+});
+
+// POST /data/privacy/retention/run - Apply the retention rules now, or report what they would do
+router.post('/retention/run', (req: Request, res: Response) => {
+  try {
+    const validationResult = retentionRunSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const report = retentionService.run(requestTenant(req), {
+      dryRun: validationResult.data.dryRun ?? false,
+      actor: requestActor(req),
+    });
+    res.json(report);
+  } catch (error: any) {
+    logger.error('Run retention error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to apply retention rules.',
+    });
+  }
+});
+
+// GET /data/privacy/audit - Privacy audit log, newest first
+router.get('/audit', (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+    const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : 0;
+    const action = req.query.action as string | undefined;
+
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({
+        error: 'Invalid limit parameter. Must be between 1 and 100.',
+      });
+    }
+
+    if (isNaN(offset) || offset < 0) {
+      return res.status(400).json({
+        error: 'Invalid offset parameter. Must be 0 or greater.',
+      });
+    }
+
+    if (action !== undefined && !(PRIVACY_AUDIT_ACTIONS as readonly string[]).includes(action)) {
+      return res.status(400).json({
+        error: `Invalid action parameter. Must be one of: ${PRIVACY_AUDIT_ACTIONS.join(', ')}.`,
+      });
+    }
+
+    const filters = { tenantId: requestTenant(req).id, action: action as PrivacyAuditAction | undefined };
+    const entries = privacyService.getAuditLog({ ...filters, limit, offset });
+    const total = privacyService.getAuditCount(filters);
+
+    res.json({
+      entries,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + entries.length < total,
+      },
+      filters: {
+        action: action ?? null,
+      },
+    });
+  } catch (error: any) {
+    logger.error('Get privacy audit log error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve the privacy audit log.',
+    });
+  }
+});
+
+export default router;
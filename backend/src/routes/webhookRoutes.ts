@@ -0,0 +1,247 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { webhookService, WEBHOOK_EVENTS, DELIVERY_STATUSES, type DeliveryStatus } from '../services/webhookService.js';
+import { requireScope, requestTenant } from '../middleware/auth.js';
+import { logger } from '../services/logger.js';
+
+const router = Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const urlSchema = z
+  .string()
+  .trim()
+  .url()
+  .max(2000)
+  .superRefine((value, ctx) => {
+    // Refinements still run after .url() fails, which has reported it already
+    if (!URL.canParse(value)) {
+      return;
+    }
+    if (!/^https?:$/.test(new URL(value).protocol)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be an http or https URL' });
+    } else if (process.env.NODE_ENV === 'production' && !value.startsWith('https:')) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Webhook URLs must use https in production' });
+    } else {
+      const error = webhookService.urlError(value);
+      if (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+      }
+    }
+  });
+
+const subscriptionSchema = z.object({
+  url: urlSchema,
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  description: z.string().trim().max(200).nullable().optional(),
+});
+
+const subscriptionUpdateSchema = subscriptionSchema
+  .extend({ enabled: z.boolean() })
+  .partial()
+  .refine((changes) => Object.keys(changes).length > 0, { message: 'At least one field must be provided' });
+
+router.use(requireScope('webhooks:manage'));
+
+// GET /data/webhooks - Subscriptions of the tenant (secrets are never listed)
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const subscriptions = webhookService.listSubscriptions(requestTenant(req).id);
+    res.json({
+      subscriptions,
+      total: subscriptions.length,
+    });
+  } catch (error: any) {
+    logger.error('List webhooks error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve webhook subscriptions.',
+    });
+  }
+});
+
+// POST /data/webhooks - Subscribe a URL to events. The signing secret is only returned here
+router.post('/', (req: Request, res: Response) => {
+  try {
+    const validationResult = subscriptionSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const { url, events, description } = validationResult.data;
+    const subscription = webhookService.createSubscription(requestTenant(req).id, {
+      url,
+      events: [...new Set(events)],
+      description,
+    });
+    res.status(201).json(subscription);
+  } catch (error: any) {
+    logger.error('Create webhook error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to create webhook subscription.',
+    });
+  }
+});
+
+// GET /data/webhooks/deliveries - Delivery log, newest first
+router.get('/deliveries', (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+    const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : 0;
+    const status = req.query.status as string | undefined;
+    const subscriptionId = req.query.subscriptionId as string | undefined;
+
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({
+        error: 'Invalid limit parameter. Must be between 1 and 100.',
+      });
+    }
+
+    if (isNaN(offset) || offset < 0) {
+      return res.status(400).json({
+        error: 'Invalid offset parameter. Must be 0 or greater.',
+      });
+    }
+
+    if (status !== undefined && !(DELIVERY_STATUSES as readonly string[]).includes(status)) {
+      return res.status(400).json({
+        error: `Invalid status parameter. Must be one of: ${DELIVERY_STATUSES.join(', ')}.`,
+      });
+    }
+
+    if (subscriptionId !== undefined && !UUID_PATTERN.test(subscriptionId)) {
+      return res.status(400).json({
+        error: 'Invalid subscription ID format',
+      });
+    }
+
+    const filters = {
+      tenantId: requestTenant(req).id,
+      subscriptionId,
+      status: status as DeliveryStatus | undefined,
+    };
+    const deliveries = webhookService.listDeliveries({ ...filters, limit, offset });
+    const total = webhookService.countDeliveries(filters);
+
+    res.json({
+      deliveries,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + deliveries.length < total,
+      },
+      filters: {
+        status: status ?? null,
+        subscriptionId: subscriptionId ?? null,
+      },
+    });
+  } catch (error: any) {
+    logger.error('List webhook deliveries error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve webhook deliveries.',
+    });
+  }
+});
+
+// POST /data/webhooks/deliveries/:id/redeliver - Queue a delivery again, e.g. after it was dead-lettered
+router.post('/deliveries/:id/redeliver', (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid delivery ID format',
+      });
+    }
+
+    const delivery = webhookService.redeliver(id, requestTenant(req).id);
+    if (!delivery) {
+      return res.status(404).json({
+        error: 'Delivery not found',
+      });
+    }
+
+    res.status(202).json(delivery);
+  } catch (error: any) {
+    logger.error('Redeliver webhook error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to redeliver webhook.',
+    });
+  }
+});
+
+// PATCH /data/webhooks/:id - Change the URL, events or description, or pause the subscription
+router.patch('/:id', (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid subscription ID format',
+      });
+    }
+
+    const validationResult = subscriptionUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const changes = validationResult.data;
+    const subscription = webhookService.updateSubscription(id, requestTenant(req).id, {
+      ...changes,
+      ...(changes.events ? { events: [...new Set(changes.events)] } : {}),
+    });
+    if (!subscription) {
+      return res.status(404).json({
+        error: 'Subscription not found',
+      });
+    }
+
+    res.json(subscription);
+  } catch (error: any) {
+    logger.error('Update webhook error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to update webhook subscription.',
+    });
+  }
+});
+
+// DELETE /data/webhooks/:id - Remove a subscription and its delivery log
+router.delete('/:id', (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: 'Invalid subscription ID format',
+      });
+    }
+
+    if (!webhookService.deleteSubscription(id, requestTenant(req).id)) {
+      return res.status(404).json({
+        error: 'Subscription not found',
+      });
+    }
+
+    res.status(204).end();
+  } catch (error: any) {
+    logger.error('Delete webhook error', { error });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to delete webhook subscription.',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,42 @@
+/**
+ * Permissions checked by the `/data` and `/agent` routes. API keys are
+ * granted a list of scopes; admin users get the scopes of their role.
+ */
+export const SCOPES = [
+  // Conversations, messages, tool calls, search, feedback and stats
+  'conversations:read',
+  // Bulk transcript export
+  'conversations:export',
+  // Original values behind PII placeholders, and the reveal audit log
+  'pii:reveal',
+  'knowledge-base:read',
+  'knowledge-base:write',
+  // Agent queue: claim, reply and release conversations
+  'agent:handle',
+  'tenant:read',
+  'tenant:write',
+  'users:manage',
+  'api-keys:manage',
+  // Webhook subscriptions, the delivery log and redelivery
+  'webhooks:manage',
+  // Data subject lookups, exports and erasure, retention runs and the privacy audit log
+  'privacy:manage',
+] as const;
+
+export type Scope = (typeof SCOPES)[number];
+
+export const ROLES = ['viewer', 'agent', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+const VIEWER_SCOPES: Scope[] = ['conversations:read', 'knowledge-base:read', 'tenant:read'];
+
+export const ROLE_SCOPES: Record<Role, Scope[]> = {
+  viewer: VIEWER_SCOPES,
+  agent: [...VIEWER_SCOPES, 'agent:handle', 'pii:reveal'],
+  admin: [...SCOPES],
+};
+
+export function isScope(value: string): value is Scope {
+  return (SCOPES as readonly string[]).includes(value);
+}
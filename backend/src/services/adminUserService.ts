@@ -0,0 +1,243 @@
+import { dbInstance } from '../db/database.js';
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+import type { Role } from './accessScopes.js';
+
+/** Prefix that tells admin session tokens apart from API keys (`sk_`) */
+export const ADMIN_SESSION_PREFIX = 'as_';
+
+export const MIN_PASSWORD_LENGTH = 12;
+
+// Sessions last a working day unless ADMIN_SESSION_TTL_HOURS says otherwise
+const DEFAULT_SESSION_TTL_HOURS = 8;
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEY_LENGTH = 64;
+
+export interface AdminUser {
+  id: string;
+  tenantId: string;
+  email: string;
+  name: string;
+  role: Role;
+  createdAt: string;
+  lastLoginAt: string | null;
+  /** Disabled users can't sign in and their sessions are ended */
+  disabledAt: string | null;
+}
+
+export interface AdminUserInput {
+  email: string;
+  name: string;
+  role: Role;
+  password: string;
+}
+
+export interface AdminUserChanges {
+  name?: string;
+  role?: Role;
+  password?: string;
+  disabled?: boolean;
+}
+
+export interface AdminSession {
+  /** Bearer token; only its hash is stored */
+  token: string;
+  expiresAt: string;
+  user: AdminUser;
+}
+
+const USER_COLUMNS = 'id, tenantId, email, name, role, createdAt, lastLoginAt, disabledAt';
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * `scrypt$N$r$p$salt$hash`, salt and hash in base64
+ */
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, N, r, p, salt, hash] = stored.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'), { N: Number(N), r: Number(r), p: Number(p) });
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+// Compared against when the email is unknown, so a failed login takes as
+// long whether or not the account exists
+const dummyPasswordHash = hashPassword(randomBytes(16).toString('hex'));
+
+/**
+ * People who sign in to the admin dashboard. Each user belongs to one tenant
+ * and has a role (viewer, agent or admin) that decides their scopes.
+ * Signing in returns a bearer session token; changing a user's password,
+ * role or disabling them ends their sessions.
+ */
+export class AdminUserService {
+  constructor(private sessionTtlMs: number) {}
+
+  async createUser(tenantId: string, input: AdminUserInput): Promise<AdminUser> {
+    const user: AdminUser = {
+      id: randomUUID(),
+      tenantId,
+      email: input.email,
+      name: input.name,
+      role: input.role,
+      createdAt: new Date().toISOString(),
+      lastLoginAt: null,
+      disabledAt: null,
+    };
+    const passwordHash = await hashPassword(input.password);
+
+    dbInstance
+      .prepare(`
+        INSERT INTO admin_users (id, tenantId, email, name, passwordHash, role, createdAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(user.id, tenantId, user.email, user.name, passwordHash, user.role, user.createdAt);
+
+    return user;
+  }
+
+  /**
+   * With `tenantId`, users of other tenants are treated as missing
+   */
+  getUser(userId: string, tenantId?: string): AdminUser | null {
+    const row = (
+      tenantId !== undefined
+        ? dbInstance.prepare(`SELECT ${USER_COLUMNS} FROM admin_users WHERE id = ? AND tenantId = ?`).get(userId, tenantId)
+        : dbInstance.prepare(`SELECT ${USER_COLUMNS} FROM admin_users WHERE id = ?`).get(userId)
+    ) as AdminUser | undefined;
+
+    return row || null;
+  }
+
+  getUserByEmail(email: string): AdminUser | null {
+    const row = dbInstance
+      .prepare(`SELECT ${USER_COLUMNS} FROM admin_users WHERE email = ?`)
+      .get(email) as AdminUser | undefined;
+
+    return row || null;
+  }
+
+  listUsers(tenantId: string): AdminUser[] {
+    return dbInstance
+      .prepare(`SELECT ${USER_COLUMNS} FROM admin_users WHERE tenantId = ? ORDER BY createdAt ASC`)
+      .all(tenantId) as AdminUser[];
+  }
+
+  async updateUser(userId: string, tenantId: string, changes: AdminUserChanges): Promise<AdminUser | null> {
+    const existing = this.getUser(userId, tenantId);
+    if (!existing) {
+      return null;
+    }
+
+    const passwordHash = changes.password !== undefined ? await hashPassword(changes.password) : null;
+    const disabledAt =
+      changes.disabled === undefined
+        ? existing.disabledAt
+        : changes.disabled
+          ? existing.disabledAt ?? new Date().toISOString()
+          : null;
+
+    dbInstance.transaction(() => {
+      dbInstance
+        .prepare(`
+          UPDATE admin_users
+          SET name = ?, role = ?, disabledAt = ?, passwordHash = COALESCE(?, passwordHash)
+          WHERE id = ?
+        `)
+        .run(changes.name ?? existing.name, changes.role ?? existing.role, disabledAt, passwordHash, userId);
+
+      // Sessions carry the access the user had when they signed in
+      if (passwordHash || disabledAt || (changes.role && changes.role !== existing.role)) {
+        dbInstance.prepare('DELETE FROM admin_sessions WHERE userId = ?').run(userId);
+      }
+    })();
+
+    return this.getUser(userId, tenantId);
+  }
+
+  /**
+   * Check an email and password and start a session. Null for unknown
+   * emails, wrong passwords and disabled users alike.
+   */
+  async login(email: string, password: string): Promise<AdminSession | null> {
+    const row = dbInstance
+      .prepare(`SELECT ${USER_COLUMNS}, passwordHash FROM admin_users WHERE email = ?`)
+      .get(email) as (AdminUser & { passwordHash: string }) | undefined;
+
+    const valid = await verifyPassword(password, row?.passwordHash ?? (await dummyPasswordHash));
+    if (!row || !valid || row.disabledAt) {
+      return null;
+    }
+
+    const { passwordHash, ...user } = row;
+    const token = `${ADMIN_SESSION_PREFIX}${randomBytes(32).toString('hex')}`;
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.sessionTtlMs).toISOString();
+
+    dbInstance.transaction(() => {
+      dbInstance
+        .prepare('INSERT INTO admin_sessions (id, userId, tokenHash, createdAt, expiresAt) VALUES (?, ?, ?, ?, ?)')
+        .run(randomUUID(), user.id, hashToken(token), now.toISOString(), expiresAt);
+      dbInstance.prepare('UPDATE admin_users SET lastLoginAt = ? WHERE id = ?').run(now.toISOString(), user.id);
+      // Expired sessions are only useful until someone signs in again
+      dbInstance.prepare('DELETE FROM admin_sessions WHERE expiresAt <= ?').run(now.toISOString());
+    })();
+
+    return { token, expiresAt, user: { ...user, lastLoginAt: now.toISOString() } };
+  }
+
+  /**
+   * The user a session token belongs to, if the session is still valid
+   */
+  authenticateSession(token: string): AdminUser | null {
+    const now = new Date().toISOString();
+    const session = dbInstance
+      .prepare('SELECT id, userId FROM admin_sessions WHERE tokenHash = ? AND expiresAt > ?')
+      .get(hashToken(token), now) as { id: string; userId: string } | undefined;
+    const user = session ? this.getUser(session.userId) : null;
+    if (!session || !user || user.disabledAt) {
+      return null;
+    }
+
+    dbInstance.prepare('UPDATE admin_sessions SET lastUsedAt = ? WHERE id = ?').run(now, session.id);
+    return user;
+  }
+
+  logout(token: string): void {
+    dbInstance.prepare('DELETE FROM admin_sessions WHERE tokenHash = ?').run(hashToken(token));
+  }
+}
+
+/**
+ * Build the service from the environment:
+ * - `ADMIN_SESSION_TTL_HOURS`: how long a sign-in lasts, 8 by default
+ */
+export function createAdminUserService(env: NodeJS.ProcessEnv = process.env): AdminUserService {
+  const ttlHours = env.ADMIN_SESSION_TTL_HOURS ? Number(env.ADMIN_SESSION_TTL_HOURS) : DEFAULT_SESSION_TTL_HOURS;
+  if (!Number.isFinite(ttlHours) || ttlHours <= 0) {
+    throw new Error('ADMIN_SESSION_TTL_HOURS must be a positive number');
+  }
+
+  return new AdminUserService(ttlHours * 60 * 60 * 1000);
+}
+
+export const adminUserService = createAdminUserService();
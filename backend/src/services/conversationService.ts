@@ -1,75 +1,476 @@
-import { dbInstance } from '../db/database.js';
+import { dbInstance, type ConversationStatus, type MessageSender } from '../db/database.js';
 import { randomUUID } from 'crypto';
+import { Gauge } from 'prom-client';
+import type { ToolInvocation } from './tools/index.js';
+import { feedbackService, type SatisfactionStats } from './feedbackService.js';
+import { piiService } from './pii/index.js';
+import { webhookService } from './webhookService.js';
+import { realtimeService } from './realtimeService.js';
+import { metricsRegistry } from './metrics.js';
+import { usageService, type LLMUsage, type MessageUsage } from './usageService.js';
+import type { ModerationAction, ModerationVerdict } from './moderation/index.js';
+import type { LLMAttempt, LLMErrorType } from './providers/index.js';
+import type { ResponseCacheResult } from './responseCacheService.js';
+
+// Days of daily satisfaction figures included in getStats by default
+export const DEFAULT_SATISFACTION_DAYS = 30;
+
+// Conversations with activity this recent count as active in /metrics
+const ACTIVE_CONVERSATION_WINDOW_MS = 15 * 60 * 1000;
 
 export interface ConversationData {
   id: string;
+  tenantId: string;
   createdAt: string;
   updatedAt: string;
+  status: ConversationStatus;
+  assignedAgent: string | null;
+  escalatedAt: string | null;
+  escalationReason: string | null;
+  /** Customer the storefront identified through the widget, if any */
+  customerId: string | null;
+  customerName: string | null;
+  customerEmail: string | null;
+  /** Rolling summary of the turns that no longer fit in the LLM prompt */
+  summary: string | null;
+  /** Timestamp of the last message the summary covers */
+  summarizedUntil: string | null;
+  summaryUpdatedAt: string | null;
+  /** When retention stripped the conversation's PII */
+  anonymizedAt: string | null;
+}
+
+export interface CustomerIdentity {
+  id?: string;
+  name?: string;
+  email?: string;
+}
+
+export interface MessageSource {
+  articleId: string;
+  title: string;
+  snippet: string;
+  score: number;
 }
 
 export interface MessageData {
   id: string;
   conversationId: string;
-  sender: 'user' | 'ai';
+  /** Set on admin reads */
+  tenantId?: string;
+  sender: MessageSender;
   text: string;
   timestamp: string;
+  sources?: MessageSource[];
+  toolCalls?: ToolInvocation[];
+  /** Moderation verdict, on admin reads; null if the message wasn't moderated */
+  moderation?: ModerationVerdict | null;
+  /** Tokens, latency and cost of an AI reply, on admin reads; null if no LLM was called */
+  usage?: MessageUsage | null;
+  /** Why the LLM couldn't reply, on admin reads; null for ordinary messages */
+  failure?: ReplyFailure | null;
+  /** Whether the reply came from the response cache, on admin reads; null if the cache wasn't consulted */
+  cache?: ResponseCacheResult | null;
+}
+
+/**
+ * A bot turn where the LLM couldn't reply. The message holds what the
+ * customer got instead.
+ */
+export interface ReplyFailure {
+  type: LLMErrorType;
+  message: string;
+  /**
+   * `faq`: matching knowledge base articles; `apology`: an apology with the
+   * support contacts; `partial`: the text streamed before the failure
+   */
+  recovery: 'faq' | 'apology' | 'partial';
+  /** Failed and skipped provider calls, in order; empty for failures outside the provider chain */
+  attempts: LLMAttempt[];
+}
+
+export interface MessageMetadata {
+  /** Knowledge base snippets the reply was grounded on */
+  sources?: MessageSource[];
+  /** Tools the bot invoked while producing the reply */
+  toolCalls?: ToolInvocation[];
+  moderation?: ModerationVerdict;
+  /** What the LLM call behind the reply consumed */
+  usage?: LLMUsage;
+  /** Set for bot turns where the LLM couldn't reply */
+  failure?: ReplyFailure;
+  /** Set for bot turns that looked the question up in the response cache */
+  cache?: ResponseCacheResult;
+}
+
+// Columns returned to customers; moderation details stay admin-only
+const MESSAGE_COLUMNS = 'id, conversationId, sender, text, timestamp';
+
+type StoredMessageRow = Omit<MessageData, 'moderation' | 'failure' | 'cache'> & {
+  moderationAction: ModerationAction | null;
+  moderation: string | null;
+  failureType: LLMErrorType | null;
+  failure: string | null;
+  cacheStatus: ResponseCacheResult['status'] | null;
+  cache: string | null;
+};
+
+function toModeratedMessage({
+  moderationAction,
+  moderation,
+  failureType,
+  failure,
+  cacheStatus,
+  cache,
+  ...message
+}: StoredMessageRow): MessageData {
+  return {
+    ...message,
+    moderation: moderation !== null ? JSON.parse(moderation) : null,
+    failure: failure !== null ? JSON.parse(failure) : null,
+    cache: cache !== null ? JSON.parse(cache) : null,
+  };
+}
+
+export interface ToolInvocationRecord extends ToolInvocation {
+  id: string;
+  conversationId: string;
+  messageId: string;
+}
+
+interface ToolInvocationRow {
+  id: string;
+  conversationId: string;
+  messageId: string;
+  name: string;
+  arguments: string;
+  result: string | null;
+  status: 'success' | 'error';
+  error: string | null;
+  durationMs: number;
+  createdAt: string;
+}
+
+function toToolInvocationRecord(row: ToolInvocationRow): ToolInvocationRecord {
+  return {
+    id: row.id,
+    conversationId: row.conversationId,
+    messageId: row.messageId,
+    name: row.name,
+    arguments: JSON.parse(row.arguments),
+    result: row.result !== null ? JSON.parse(row.result) : null,
+    status: row.status,
+    ...(row.error !== null ? { error: row.error } : {}),
+    durationMs: row.durationMs,
+    createdAt: row.createdAt,
+  };
 }
 
 export class ConversationService {
-  createConversation(): ConversationData {
+  createConversation(tenantId: string): ConversationData {
     const id = randomUUID();
     const now = new Date().toISOString();
-    
-    dbInstance
-      .prepare('INSERT INTO conversations (id, createdAt, updatedAt) VALUES (?, ?, ?)')
-      .run(id, now, now);
-    
-    return { id, createdAt: now, updatedAt: now };
+    const conversation: ConversationData = {
+      id,
+      tenantId,
+      createdAt: now,
+      updatedAt: now,
+      status: 'active',
+      assignedAgent: null,
+      escalatedAt: null,
+      escalationReason: null,
+      customerId: null,
+      customerName: null,
+      customerEmail: null,
+      summary: null,
+      summarizedUntil: null,
+      summaryUpdatedAt: null,
+      anonymizedAt: null,
+    };
+
+    dbInstance.transaction(() => {
+      dbInstance
+        .prepare('INSERT INTO conversations (id, tenantId, createdAt, updatedAt) VALUES (?, ?, ?, ?)')
+        .run(id, tenantId, now, now);
+      webhookService.emit(tenantId, 'conversation.created', { conversation });
+    })();
+
+    return conversation;
   }
 
-  getConversation(conversationId: string): ConversationData | null {
-    const row = dbInstance
-      .prepare('SELECT * FROM conversations WHERE id = ?')
-      .get(conversationId) as ConversationData | undefined;
+  /**
+   * With `tenantId`, conversations of other tenants are treated as missing
+   */
+  getConversation(conversationId: string, tenantId?: string): ConversationData | null {
+    const row = (
+      tenantId !== undefined
+        ? dbInstance.prepare('SELECT * FROM conversations WHERE id = ? AND tenantId = ?').get(conversationId, tenantId)
+        : dbInstance.prepare('SELECT * FROM conversations WHERE id = ?').get(conversationId)
+    ) as ConversationData | undefined;
     
     return row || null;
   }
 
-  getOrCreateConversation(conversationId?: string): ConversationData {
-    if (conversationId) {
-      const existing = this.getConversation(conversationId);
-      if (existing) {
-        return existing;
+  /**
+   * Record who the storefront says the customer is. Fields left out keep
+   * their earlier value.
+   */
+  identifyCustomer(conversationId: string, customer: CustomerIdentity): void {
+    dbInstance
+      .prepare(`
+        UPDATE conversations
+        SET customerId = COALESCE(?, customerId),
+            customerName = COALESCE(?, customerName),
+            customerEmail = COALESCE(?, customerEmail)
+        WHERE id = ?
+      `)
+      .run(customer.id ?? null, customer.name ?? null, customer.email ?? null, conversationId);
+  }
+
+  /**
+   * Replace the conversation's summary. Like messages, it is saved with
+   * placeholders when the PII policy stores redacted text.
+   */
+  saveSummary(conversationId: string, summary: string, summarizedUntil: string): void {
+    dbInstance.transaction(() => {
+      const redactor = piiService.getStorageRedactor(conversationId);
+      dbInstance
+        .prepare('UPDATE conversations SET summary = ?, summarizedUntil = ?, summaryUpdatedAt = ? WHERE id = ?')
+        .run(redactor ? redactor.mask(summary) : summary, summarizedUntil, new Date().toISOString(), conversationId);
+      if (redactor) {
+        piiService.saveToVault(conversationId, redactor.newEntries);
       }
-    }
-    return this.createConversation();
+    })();
   }
 
-  addMessage(conversationId: string, sender: 'user' | 'ai', text: string): MessageData {
+  /**
+   * Save a message. When the PII policy stores redacted text, the message
+   * and its tool call data are saved with placeholders and the returned
+   * message carries the redacted text. Emits `message.created` for every
+   * sender, so webhooks and the customer's open widgets see customer, bot
+   * and agent messages alike.
+   */
+  addMessage(
+    conversationId: string,
+    sender: MessageSender,
+    text: string,
+    metadata: MessageMetadata = {}
+  ): MessageData {
     const id = randomUUID();
     const timestamp = new Date().toISOString();
+    const sources = metadata.sources ?? [];
+    const toolCalls = metadata.toolCalls ?? [];
+    let storedText = text;
     
-    dbInstance
-      .prepare('INSERT INTO messages (id, conversationId, sender, text, timestamp) VALUES (?, ?, ?, ?, ?)')
-      .run(id, conversationId, sender, text, timestamp);
-    
-    // Update conversation's updatedAt
-    dbInstance
-      .prepare('UPDATE conversations SET updatedAt = ? WHERE id = ?')
-      .run(timestamp, conversationId);
+    dbInstance.transaction(() => {
+      const redactor = piiService.getStorageRedactor(conversationId);
+      const redact = (value: string) => (redactor ? redactor.mask(value) : value);
+      const redactJson = (value: unknown) => JSON.stringify(redactor ? redactor.maskDeep(value) : value);
+      storedText = redact(text);
+      const conversation = dbInstance
+        .prepare('SELECT tenantId FROM conversations WHERE id = ?')
+        .get(conversationId) as { tenantId: string } | undefined;
+
+      dbInstance
+        .prepare(`
+          INSERT INTO messages (id, conversationId, tenantId, sender, text, timestamp, moderationAction, moderation, failureType, failure, cacheStatus, cache)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        .run(
+          id,
+          conversationId,
+          conversation?.tenantId ?? null,
+          sender,
+          storedText,
+          timestamp,
+          metadata.moderation?.action ?? null,
+          metadata.moderation ? redactJson(metadata.moderation) : null,
+          metadata.failure?.type ?? null,
+          metadata.failure ? JSON.stringify(metadata.failure) : null,
+          metadata.cache?.status ?? null,
+          metadata.cache ? JSON.stringify(metadata.cache) : null
+        );
+
+      const insertSource = dbInstance.prepare(
+        'INSERT INTO message_sources (messageId, articleId, title, snippet, score) VALUES (?, ?, ?, ?, ?)'
+      );
+      for (const source of sources) {
+        insertSource.run(id, source.articleId, source.title, source.snippet, source.score);
+      }
+
+      const insertToolCall = dbInstance.prepare(`
+        INSERT INTO tool_invocations (id, conversationId, messageId, name, arguments, result, status, error, durationMs, createdAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const call of toolCalls) {
+        insertToolCall.run(
+          randomUUID(),
+          conversationId,
+          id,
+          call.name,
+          redactJson(call.arguments ?? null),
+          call.result !== null && call.result !== undefined ? redactJson(call.result) : null,
+          call.status,
+          call.error ? redact(call.error) : null,
+          call.durationMs,
+          call.createdAt
+        );
+      }
+
+      if (conversation && metadata.usage) {
+        usageService.record({
+          tenantId: conversation.tenantId,
+          conversationId,
+          messageId: id,
+          purpose: 'reply',
+          usage: metadata.usage,
+        });
+      }
+
+      if (redactor) {
+        piiService.saveToVault(conversationId, redactor.newEntries);
+      }
+      
+      // Update conversation's updatedAt
+      dbInstance
+        .prepare('UPDATE conversations SET updatedAt = ? WHERE id = ?')
+        .run(timestamp, conversationId);
+
+      if (conversation) {
+        webhookService.emit(conversation.tenantId, 'message.created', {
+          message: { id, conversationId, sender, text: storedText, timestamp },
+        });
+      }
+    })();
+
+    realtimeService.publish(conversationId, {
+      type: 'message.created',
+      message: { id, conversationId, sender, text: storedText, timestamp },
+    });
     
-    return { id, conversationId, sender, text, timestamp };
+    return {
+      id,
+      conversationId,
+      sender,
+      text: storedText,
+      timestamp,
+      ...(sources.length > 0 ? { sources } : {}),
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    };
+  }
+
+  /**
+   * Attach recorded knowledge base sources, tool calls and LLM usage to AI
+   * messages
+   */
+  private withMetadata(messages: MessageData[]): MessageData[] {
+    const aiMessageIds = messages.filter((msg) => msg.sender === 'ai').map((msg) => msg.id);
+    if (aiMessageIds.length === 0) {
+      return messages;
+    }
+
+    // Query in batches to stay under SQLite's bound parameter limit
+    const sourcesByMessage = new Map<string, MessageSource[]>();
+    const toolCallsByMessage = new Map<string, ToolInvocation[]>();
+    for (let i = 0; i < aiMessageIds.length; i += 500) {
+      const batch = aiMessageIds.slice(i, i + 500);
+      const placeholders = batch.map(() => '?').join(', ');
+
+      const sourceRows = dbInstance
+        .prepare(`
+          SELECT messageId, articleId, title, snippet, score FROM message_sources
+          WHERE messageId IN (${placeholders})
+          ORDER BY score DESC
+        `)
+        .all(...batch) as (MessageSource & { messageId: string })[];
+
+      for (const { messageId, ...source } of sourceRows) {
+        sourcesByMessage.set(messageId, [...(sourcesByMessage.get(messageId) ?? []), source]);
+      }
+
+      const toolCallRows = dbInstance
+        .prepare(`SELECT * FROM tool_invocations WHERE messageId IN (${placeholders}) ORDER BY createdAt ASC`)
+        .all(...batch) as ToolInvocationRow[];
+
+      for (const row of toolCallRows) {
+        const { id, conversationId, messageId, ...call } = toToolInvocationRecord(row);
+        toolCallsByMessage.set(messageId, [...(toolCallsByMessage.get(messageId) ?? []), call]);
+      }
+    }
+
+    const usageByMessage = usageService.getMessageUsage(aiMessageIds);
+
+    return messages.map((msg) =>
+      msg.sender === 'ai'
+        ? {
+            ...msg,
+            sources: sourcesByMessage.get(msg.id) ?? [],
+            toolCalls: toolCallsByMessage.get(msg.id) ?? [],
+            usage: usageByMessage.get(msg.id) ?? null,
+          }
+        : msg
+    );
   }
 
   getMessages(conversationId: string): MessageData[] {
     return dbInstance
-      .prepare('SELECT * FROM messages WHERE conversationId = ? ORDER BY timestamp ASC')
+      .prepare(`SELECT ${MESSAGE_COLUMNS} FROM messages WHERE conversationId = ? ORDER BY timestamp ASC`)
       .all(conversationId) as MessageData[];
   }
 
-  getAllConversations(limit?: number, offset?: number): ConversationData[] {
-    let query = 'SELECT * FROM conversations ORDER BY updatedAt DESC';
-    const params: any[] = [];
+  /**
+   * Messages saved after `messageId`, for clients resuming a dropped
+   * connection. Null if the message isn't part of the conversation.
+   */
+  getMessagesAfter(conversationId: string, messageId: string): MessageData[] | null {
+    const seen = dbInstance
+      .prepare('SELECT timestamp, rowid AS position FROM messages WHERE id = ? AND conversationId = ?')
+      .get(messageId, conversationId) as { timestamp: string; position: number } | undefined;
+    if (!seen) {
+      return null;
+    }
+
+    // Messages saved within the same millisecond keep their insertion order
+    return dbInstance
+      .prepare(`
+        SELECT ${MESSAGE_COLUMNS} FROM messages
+        WHERE conversationId = ? AND (timestamp, rowid) > (?, ?)
+        ORDER BY timestamp ASC, rowid ASC
+      `)
+      .all(conversationId, seen.timestamp, seen.position) as MessageData[];
+  }
+
+  /**
+   * History for the LLM prompt, optionally only the messages after a
+   * timestamp. Customer messages blocked by moderation are left out so
+   * they can't steer later replies, and so are failed bot turns, which
+   * aren't answers the model gave.
+   */
+  getPromptHistory(conversationId: string, after: string | null = null): MessageData[] {
+    return dbInstance
+      .prepare(`
+        SELECT ${MESSAGE_COLUMNS} FROM messages
+        WHERE conversationId = ? AND (moderationAction IS NULL OR moderationAction != 'block')
+          AND failureType IS NULL AND (? IS NULL OR timestamp > ?)
+        ORDER BY timestamp ASC
+      `)
+      .all(conversationId, after, after) as MessageData[];
+  }
+
+  /**
+   * Messages with their moderation verdicts, for admin views
+   */
+  private getModeratedMessages(conversationId: string): MessageData[] {
+    return (
+      dbInstance
+        .prepare('SELECT * FROM messages WHERE conversationId = ? ORDER BY timestamp ASC')
+        .all(conversationId) as StoredMessageRow[]
+    ).map(toModeratedMessage);
+  }
+
+  getAllConversations(tenantId: string, limit?: number, offset?: number): ConversationData[] {
+    let query = 'SELECT * FROM conversations WHERE tenantId = ? ORDER BY updatedAt DESC';
+    const params: any[] = [tenantId];
     
     if (limit !== undefined) {
       query += ' LIMIT ?';
@@ -83,24 +484,43 @@ export class ConversationService {
     return dbInstance.prepare(query).all(...params) as ConversationData[];
   }
 
-  getConversationWithMessages(conversationId: string): (ConversationData & { messages: MessageData[] }) | null {
-    const conversation = this.getConversation(conversationId);
+  getConversationWithMessages(
+    conversationId: string,
+    tenantId: string
+  ): (ConversationData & { messages: MessageData[] }) | null {
+    const conversation = this.getConversation(conversationId, tenantId);
     if (!conversation) {
       return null;
     }
     
-    const messages = this.getMessages(conversationId);
+    const messages = this.withMetadata(this.getModeratedMessages(conversationId));
     return { ...conversation, messages };
   }
 
-  getAllMessages(limit?: number, offset?: number, conversationId?: string): MessageData[] {
+  getAllMessages(
+    tenantId: string,
+    limit?: number,
+    offset?: number,
+    conversationId?: string,
+    moderationAction?: ModerationAction,
+    failed?: boolean
+  ): MessageData[] {
     let query = 'SELECT * FROM messages';
-    const params: any[] = [];
+    const conditions: string[] = ['tenantId = ?'];
+    const params: any[] = [tenantId];
     
     if (conversationId) {
-      query += ' WHERE conversationId = ?';
+      conditions.push('conversationId = ?');
       params.push(conversationId);
     }
+    if (moderationAction) {
+      conditions.push('moderationAction = ?');
+      params.push(moderationAction);
+    }
+    if (failed !== undefined) {
+      conditions.push(failed ? 'failureType IS NOT NULL' : 'failureType IS NULL');
+    }
+    query += ` WHERE ${conditions.join(' AND ')}`;
     
     query += ' ORDER BY timestamp DESC';
     
@@ -113,31 +533,88 @@ export class ConversationService {
       }
     }
     
-    return dbInstance.prepare(query).all(...params) as MessageData[];
+    return this.withMetadata((dbInstance.prepare(query).all(...params) as StoredMessageRow[]).map(toModeratedMessage));
   }
 
-  getStats(): {
+  getToolInvocations(filters: {
+    tenantId: string;
+    conversationId?: string;
+    name?: string;
+    status?: 'success' | 'error';
+    limit?: number;
+    offset?: number;
+  }): ToolInvocationRecord[] {
+    let query = 'SELECT * FROM tool_invocations';
+    const conditions: string[] = ['conversationId IN (SELECT id FROM conversations WHERE tenantId = ?)'];
+    const params: any[] = [filters.tenantId];
+
+    if (filters.conversationId) {
+      conditions.push('conversationId = ?');
+      params.push(filters.conversationId);
+    }
+    if (filters.name) {
+      conditions.push('name = ?');
+      params.push(filters.name);
+    }
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+    query += ` WHERE ${conditions.join(' AND ')}`;
+
+    query += ' ORDER BY createdAt DESC';
+
+    if (filters.limit !== undefined) {
+      query += ' LIMIT ?';
+      params.push(filters.limit);
+      if (filters.offset !== undefined) {
+        query += ' OFFSET ?';
+        params.push(filters.offset);
+      }
+    }
+
+    return (dbInstance.prepare(query).all(...params) as ToolInvocationRow[]).map(toToolInvocationRecord);
+  }
+
+  getStats(tenantId: string, satisfactionDays: number = DEFAULT_SATISFACTION_DAYS): {
     totalConversations: number;
     totalMessages: number;
     userMessages: number;
     aiMessages: number;
+    agentMessages: number;
+    /** Bot turns where the LLM couldn't reply */
+    failedReplies: number;
+    conversationsAwaitingAgent: number;
     averageMessagesPerConversation: number;
+    satisfaction: SatisfactionStats;
   } {
     const totalConversations = dbInstance
-      .prepare('SELECT COUNT(*) as count FROM conversations')
-      .get() as { count: number };
+      .prepare('SELECT COUNT(*) as count FROM conversations WHERE tenantId = ?')
+      .get(tenantId) as { count: number };
     
     const totalMessages = dbInstance
-      .prepare('SELECT COUNT(*) as count FROM messages')
-      .get() as { count: number };
+      .prepare('SELECT COUNT(*) as count FROM messages WHERE tenantId = ?')
+      .get(tenantId) as { count: number };
     
     const userMessages = dbInstance
-      .prepare("SELECT COUNT(*) as count FROM messages WHERE sender = 'user'")
-      .get() as { count: number };
+      .prepare("SELECT COUNT(*) as count FROM messages WHERE tenantId = ? AND sender = 'user'")
+      .get(tenantId) as { count: number };
     
     const aiMessages = dbInstance
-      .prepare("SELECT COUNT(*) as count FROM messages WHERE sender = 'ai'")
-      .get() as { count: number };
+      .prepare("SELECT COUNT(*) as count FROM messages WHERE tenantId = ? AND sender = 'ai'")
+      .get(tenantId) as { count: number };
+    
+    const agentMessages = dbInstance
+      .prepare("SELECT COUNT(*) as count FROM messages WHERE tenantId = ? AND sender = 'agent'")
+      .get(tenantId) as { count: number };
+    
+    const failedReplies = dbInstance
+      .prepare('SELECT COUNT(*) as count FROM messages WHERE tenantId = ? AND failureType IS NOT NULL')
+      .get(tenantId) as { count: number };
+    
+    const awaitingAgent = dbInstance
+      .prepare("SELECT COUNT(*) as count FROM conversations WHERE tenantId = ? AND status = 'awaiting_agent'")
+      .get(tenantId) as { count: number };
     
     const avgMessages = totalConversations.count > 0
       ? totalMessages.count / totalConversations.count
@@ -148,17 +625,44 @@ export class ConversationService {
       totalMessages: totalMessages.count,
       userMessages: userMessages.count,
       aiMessages: aiMessages.count,
+      agentMessages: agentMessages.count,
+      failedReplies: failedReplies.count,
+      conversationsAwaitingAgent: awaitingAgent.count,
       averageMessagesPerConversation: Math.round(avgMessages * 100) / 100,
+      satisfaction: feedbackService.getSatisfactionStats(tenantId, satisfactionDays),
     };
   }
 
-  getConversationCount(): number {
+  getConversationCount(tenantId: string): number {
     const result = dbInstance
-      .prepare('SELECT COUNT(*) as count FROM conversations')
-      .get() as { count: number };
+      .prepare('SELECT COUNT(*) as count FROM conversations WHERE tenantId = ?')
+      .get(tenantId) as { count: number };
     return result.count;
   }
+
+  /**
+   * Conversations of every tenant updated since `since`, by status
+   */
+  countActiveConversations(since: string): { status: ConversationStatus; count: number }[] {
+    return dbInstance
+      .prepare('SELECT status, COUNT(*) as count FROM conversations WHERE updatedAt >= ? GROUP BY status')
+      .all(since) as { status: ConversationStatus; count: number }[];
+  }
 }
 
 export const conversationService = new ConversationService();
 
+new Gauge({
+  name: 'chat_active_conversations',
+  help: 'Conversations with activity in the last 15 minutes, by status',
+  labelNames: ['status'] as const,
+  registers: [metricsRegistry],
+  collect() {
+    const since = new Date(Date.now() - ACTIVE_CONVERSATION_WINDOW_MS).toISOString();
+    this.reset();
+    for (const { status, count } of conversationService.countActiveConversations(since)) {
+      this.set({ status }, count);
+    }
+  },
+});
+
@@ -0,0 +1,216 @@
+import { dbInstance, type ConversationStatus, type MessageSender } from '../db/database.js';
+
+// Conversations fetched per keyset page; messages are iterated row by row
+const CONVERSATION_BATCH_SIZE = 100;
+
+export type ExportFormat = 'jsonl' | 'csv' | 'markdown';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['jsonl', 'csv', 'markdown'];
+
+export interface ExportFilter {
+  tenantId: string;
+  conversationId?: string;
+  /** Only conversations created at or after this ISO timestamp */
+  from?: string;
+  /** Only conversations created before this ISO timestamp */
+  to?: string;
+}
+
+/**
+ * Where export output goes. `write` returns false when the consumer is
+ * saturated; the exporter then waits on `drain` before reading more rows.
+ */
+export interface ExportSink {
+  write(chunk: string): boolean;
+  drain(): Promise<void>;
+  /** True once the consumer has gone away, e.g. the client disconnected */
+  readonly closed: boolean;
+}
+
+interface ExportConversation {
+  id: string;
+  createdAt: string;
+  status: ConversationStatus;
+  assignedAgent: string | null;
+}
+
+interface ExportMessage {
+  id: string;
+  sender: MessageSender;
+  text: string;
+  timestamp: string;
+}
+
+interface ExportFormatter {
+  contentType: string;
+  extension: string;
+  header: string;
+  renderConversation(conversation: ExportConversation, messages: Iterable<ExportMessage>): Iterable<string>;
+}
+
+// Chat-completion roles, so JSONL exports drop straight into fine-tuning tooling
+const FINE_TUNING_ROLES: Record<MessageSender, 'user' | 'assistant'> = {
+  user: 'user',
+  ai: 'assistant',
+  agent: 'assistant',
+};
+
+const MARKDOWN_SPEAKERS: Record<MessageSender, string> = {
+  user: 'Customer',
+  ai: 'AI Agent',
+  agent: 'Support Agent',
+};
+
+function csvCell(value: string): string {
+  // Keep spreadsheet apps from evaluating message text as a formula
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+const FORMATTERS: Record<ExportFormat, ExportFormatter> = {
+  jsonl: {
+    contentType: 'application/x-ndjson; charset=utf-8',
+    extension: 'jsonl',
+    header: '',
+    *renderConversation(conversation, messages) {
+      for (const message of messages) {
+        yield JSON.stringify({
+          conversationId: conversation.id,
+          messageId: message.id,
+          role: FINE_TUNING_ROLES[message.sender],
+          sender: message.sender,
+          text: message.text,
+          timestamp: message.timestamp,
+        }) + '\n';
+      }
+    },
+  },
+  csv: {
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv',
+    header: 'conversationId,messageId,timestamp,sender,text\r\n',
+    *renderConversation(conversation, messages) {
+      for (const message of messages) {
+        yield [conversation.id, message.id, message.timestamp, message.sender, message.text]
+          .map(csvCell)
+          .join(',') + '\r\n';
+      }
+    },
+  },
+  markdown: {
+    contentType: 'text/markdown; charset=utf-8',
+    extension: 'md',
+    header: '',
+    *renderConversation(conversation, messages) {
+      yield `# Conversation ${conversation.id}\n\n`;
+      yield `- **Started:** ${conversation.createdAt}\n`;
+      yield `- **Status:** ${conversation.status}\n`;
+      if (conversation.assignedAgent) {
+        yield `- **Agent:** ${conversation.assignedAgent}\n`;
+      }
+      yield '\n';
+      for (const message of messages) {
+        const speaker =
+          message.sender === 'agent' && conversation.assignedAgent
+            ? `${MARKDOWN_SPEAKERS.agent} (${conversation.assignedAgent})`
+            : MARKDOWN_SPEAKERS[message.sender];
+        yield `**${speaker}** · ${message.timestamp}\n\n${message.text}\n\n`;
+      }
+      yield '---\n\n';
+    },
+  },
+};
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+export function getExportFormatter(format: ExportFormat): Pick<ExportFormatter, 'contentType' | 'extension'> {
+  const { contentType, extension } = FORMATTERS[format];
+  return { contentType, extension };
+}
+
+export class ExportService {
+  /**
+   * Stream matching conversations to `sink` in the given format.
+   *
+   * Conversations are paged by (createdAt, id) and each one's messages are
+   * read with a row iterator, so memory use stays flat however large the
+   * database is. A single conversation is written without yielding, since
+   * better-sqlite3 can't run other queries while an iterator is open;
+   * backpressure is honoured between conversations.
+   *
+   * Returns the number of conversations exported.
+   */
+  async exportConversations(filter: ExportFilter, format: ExportFormat, sink: ExportSink): Promise<number> {
+    const formatter = FORMATTERS[format];
+    const conditions: string[] = ['tenantId = ?'];
+    const params: unknown[] = [filter.tenantId];
+
+    if (filter.conversationId) {
+      conditions.push('id = ?');
+      params.push(filter.conversationId);
+    }
+    if (filter.from) {
+      conditions.push('createdAt >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      conditions.push('createdAt < ?');
+      params.push(filter.to);
+    }
+
+    const nextBatch = dbInstance.prepare(`
+      SELECT id, createdAt, status, assignedAgent FROM conversations
+      WHERE ${[...conditions, '(createdAt > ? OR (createdAt = ? AND id > ?))'].join(' AND ')}
+      ORDER BY createdAt ASC, id ASC
+      LIMIT ?
+    `);
+    const messagesOf = dbInstance.prepare(
+      'SELECT id, sender, text, timestamp FROM messages WHERE conversationId = ? ORDER BY timestamp ASC'
+    );
+
+    if (formatter.header && !sink.write(formatter.header)) {
+      await sink.drain();
+    }
+
+    let exported = 0;
+    let cursor = { createdAt: '', id: '' };
+    while (!sink.closed) {
+      const conversations = nextBatch.all(
+        ...params,
+        cursor.createdAt,
+        cursor.createdAt,
+        cursor.id,
+        CONVERSATION_BATCH_SIZE
+      ) as ExportConversation[];
+
+      for (const conversation of conversations) {
+        if (sink.closed) {
+          break;
+        }
+
+        let saturated = false;
+        const messages = messagesOf.iterate(conversation.id) as IterableIterator<ExportMessage>;
+        for (const chunk of formatter.renderConversation(conversation, messages)) {
+          saturated = !sink.write(chunk) || saturated;
+        }
+        exported++;
+
+        if (saturated) {
+          await sink.drain();
+        }
+      }
+
+      if (conversations.length < CONVERSATION_BATCH_SIZE) {
+        break;
+      }
+      const last = conversations[conversations.length - 1];
+      cursor = { createdAt: last.createdAt, id: last.id };
+    }
+
+    return exported;
+  }
+}
+
+export const exportService = new ExportService();
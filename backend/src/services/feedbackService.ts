@@ -0,0 +1,277 @@
+import { dbInstance } from '../db/database.js';
+import { webhookService } from './webhookService.js';
+import type { MessageSource } from './conversationService.js';
+import { ratio } from './helpers.js';
+
+export type FeedbackRating = 'up' | 'down';
+
+export interface MessageFeedback {
+  messageId: string;
+  conversationId: string;
+  rating: FeedbackRating;
+  comment: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationRating {
+  conversationId: string;
+  score: number;
+  comment: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DownvotedReply {
+  messageId: string;
+  conversationId: string;
+  text: string;
+  timestamp: string;
+  /** The customer message the reply answered, if any */
+  question: string | null;
+  comment: string | null;
+  ratedAt: string;
+  sources: MessageSource[];
+}
+
+export interface SatisfactionDay {
+  date: string;
+  thumbsUp: number;
+  thumbsDown: number;
+  helpfulRate: number | null;
+  csatResponses: number;
+  averageCsat: number | null;
+}
+
+export interface SatisfactionStats {
+  thumbsUp: number;
+  thumbsDown: number;
+  /** Share of rated AI replies that got a thumbs up (0-1), null with no votes */
+  helpfulRate: number | null;
+  csatResponses: number;
+  averageCsat: number | null;
+  /** Share of CSAT responses scoring 4 or 5 (0-1), null with no responses */
+  csatSatisfiedRate: number | null;
+  /** One entry per day for the last `days` days, oldest first */
+  daily: SatisfactionDay[];
+}
+
+// Scopes feedback and rating rows, which carry a conversationId, to a tenant
+const TENANT_CONVERSATIONS = 'conversationId IN (SELECT id FROM conversations WHERE tenantId = ?)';
+
+function round(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 100) / 100;
+}
+
+export class FeedbackService {
+  /**
+   * Record (or change) a thumbs up/down on an AI reply. Returns null if the
+   * message isn't an AI reply in the given conversation.
+   */
+  rateMessage(
+    conversationId: string,
+    messageId: string,
+    rating: FeedbackRating,
+    comment?: string
+  ): MessageFeedback | null {
+    const message = dbInstance
+      .prepare("SELECT id, tenantId FROM messages WHERE id = ? AND conversationId = ? AND sender = 'ai'")
+      .get(messageId, conversationId) as { id: string; tenantId: string } | undefined;
+    if (!message) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    return dbInstance.transaction(() => {
+      dbInstance
+        .prepare(`
+          INSERT INTO message_feedback (messageId, conversationId, rating, comment, createdAt, updatedAt)
+          VALUES (?, ?, ?, ?, ?, ?)
+          ON CONFLICT(messageId) DO UPDATE SET
+            rating = excluded.rating,
+            comment = excluded.comment,
+            updatedAt = excluded.updatedAt
+        `)
+        .run(messageId, conversationId, rating, comment || null, now, now);
+
+      const feedback = dbInstance
+        .prepare('SELECT * FROM message_feedback WHERE messageId = ?')
+        .get(messageId) as MessageFeedback;
+      webhookService.emit(message.tenantId, 'feedback.received', { kind: 'message', feedback });
+      return feedback;
+    })();
+  }
+
+  /**
+   * Record (or change) the end-of-conversation CSAT score. Returns null if
+   * the conversation doesn't exist.
+   */
+  rateConversation(conversationId: string, score: number, comment?: string): ConversationRating | null {
+    const conversation = dbInstance
+      .prepare('SELECT id, tenantId FROM conversations WHERE id = ?')
+      .get(conversationId) as { id: string; tenantId: string } | undefined;
+    if (!conversation) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    return dbInstance.transaction(() => {
+      dbInstance
+        .prepare(`
+          INSERT INTO conversation_ratings (conversationId, score, comment, createdAt, updatedAt)
+          VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT(conversationId) DO UPDATE SET
+            score = excluded.score,
+            comment = excluded.comment,
+            updatedAt = excluded.updatedAt
+        `)
+        .run(conversationId, score, comment || null, now, now);
+
+      const rating = this.getConversationRating(conversationId);
+      webhookService.emit(conversation.tenantId, 'feedback.received', { kind: 'rating', rating });
+      return rating;
+    })();
+  }
+
+  getConversationRating(conversationId: string): ConversationRating | null {
+    return (
+      (dbInstance
+        .prepare('SELECT * FROM conversation_ratings WHERE conversationId = ?')
+        .get(conversationId) as ConversationRating | undefined) ?? null
+    );
+  }
+
+  /**
+   * Ratings the customer gave in a conversation, keyed by message id
+   */
+  getMessageRatings(conversationId: string): Map<string, FeedbackRating> {
+    const rows = dbInstance
+      .prepare('SELECT messageId, rating FROM message_feedback WHERE conversationId = ?')
+      .all(conversationId) as { messageId: string; rating: FeedbackRating }[];
+    return new Map(rows.map((row) => [row.messageId, row.rating]));
+  }
+
+  /**
+   * Thumbs-down replies, most recent vote first, with the question they
+   * answered and the knowledge base snippets they were grounded on.
+   */
+  getDownvotedReplies(tenantId: string, limit: number = 50, offset: number = 0): DownvotedReply[] {
+    const rows = dbInstance
+      .prepare(`
+        SELECT
+          m.id AS messageId,
+          m.conversationId AS conversationId,
+          m.text AS text,
+          m.timestamp AS timestamp,
+          (
+            SELECT q.text FROM messages q
+            WHERE q.conversationId = m.conversationId AND q.sender = 'user' AND q.timestamp <= m.timestamp
+            ORDER BY q.timestamp DESC
+            LIMIT 1
+          ) AS question,
+          f.comment AS comment,
+          f.updatedAt AS ratedAt
+        FROM message_feedback f
+        JOIN messages m ON m.id = f.messageId
+        WHERE f.rating = 'down' AND m.tenantId = ?
+        ORDER BY f.updatedAt DESC
+        LIMIT ? OFFSET ?
+      `)
+      .all(tenantId, limit, offset) as Omit<DownvotedReply, 'sources'>[];
+
+    const sourcesQuery = dbInstance.prepare(
+      'SELECT articleId, title, snippet, score FROM message_sources WHERE messageId = ? ORDER BY score DESC'
+    );
+    return rows.map((row) => ({
+      ...row,
+      sources: sourcesQuery.all(row.messageId) as MessageSource[],
+    }));
+  }
+
+  getDownvotedCount(tenantId: string): number {
+    const result = dbInstance
+      .prepare(`
+        SELECT COUNT(*) as count FROM message_feedback f
+        JOIN messages m ON m.id = f.messageId
+        WHERE f.rating = 'down' AND m.tenantId = ?
+      `)
+      .get(tenantId) as { count: number };
+    return result.count;
+  }
+
+  /**
+   * Overall satisfaction plus a daily breakdown for the last `days` days,
+   * bucketed by when the vote or rating was last given (UTC).
+   */
+  getSatisfactionStats(tenantId: string, days: number): SatisfactionStats {
+    const votes = dbInstance
+      .prepare(`
+        SELECT
+          COALESCE(SUM(rating = 'up'), 0) AS thumbsUp,
+          COALESCE(SUM(rating = 'down'), 0) AS thumbsDown
+        FROM message_feedback
+        WHERE ${TENANT_CONVERSATIONS}
+      `)
+      .get(tenantId) as { thumbsUp: number; thumbsDown: number };
+
+    const csat = dbInstance
+      .prepare(`
+        SELECT COUNT(*) AS responses, AVG(score) AS average, COALESCE(SUM(score >= 4), 0) AS satisfied
+        FROM conversation_ratings
+        WHERE ${TENANT_CONVERSATIONS}
+      `)
+      .get(tenantId) as { responses: number; average: number | null; satisfied: number };
+
+    const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    const dailyVotes = dbInstance
+      .prepare(`
+        SELECT substr(updatedAt, 1, 10) AS date, SUM(rating = 'up') AS thumbsUp, SUM(rating = 'down') AS thumbsDown
+        FROM message_feedback
+        WHERE ${TENANT_CONVERSATIONS} AND updatedAt >= ?
+        GROUP BY date
+      `)
+      .all(tenantId, since) as { date: string; thumbsUp: number; thumbsDown: number }[];
+
+    const dailyCsat = dbInstance
+      .prepare(`
+        SELECT substr(updatedAt, 1, 10) AS date, COUNT(*) AS responses, AVG(score) AS average
+        FROM conversation_ratings
+        WHERE ${TENANT_CONVERSATIONS} AND updatedAt >= ?
+        GROUP BY date
+      `)
+      .all(tenantId, since) as { date: string; responses: number; average: number }[];
+
+    const votesByDate = new Map(dailyVotes.map((row) => [row.date, row]));
+    const csatByDate = new Map(dailyCsat.map((row) => [row.date, row]));
+
+    const daily: SatisfactionDay[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+      const date = new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      const dayVotes = votesByDate.get(date);
+      const dayCsat = csatByDate.get(date);
+      const thumbsUp = dayVotes?.thumbsUp ?? 0;
+      const thumbsDown = dayVotes?.thumbsDown ?? 0;
+      daily.push({
+        date,
+        thumbsUp,
+        thumbsDown,
+        helpfulRate: ratio(thumbsUp, thumbsUp + thumbsDown),
+        csatResponses: dayCsat?.responses ?? 0,
+        averageCsat: round(dayCsat?.average ?? null),
+      });
+    }
+
+    return {
+      thumbsUp: votes.thumbsUp,
+      thumbsDown: votes.thumbsDown,
+      helpfulRate: ratio(votes.thumbsUp, votes.thumbsUp + votes.thumbsDown),
+      csatResponses: csat.responses,
+      averageCsat: round(csat.average),
+      csatSatisfiedRate: ratio(csat.satisfied, csat.responses),
+      daily,
+    };
+  }
+}
+
+export const feedbackService = new FeedbackService();
@@ -0,0 +1,112 @@
+import { dbInstance, type ConversationStatus } from '../db/database.js';
+import { conversationService, type ConversationData, type MessageData } from './conversationService.js';
+import { webhookService } from './webhookService.js';
+import { realtimeService, statusEvent } from './realtimeService.js';
+
+export interface QueueEntry extends ConversationData {
+  lastMessage: Pick<MessageData, 'sender' | 'text' | 'timestamp'> | null;
+}
+
+export const CUSTOMER_ESCALATION_REPLY = "I've asked a member of our support team to join this conversation. They'll reply right here as soon as they're available.";
+
+/**
+ * Escalation of conversations from the bot to human agents. A conversation
+ * moves from `active` (bot answers) to `awaiting_agent` when the bot or the
+ * customer asks for a human, to `agent_assigned` once an agent claims it,
+ * and back to `active` when the agent releases it.
+ */
+export class HandoffService {
+  /**
+   * Whether the bot should stay out of the conversation
+   */
+  isHandedOff(conversation: ConversationData): boolean {
+    return conversation.status !== 'active';
+  }
+
+  /**
+   * Queue the conversation for an agent. Already escalated conversations
+   * are left untouched; only the first request emits `conversation.escalated`.
+   */
+  requestAgent(conversationId: string, reason: string): ConversationData | null {
+    const { conversation, changed } = dbInstance.transaction(() => {
+      const result = dbInstance
+        .prepare(`
+          UPDATE conversations
+          SET status = 'awaiting_agent', escalatedAt = ?, escalationReason = ?
+          WHERE id = ? AND status = 'active'
+        `)
+        .run(new Date().toISOString(), reason, conversationId);
+
+      const conversation = conversationService.getConversation(conversationId);
+      if (conversation && result.changes > 0) {
+        webhookService.emit(conversation.tenantId, 'conversation.escalated', { conversation });
+      }
+      return { conversation, changed: result.changes > 0 };
+    })();
+
+    if (conversation && changed) {
+      realtimeService.publish(conversationId, statusEvent(conversation));
+    }
+    return conversation;
+  }
+
+  getQueue(tenantId: string, status: Exclude<ConversationStatus, 'active'> = 'awaiting_agent'): QueueEntry[] {
+    const conversations = dbInstance
+      .prepare('SELECT * FROM conversations WHERE tenantId = ? AND status = ? ORDER BY escalatedAt ASC')
+      .all(tenantId, status) as ConversationData[];
+
+    const lastMessageQuery = dbInstance.prepare(
+      'SELECT sender, text, timestamp FROM messages WHERE conversationId = ? ORDER BY timestamp DESC LIMIT 1'
+    );
+
+    return conversations.map((conversation) => ({
+      ...conversation,
+      lastMessage: (lastMessageQuery.get(conversation.id) as QueueEntry['lastMessage'] | undefined) ?? null,
+    }));
+  }
+
+  /**
+   * Assign a waiting conversation to an agent. Returns false if it is no
+   * longer waiting (e.g. another agent claimed it first).
+   */
+  claim(conversationId: string, agentName: string): boolean {
+    const result = dbInstance
+      .prepare(`
+        UPDATE conversations
+        SET status = 'agent_assigned', assignedAgent = ?
+        WHERE id = ? AND status = 'awaiting_agent'
+      `)
+      .run(agentName, conversationId);
+
+    this.publishStatus(conversationId, result.changes > 0);
+    return result.changes > 0;
+  }
+
+  /**
+   * Hand the conversation back to the bot
+   */
+  release(conversationId: string, agentName: string): boolean {
+    const result = dbInstance
+      .prepare(`
+        UPDATE conversations
+        SET status = 'active', assignedAgent = NULL, escalatedAt = NULL, escalationReason = NULL
+        WHERE id = ? AND status = 'agent_assigned' AND assignedAgent = ?
+      `)
+      .run(conversationId, agentName);
+
+    this.publishStatus(conversationId, result.changes > 0);
+    return result.changes > 0;
+  }
+
+  /**
+   * Tell the customer's open widgets about a status change
+   */
+  private publishStatus(conversationId: string, changed: boolean) {
+    const conversation = changed ? conversationService.getConversation(conversationId) : null;
+    if (conversation) {
+      realtimeService.publish(conversationId, statusEvent(conversation));
+    }
+  }
+}
+
+export const handoffService = new HandoffService();
@@ -0,0 +1,55 @@
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function positiveInteger(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = env[name] ? Number(env[name]) : fallback;
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return value;
+}
+
+/**
+ * A positive integer, or null when the variable isn't set
+ */
+export function optionalPositiveInteger(env: NodeJS.ProcessEnv, name: string): number | null {
+  return env[name] ? positiveInteger(env, name, 0) : null;
+}
+
+export function nonNegativeInteger(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = env[name] ? Number(env[name]) : fallback;
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer`);
+  }
+  return value;
+}
+
+/**
+ * A number of 0 or more, or null when the variable isn't set
+ */
+export function nonNegativeNumber(env: NodeJS.ProcessEnv, name: string): number | null {
+  if (!env[name]) {
+    return null;
+  }
+  const value = Number(env[name]);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a number of 0 or more`);
+  }
+  return value;
+}
+
+/**
+ * `part / total` rounded to three decimals, or null when there is no total
+ */
+export function ratio(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 1000) / 1000 : null;
+}
+
+/**
+ * Delay before retry number `attempt` (from 1): exponential backoff from
+ * `baseMs`, capped at `maxMs`, with ±20% jitter so callers that failed
+ * together don't all retry at the same moment
+ */
+export function jitteredBackoff(attempt: number, baseMs: number, maxMs: number): number {
+  const delay = Math.min(maxMs, baseMs * 2 ** (attempt - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
@@ -0,0 +1,186 @@
+import { dbInstance } from '../db/database.js';
+import { createHash, randomUUID } from 'crypto';
+
+export interface KnowledgeBaseArticle {
+  id: string;
+  tenantId: string;
+  title: string;
+  body: string;
+  tags: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface KnowledgeBaseArticleInput {
+  title: string;
+  body: string;
+  tags?: string[];
+  enabled?: boolean;
+}
+
+export interface RetrievedSnippet {
+  articleId: string;
+  title: string;
+  body: string;
+  snippet: string;
+  score: number;
+}
+
+interface ArticleRow {
+  id: string;
+  tenantId: string;
+  title: string;
+  body: string;
+  tags: string;
+  enabled: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const DEFAULT_TOP_K = parseInt(process.env.KB_TOP_K || '3', 10);
+
+// Common words that carry no retrieval signal
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'could', 'do', 'does', 'for',
+  'from', 'have', 'how', 'i', 'if', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'our',
+  'please', 'so', 'that', 'the', 'there', 'this', 'to', 'was', 'we', 'what', 'when', 'where',
+  'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+function toArticle(row: ArticleRow): KnowledgeBaseArticle {
+  return {
+    ...row,
+    tags: JSON.parse(row.tags) as string[],
+    enabled: row.enabled === 1,
+  };
+}
+
+/**
+ * Turn free text into an FTS5 MATCH expression: each meaningful term is
+ * quoted (so punctuation can't be parsed as query syntax) and OR-ed.
+ */
+export function buildMatchQuery(text: string): string | null {
+  const terms = Array.from(
+    new Set((text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+      (term) => term.length > 1 && !STOPWORDS.has(term)
+    ))
+  );
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.map((term) => `"${term}"`).join(' OR ');
+}
+
+export class KnowledgeBaseService {
+  listArticles(tenantId: string, includeDisabled: boolean = true): KnowledgeBaseArticle[] {
+    const query = includeDisabled
+      ? 'SELECT * FROM kb_articles WHERE tenantId = ? ORDER BY title ASC'
+      : 'SELECT * FROM kb_articles WHERE tenantId = ? AND enabled = 1 ORDER BY title ASC';
+
+    return (dbInstance.prepare(query).all(tenantId) as ArticleRow[]).map(toArticle);
+  }
+
+  /**
+   * With `tenantId`, articles of other tenants are treated as missing
+   */
+  getArticle(articleId: string, tenantId?: string): KnowledgeBaseArticle | null {
+    const row = (
+      tenantId !== undefined
+        ? dbInstance.prepare('SELECT * FROM kb_articles WHERE id = ? AND tenantId = ?').get(articleId, tenantId)
+        : dbInstance.prepare('SELECT * FROM kb_articles WHERE id = ?').get(articleId)
+    ) as ArticleRow | undefined;
+
+    return row ? toArticle(row) : null;
+  }
+
+  createArticle(tenantId: string, input: KnowledgeBaseArticleInput): KnowledgeBaseArticle {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    const tags = input.tags ?? [];
+    const enabled = input.enabled ?? true;
+
+    dbInstance
+      .prepare('INSERT INTO kb_articles (id, tenantId, title, body, tags, enabled, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+      .run(id, tenantId, input.title, input.body, JSON.stringify(tags), enabled ? 1 : 0, now, now);
+
+    return { id, tenantId, title: input.title, body: input.body, tags, enabled, createdAt: now, updatedAt: now };
+  }
+
+  updateArticle(
+    articleId: string,
+    tenantId: string,
+    changes: Partial<KnowledgeBaseArticleInput>
+  ): KnowledgeBaseArticle | null {
+    const existing = this.getArticle(articleId, tenantId);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: KnowledgeBaseArticle = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+      updatedAt: new Date().toISOString(),
+    };
+
+    dbInstance
+      .prepare('UPDATE kb_articles SET title = ?, body = ?, tags = ?, enabled = ?, updatedAt = ? WHERE id = ?')
+      .run(updated.title, updated.body, JSON.stringify(updated.tags), updated.enabled ? 1 : 0, updated.updatedAt, articleId);
+
+    return updated;
+  }
+
+  deleteArticle(articleId: string, tenantId: string): boolean {
+    const result = dbInstance
+      .prepare('DELETE FROM kb_articles WHERE id = ? AND tenantId = ?')
+      .run(articleId, tenantId);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Hash of the tenant's enabled articles, which changes whenever one is
+   * added, edited, enabled, disabled or deleted
+   */
+  getVersion(tenantId: string): string {
+    const rows = dbInstance
+      .prepare('SELECT id, updatedAt FROM kb_articles WHERE tenantId = ? AND enabled = 1 ORDER BY id')
+      .all(tenantId) as { id: string; updatedAt: string }[];
+
+    return createHash('sha256').update(JSON.stringify(rows)).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Rank the tenant's enabled articles against free text using BM25 (title
+   * matches weigh more than body or tag matches) and return the top `limit`.
+   */
+  search(text: string, tenantId: string, limit: number = DEFAULT_TOP_K): RetrievedSnippet[] {
+    const matchQuery = buildMatchQuery(text);
+    if (!matchQuery) {
+      return [];
+    }
+
+    const rows = dbInstance
+      .prepare(`
+        SELECT
+          a.id AS articleId,
+          a.title AS title,
+          a.body AS body,
+          snippet(kb_articles_fts, 2, '', '', '…', 24) AS snippet,
+          bm25(kb_articles_fts, 0.0, 5.0, 1.0, 2.0) AS rank
+        FROM kb_articles_fts
+        JOIN kb_articles a ON a.id = kb_articles_fts.articleId
+        WHERE kb_articles_fts MATCH ? AND a.tenantId = ? AND a.enabled = 1
+        ORDER BY rank
+        LIMIT ?
+      `)
+      .all(matchQuery, tenantId, limit) as (Omit<RetrievedSnippet, 'score'> & { rank: number })[];
+
+    // bm25() is lower-is-better; expose a positive relevance score instead
+    return rows.map(({ rank, ...row }) => ({ ...row, score: Math.round(-rank * 1000) / 1000 }));
+  }
+}
+
+export const knowledgeBaseService = new KnowledgeBaseService();
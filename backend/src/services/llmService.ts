@@ -1,131 +1,686 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { MessageData } from './conversationService.js';
+import { Gauge } from 'prom-client';
+import type { MessageSender } from '../db/database.js';
+import { MessageData, MessageSource, type ReplyFailure } from './conversationService.js';
+import { knowledgeBaseService, type RetrievedSnippet } from './knowledgeBaseService.js';
+import {
+  createProvidersFromEnv,
+  classifyProviderError,
+  loadResilienceOptions,
+  LLMUnavailableError,
+  ProviderChain,
+  type ChatTurn,
+  type CircuitState,
+  type LLMProvider,
+  type LLMRequest,
+  type ResilienceOptions,
+  type TokenUsage,
+} from './providers/index.js';
+import {
+  buildToolInstructions,
+  classifyToolCallPrefix,
+  createDefaultToolRegistry,
+  formatToolCall,
+  parseToolCall,
+  type ToolInvocation,
+  type ToolRegistry,
+} from './tools/index.js';
+import type { PiiRedactor } from './pii/index.js';
+import type { Tenant } from './tenantService.js';
+import { tokenEstimator, type TokenEstimator } from './tokenEstimator.js';
+import type { LLMUsage } from './usageService.js';
+import { logger } from './logger.js';
+import { positiveInteger } from './helpers.js';
+import { llmErrorsTotal, llmRequestDuration, llmTokensTotal, metricsRegistry } from './metrics.js';
 
-const MAX_MESSAGE_LENGTH = 2000;
+const MAX_MESSAGE_TOKENS = 500;
 const MAX_TOKENS = 500;
-const MAX_HISTORY_MESSAGES = 10;
-
-// Domain knowledge about the fictional e-commerce store
-const DOMAIN_KNOWLEDGE = `
-You are a helpful and friendly customer support agent for "SpurStore", a small e-commerce store. 
-Here's important information about our store:
-
-SHIPPING POLICY:
-- We ship worldwide via standard shipping (5-7 business days) and express shipping (2-3 business days)
-- Standard shipping: $5.99 (free for orders over $50)
-- Express shipping: $12.99
-- We ship to USA, Canada, UK, Australia, and most European countries
-- Orders are processed within 1-2 business days
-
-RETURN/REFUND POLICY:
-- 30-day return policy for unused items in original packaging
-- Full refunds are processed within 5-7 business days after we receive the item
-- Customers are responsible for return shipping costs unless the item is defective
-- Refunds are issued to the original payment method
-
-SUPPORT HOURS:
-- Monday to Friday: 9 AM - 6 PM EST
-- Saturday: 10 AM - 4 PM EST
-- Sunday: Closed
-- Email support: support@spurstore.com
-- Response time: Within 24 hours during business hours
-
-PRODUCT INFORMATION:
-- We offer a wide range of products including electronics, clothing, home goods, and accessories
-- Most items are in stock and ready to ship
-- We offer gift wrapping and gift messages for orders
-
-IMPORTANT GUIDELINES:
-- Answer customer questions clearly, concisely, and in a friendly tone using ONLY the information provided above.
+const MAX_SUMMARY_TOKENS = 400;
+const MAX_TOOL_ROUNDS = 3;
+// Knowledge base articles quoted, and tokens of each, when replying without the LLM
+const DEGRADED_SNIPPETS = 2;
+const DEGRADED_SNIPPET_TOKENS = 150;
+
+const SUMMARY_SYSTEM_PROMPT = `You keep a running summary of a customer support conversation for the support team.
+Rewrite the summary so far to also cover the new messages. Keep every order number, email address, product, date and amount the customer gave, what they asked for, what was answered or promised, and anything still open.
+Placeholders such as [EMAIL_1] stand for customer details: copy them exactly.
+Reply with the summary only, in at most 150 words of plain text. Do not address the customer and do not call any tools.`;
+
+const SENDER_LABELS: Record<MessageSender, string> = {
+  user: 'Customer',
+  ai: 'Assistant',
+  agent: 'Human agent',
+};
+
+/**
+ * How customers reach the tenant's human support team
+ */
+function describeSupportContacts(tenant: Tenant): string {
+  const channels = [`email us at ${tenant.supportEmail}`];
+  if (tenant.supportPhone) {
+    channels.push(`call us at ${tenant.supportPhone}`);
+  }
+  const hours = tenant.supportHours ? `during our support hours (${tenant.supportHours})` : 'during our support hours';
+  return `Please ${channels.join(' or ')} ${hours}.`;
+}
+
+function formatSnippet(snippet: RetrievedSnippet): string {
+  return `${snippet.title.toUpperCase()}:\n${snippet.body}`;
+}
+
+function buildGuidelines(tenant: Tenant): string {
+  return `IMPORTANT GUIDELINES:
+- Answer customer questions clearly, concisely, and in a friendly tone using ONLY the store policy and knowledge base information provided above.
 - Format your responses using markdown for better readability:
   * Use bullet points (- or *) for lists
   * Use **bold** for important information
   * Use line breaks to separate different topics
   * Keep paragraphs short and easy to read
-- If a customer asks about something NOT covered in the knowledge base above (e.g., specific product details, pricing for individual items, technical specifications, order status, account issues, payment problems, or questions unrelated to our store policies), politely acknowledge that you don't have that specific information.
-- For out-of-scope questions, respond with: "I don't have that specific information in my knowledge base, but I'd be happy to connect you with our human support team who can help you with that. Please email us at support@spurstore.com or contact us during our support hours."
-- Stay focused on shipping, returns, support hours, and general product information as outlined above.
-- Never make up information or guess about details not provided in the knowledge base.
+- If a customer asks about something NOT covered in the knowledge base above (e.g., specific product details, pricing for individual items, technical specifications, account issues, payment problems, or questions unrelated to our store policies), politely acknowledge that you don't have that specific information.
+- For out-of-scope questions, respond with: "I don't have that specific information in my knowledge base, but I'd be happy to connect you with our human support team who can help you with that. ${describeSupportContacts(tenant)}"
+- If the customer asks to talk to a human, hand the conversation over with the requestHumanAgent tool.
+- For order status, tracking and returns, use the tools described above. Only share order details returned by a tool, and if a tool reports no matching order, ask the customer to double-check their order number and email.
+- Never make up information or guess about details not provided in the knowledge base or returned by a tool.
 - Always maintain a helpful and professional tone, even when redirecting to human support.
-- When listing multiple items or topics, use markdown bullet points for clarity.
+- When listing multiple items or topics, use markdown bullet points for clarity.`;
+}
+
+/**
+ * The tenant's persona opens the prompt and its policy text sits next to
+ * the knowledge base snippets retrieved for the question
+ */
+function buildSystemPrompt(
+  tenant: Tenant,
+  snippets: RetrievedSnippet[],
+  toolInstructions: string,
+  summary: string | null
+): string {
+  const knowledge = snippets.length > 0
+    ? snippets.map(formatSnippet).join('\n\n')
+    : 'No knowledge base articles matched this question.';
+  const policy = tenant.policy.trim() ? `\nOur store policy:\n\n${tenant.policy.trim()}\n` : '';
+  const earlier = summary ? `\nSummary of the earlier conversation with this customer:\n\n${summary}\n` : '';
+
+  return `
+${tenant.persona}
+${policy}
+Here's the relevant information from our knowledge base:
+
+${knowledge}
+${earlier}
+${toolInstructions}
+
+${buildGuidelines(tenant)}
 `;
+}
 
-export class LLMService {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
+function toSources(snippets: RetrievedSnippet[]): MessageSource[] {
+  return snippets.map(({ articleId, title, snippet, score }) => ({ articleId, title, snippet, score }));
+}
+
+/**
+ * The part of the conversation placed in the prompt: recent messages and a
+ * summary of everything before them
+ */
+export interface ConversationContext {
+  summary: string | null;
+  messages: MessageData[];
+  /** The saved customer message being answered, if it is among `messages` */
+  currentMessageId?: string;
+}
+
+export interface GeneratedReply {
+  text: string;
+  /** Knowledge base snippets that were placed in the prompt */
+  sources: MessageSource[];
+  /** Tools invoked while producing the reply, in order */
+  toolCalls: ToolInvocation[];
+  /** Tokens and time the provider took; absent when no LLM was called */
+  usage?: LLMUsage;
+  /** Set when the LLM couldn't reply and this text was sent instead */
+  failure?: ReplyFailure;
+}
+
+export interface ReplyStream {
+  chunks: AsyncIterable<string>;
+  sources: MessageSource[];
+  /** Filled in as the stream is consumed */
+  toolCalls: ToolInvocation[];
+  /** Usage so far; read it once the stream has ended. Undefined when no LLM was called */
+  usage: () => LLMUsage | undefined;
+}
 
-  constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY environment variable is not set');
+/** An error from `generateReply`, with the usage of calls made before it */
+type ReplyError = Error & { usage?: LLMUsage };
+
+export interface GeneratedSummary {
+  text: string;
+  usage: LLMUsage;
+}
+
+/**
+ * Adds up the tokens of every provider call made for one reply, including
+ * tool-calling rounds. Calls the provider doesn't report counts for are
+ * estimated. The reply is attributed to the provider that answered last,
+ * which is a fallback when the primary provider failed.
+ */
+class UsageMeter {
+  private calls = 0;
+  private inputTokens = 0;
+  private outputTokens = 0;
+  private estimated = false;
+  private startedAt = Date.now();
+
+  constructor(
+    private provider: LLMProvider,
+    private estimator: TokenEstimator
+  ) {}
+
+  /**
+   * Count one call to `provider` that started at `callStartedAt` (ms since the epoch)
+   */
+  add(provider: LLMProvider, request: LLMRequest, output: string, reported: TokenUsage | undefined, callStartedAt: number) {
+    this.provider = provider;
+    this.calls++;
+    let inputTokens: number;
+    let outputTokens: number;
+    if (reported) {
+      ({ inputTokens, outputTokens } = reported);
+    } else {
+      const input = [request.system, ...request.messages.map((turn) => turn.content)].join('\n');
+      inputTokens = this.estimator.count(input);
+      outputTokens = this.estimator.count(output);
+      this.estimated = true;
     }
-    
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.model = this.genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+    this.inputTokens += inputTokens;
+    this.outputTokens += outputTokens;
+
+    const labels = { provider: this.provider.name, model: this.provider.model, purpose: request.purpose ?? 'reply' };
+    llmRequestDuration.observe(labels, (Date.now() - callStartedAt) / 1000);
+    llmTokensTotal.inc({ ...labels, direction: 'input' }, inputTokens);
+    llmTokensTotal.inc({ ...labels, direction: 'output' }, outputTokens);
+  }
+
+  /** Whether any call has been counted */
+  get used(): boolean {
+    return this.calls > 0;
+  }
+
+  snapshot(): LLMUsage {
+    return {
+      provider: this.provider.name,
+      model: this.provider.model,
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens,
+      estimated: this.estimated,
+      latencyMs: Date.now() - this.startedAt,
+    };
+  }
+}
+
+/**
+ * `PROMPT_TOKEN_BUDGET`: estimated input tokens of a reply prompt (system
+ * prompt, knowledge, summary, history and the message), 4000 by default
+ */
+export function loadPromptTokenBudget(env: NodeJS.ProcessEnv = process.env): number {
+  return positiveInteger(env, 'PROMPT_TOKEN_BUDGET', 4000);
+}
+
+/**
+ * The conversation before the customer's current message, which the chat
+ * routes save before loading the context
+ */
+function earlierMessages(context: ConversationContext): MessageData[] {
+  const { currentMessageId } = context;
+  return currentMessageId ? context.messages.filter((msg) => msg.id !== currentMessageId) : context.messages;
+}
+
+/**
+ * Retrieve knowledge base snippets for the message. When the message
+ * alone matches nothing (e.g. "and for express?"), the customer's
+ * previous turns are used to carry the topic over.
+ */
+function retrieveSnippets(
+  userMessage: string,
+  conversationHistory: MessageData[],
+  tenantId: string
+): RetrievedSnippet[] {
+  const snippets = knowledgeBaseService.search(userMessage, tenantId);
+  if (snippets.length > 0) {
+    return snippets;
+  }
+
+  const recentUserText = conversationHistory
+    .filter((msg) => msg.sender === 'user')
+    .slice(-3)
+    .map((msg) => msg.text)
+    .join(' ');
+  return knowledgeBaseService.search(`${recentUserText} ${userMessage}`, tenantId);
+}
+
+/**
+ * Answer without calling any provider: the best matching knowledge base
+ * articles, which hold the store's FAQ, and the support team's contacts.
+ * Works while the LLM is over its spend cap or down, since the knowledge
+ * base is in the local database.
+ */
+function knowledgeBaseReply(
+  userMessage: string,
+  context: ConversationContext,
+  tenant: Tenant,
+  reason: 'spend_cap' | 'unavailable',
+  estimator: TokenEstimator
+): GeneratedReply {
+  const snippets = retrieveSnippets(userMessage, earlierMessages(context), tenant.id).slice(0, DEGRADED_SNIPPETS);
+  const contacts = describeSupportContacts(tenant);
+  const situation = reason === 'spend_cap'
+    ? 'Our assistant is running in a limited mode right now'
+    : "I'm having technical difficulties right now";
+  const text = snippets.length > 0
+    ? `${situation}, so here is what our help articles say:
+
+${snippets.map((snippet) => `**${snippet.title}**\n\n${estimator.truncate(snippet.body, DEGRADED_SNIPPET_TOKENS)}`).join('\n\n')}
+
+If this doesn't answer your question, our support team can help. ${contacts}`
+    : reason === 'spend_cap'
+      ? `${situation} and couldn't find this in our help articles. Our support team can help. ${contacts}`
+      : `I apologize, but I'm having technical difficulties right now. Please try again in a moment. ${contacts}`;
+
+  return { text, sources: toSources(snippets), toolCalls: [] };
+}
+
+/**
+ * What went wrong with a reply, with every provider attempt when the whole
+ * chain failed
+ */
+export function describeFailure(error: unknown, recovery: ReplyFailure['recovery']): ReplyFailure {
+  if (error instanceof LLMUnavailableError) {
+    return { type: error.type, message: error.message, recovery, attempts: error.attempts };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return { type: classifyProviderError(error), message, recovery, attempts: [] };
+}
+
+/**
+ * The reply sent when generating one failed: matching knowledge base
+ * articles if there are any, otherwise an apology. It carries the failure
+ * so it is stored as a failed turn rather than an ordinary reply, and the
+ * usage of any calls `generateReply` made before failing.
+ */
+function failedReply(
+  userMessage: string,
+  context: ConversationContext,
+  tenant: Tenant,
+  error: unknown,
+  estimator: TokenEstimator = tokenEstimator
+): GeneratedReply {
+  const reply = knowledgeBaseReply(userMessage, context, tenant, 'unavailable', estimator);
+  const usage = error instanceof Error ? (error as ReplyError).usage : undefined;
+  return {
+    ...reply,
+    failure: describeFailure(error, reply.sources.length > 0 ? 'faq' : 'apology'),
+    ...(usage ? { usage } : {}),
+  };
+}
+
+export class LLMService {
+  private chain: ProviderChain;
+  private tools: ToolRegistry;
+  private estimator: TokenEstimator;
+  private promptTokenBudget: number;
+
+  /**
+   * `providers` is the provider to use, or the primary one followed by its
+   * fallbacks
+   */
+  constructor(
+    providers: LLMProvider | LLMProvider[] = createProvidersFromEnv(),
+    tools: ToolRegistry = createDefaultToolRegistry(),
+    estimator: TokenEstimator = tokenEstimator,
+    promptTokenBudget: number = loadPromptTokenBudget(),
+    resilience: ResilienceOptions = loadResilienceOptions()
+  ) {
+    this.chain = new ProviderChain(Array.isArray(providers) ? providers : [providers], resilience);
+    this.tools = tools;
+    this.estimator = estimator;
+    this.promptTokenBudget = promptTokenBudget;
+  }
+
+  get providerName(): string {
+    return this.chain.primary.name;
+  }
+
+  get modelName(): string {
+    return this.chain.primary.model;
   }
 
+  circuitStates(): { provider: string; model: string; state: CircuitState }[] {
+    return this.chain.circuitStates();
+  }
+
+  /**
+   * Instructions from the system prompt that replies must never repeat.
+   * The persona and tool catalogue are left out, since the bot may
+   * legitimately describe who it is and what it can look up.
+   */
+  confidentialPromptText(tenant: Tenant): string[] {
+    return [buildGuidelines(tenant), buildToolInstructions('')];
+  }
+
+  /**
+   * With a `redactor`, customer PII is replaced by placeholders in
+   * everything sent to the provider. Tools still receive the real values
+   * and the returned reply has them restored.
+   */
   async generateReply(
     userMessage: string,
-    conversationHistory: MessageData[]
-  ): Promise<string> {
+    context: ConversationContext,
+    tenant: Tenant,
+    redactor?: PiiRedactor
+  ): Promise<GeneratedReply> {
+    const meter = new UsageMeter(this.chain.primary, this.estimator);
     try {
-      // Validate and truncate user message
-      if (!userMessage || userMessage.trim().length === 0) {
-        throw new Error('Message cannot be empty');
+      const { request, snippets } = this.buildRequest(userMessage, context, tenant, redactor);
+      const toolCalls: ToolInvocation[] = [];
+
+      // Call the configured provider, running any tools it asks for
+      let reply = '';
+      for await (const chunk of this.runToolLoop(request, toolCalls, meter, false, redactor)) {
+        reply += chunk;
       }
+      reply = (redactor ? redactor.unmask(reply) : reply).trim();
 
-      if (userMessage.length > MAX_MESSAGE_LENGTH) {
-        userMessage = userMessage.substring(0, MAX_MESSAGE_LENGTH) + '...';
+      if (!reply || reply.length === 0) {
+        throw new Error('Empty response from LLM');
       }
 
-      // Build conversation history for context
-      const recentHistory = conversationHistory.slice(-MAX_HISTORY_MESSAGES);
-      const historyText = recentHistory
-        .map((msg) => {
-          const role = msg.sender === 'user' ? 'Customer' : 'Support Agent';
-          return `${role}: ${msg.text}`;
-        })
-        .join('\n');
+      return { text: reply, sources: toSources(snippets), toolCalls, usage: meter.snapshot() };
+    } catch (error: any) {
+      // Calls that answered before the failure still cost money
+      const failure: ReplyError = this.classifyError(error);
+      if (meter.used) {
+        failure.usage = meter.snapshot();
+      }
+      throw failure;
+    }
+  }
+
+  /**
+   * Stream the reply as text chunks. Providers without native streaming
+   * yield their full reply as a single chunk.
+   */
+  streamReply(
+    userMessage: string,
+    context: ConversationContext,
+    tenant: Tenant,
+    signal?: AbortSignal,
+    redactor?: PiiRedactor
+  ): ReplyStream {
+    const { request, snippets } = this.buildRequest(userMessage, context, tenant, redactor);
+    const toolCalls: ToolInvocation[] = [];
+    const meter = new UsageMeter(this.chain.primary, this.estimator);
+    const chunks = this.streamChunks({ ...request, signal }, toolCalls, meter, redactor);
+    return {
+      chunks: redactor ? redactor.unmaskChunks(chunks) : chunks,
+      sources: toSources(snippets),
+      toolCalls,
+      usage: () => (meter.used ? meter.snapshot() : undefined),
+    };
+  }
+
+  /**
+   * Answer from the knowledge base without calling the provider, for when
+   * the spend cap has been reached
+   */
+  degradedReply(userMessage: string, context: ConversationContext, tenant: Tenant): GeneratedReply {
+    return knowledgeBaseReply(userMessage, context, tenant, 'spend_cap', this.estimator);
+  }
 
-      // Construct the prompt
-      const prompt = `${DOMAIN_KNOWLEDGE}
+  /**
+   * The reply sent in place of one that failed, marked as a failed turn
+   */
+  failedReply(userMessage: string, context: ConversationContext, tenant: Tenant, error: unknown): GeneratedReply {
+    return failedReply(userMessage, context, tenant, error, this.estimator);
+  }
 
-Previous conversation:
-${historyText || 'This is the start of the conversation.'}
+  /**
+   * Fold `turns` into the previous summary. Customer PII is masked for the
+   * provider and restored in the returned summary.
+   */
+  async summarize(
+    previousSummary: string | null,
+    turns: MessageData[],
+    redactor?: PiiRedactor
+  ): Promise<GeneratedSummary> {
+    const mask = (text: string) => (redactor ? redactor.mask(text) : text);
+    const transcript = turns.map((msg) => `${SENDER_LABELS[msg.sender]}: ${mask(msg.text)}`).join('\n');
+    const content = `Summary so far:
+${previousSummary ? mask(previousSummary) : 'None yet.'}
 
-Customer: ${userMessage}
-Support Agent:`;
+New messages:
+${transcript}`;
 
-      // Call Gemini API
-      const result = await this.model.generateContent(prompt);
-      const response = result.response;
-      const reply = response.text().trim();
+    try {
+      const request: LLMRequest = {
+        system: SUMMARY_SYSTEM_PROMPT,
+        messages: [{ role: 'user', content }],
+        maxOutputTokens: MAX_SUMMARY_TOKENS,
+        purpose: 'summary',
+      };
+      const meter = new UsageMeter(this.chain.primary, this.estimator);
+      const startedAt = Date.now();
+      const { provider, result: { text, usage } } = await this.chain.generate(request);
+      meter.add(provider, request, text, usage, startedAt);
 
-      if (!reply || reply.length === 0) {
-        throw new Error('Empty response from LLM');
+      const summary = (redactor ? redactor.unmask(text) : text).trim();
+      if (!summary || parseToolCall(summary)) {
+        throw new Error('The model did not return a summary');
       }
+      return { text: summary, usage: meter.snapshot() };
+    } catch (error: any) {
+      throw this.classifyError(error);
+    }
+  }
 
-      return reply;
+  private async *streamChunks(
+    request: LLMRequest,
+    toolCalls: ToolInvocation[],
+    meter: UsageMeter,
+    redactor?: PiiRedactor
+  ): AsyncGenerator<string> {
+    const { signal } = request;
+    try {
+      yield* this.runToolLoop(request, toolCalls, meter, true, redactor);
     } catch (error: any) {
-      // Handle specific Gemini API errors
-      if (error.message?.includes('API_KEY')) {
-        throw new Error('Invalid API key. Please check your GEMINI_API_KEY environment variable.');
+      // An abort requested by the caller is not a provider failure
+      if (signal?.aborted) {
+        return;
       }
-      
-      if (error.message?.includes('quota') || error.message?.includes('rate limit')) {
-        throw new Error('API rate limit exceeded. Please try again in a moment.');
+      throw this.classifyError(error);
+    }
+  }
+
+  /**
+   * Call the provider until it produces a customer-facing answer. When the
+   * model replies with a tool call, the tool is executed, the call and its
+   * result are appended as turns, and the model is asked again. When
+   * streaming, text is held back only until it is clear it isn't a tool call.
+   * Placeholders in tool arguments are swapped for the real values before
+   * the tool runs, and its result is masked before the model sees it.
+   * Every round's tokens are added to `meter`, including rounds the caller
+   * stops consuming partway. Each round goes through the provider chain, so
+   * a failing provider is retried or replaced by a fallback.
+   */
+  private async *runToolLoop(
+    request: LLMRequest,
+    toolCalls: ToolInvocation[],
+    meter: UsageMeter,
+    streaming: boolean,
+    redactor?: PiiRedactor
+  ): AsyncGenerator<string> {
+    const messages = [...request.messages];
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const roundRequest = { ...request, messages: [...messages] };
+      const startedAt = Date.now();
+      let text = '';
+
+      if (streaming) {
+        let decision: 'yes' | 'no' | 'maybe' = 'maybe';
+        let streamed = '';
+        let reported: TokenUsage | undefined;
+        let provider: LLMProvider | null = null;
+        try {
+          const chunks = this.chain.stream(
+            { ...roundRequest, onUsage: (usage) => (reported = usage) },
+            (answering) => (provider = answering)
+          );
+          for await (const chunk of chunks) {
+            streamed += chunk;
+            if (decision === 'no') {
+              yield chunk;
+              continue;
+            }
+            text += chunk;
+            decision = classifyToolCallPrefix(text);
+            if (decision === 'no') {
+              yield text;
+            }
+          }
+        } finally {
+          // Nothing to count when every provider failed before answering
+          if (provider) {
+            meter.add(provider, roundRequest, streamed, reported, startedAt);
+          }
+        }
+        if (decision === 'no') {
+          return;
+        }
+      } else {
+        const { provider, result } = await this.chain.generate(roundRequest);
+        text = result.text;
+        meter.add(provider, roundRequest, text, result.usage, startedAt);
       }
-      
-      if (error.message?.includes('timeout') || error.code === 'ETIMEDOUT') {
-        throw new Error('Request timed out. Please try again.');
+
+      const toolCall = parseToolCall(text);
+      if (!toolCall) {
+        if (classifyToolCallPrefix(text) !== 'yes') {
+          yield text;
+          return;
+        }
+        // Malformed call: ask the model to try again
+        messages.push(
+          { role: 'assistant', content: text.trim() },
+          { role: 'tool', name: 'error', content: 'The tool call could not be parsed. Reply with valid JSON in the TOOL_CALL format, or answer the customer directly.' }
+        );
+        continue;
       }
 
-      // Generic error handling
-      console.error('LLM Service Error:', error);
-      throw new Error(
-        error.message || 'Failed to generate reply. Please try again later.'
+      if (round === MAX_TOOL_ROUNDS) {
+        throw new Error(`Tool call limit of ${MAX_TOOL_ROUNDS} exceeded`);
+      }
+
+      const invocation = await this.tools.execute(
+        toolCall.name,
+        redactor ? redactor.unmaskDeep(toolCall.arguments) : toolCall.arguments
+      );
+      toolCalls.push(invocation);
+
+      const toolResult = invocation.status === 'success' ? invocation.result : { error: invocation.error };
+      messages.push(
+        { role: 'assistant', content: formatToolCall(toolCall) },
+        {
+          role: 'tool',
+          name: toolCall.name,
+          content: JSON.stringify(redactor ? redactor.maskDeep(toolResult) : toolResult),
+        }
       );
     }
+
+    throw new Error(`Tool call limit of ${MAX_TOOL_ROUNDS} exceeded`);
+  }
+
+  /**
+   * Assemble the prompt within the token budget. The instructions and the
+   * customer's message always go in. Knowledge base snippets may then take
+   * up to half of what is left, best match first, followed by the
+   * conversation summary and as many recent messages as fit, newest first.
+   */
+  private buildRequest(
+    userMessage: string,
+    context: ConversationContext,
+    tenant: Tenant,
+    redactor?: PiiRedactor
+  ): { request: LLMRequest; snippets: RetrievedSnippet[] } {
+    // Validate and truncate user message
+    if (!userMessage || userMessage.trim().length === 0) {
+      throw new Error('Message cannot be empty');
+    }
+
+    const earlier = earlierMessages(context);
+    userMessage = this.estimator.truncate(userMessage, MAX_MESSAGE_TOKENS);
+
+    // Build conversation history for context, masking PII in order so
+    // placeholders are numbered the same way on every turn
+    const mask = (text: string) => (redactor ? redactor.mask(text) : text);
+    const summary = context.summary ? mask(context.summary) : null;
+    const history: ChatTurn[] = earlier.map((msg) => ({
+      role: msg.sender === 'user' ? 'user' : 'assistant',
+      content: mask(msg.text),
+    }));
+    userMessage = mask(userMessage);
+
+    const count = (text: string) => this.estimator.count(text);
+    const toolInstructions = buildToolInstructions(this.tools.describe());
+    let remaining = this.promptTokenBudget - count(buildSystemPrompt(tenant, [], toolInstructions, null)) - count(userMessage);
+
+    // A snippet that doesn't fit leaves room for shorter, lower ranked ones
+    let knowledgeBudget = Math.floor(remaining / 2);
+    const snippets: RetrievedSnippet[] = [];
+    for (const snippet of retrieveSnippets(userMessage, earlier, tenant.id)) {
+      const tokens = count(formatSnippet(snippet));
+      if (tokens <= knowledgeBudget) {
+        snippets.push(snippet);
+        knowledgeBudget -= tokens;
+        remaining -= tokens;
+      }
+    }
+
+    const promptSummary = summary && remaining > 0 ? this.estimator.truncate(summary, remaining) : null;
+    remaining -= promptSummary ? count(promptSummary) : 0;
+
+    let start = history.length;
+    while (start > 0 && count(history[start - 1].content) <= remaining) {
+      remaining -= count(history[start - 1].content);
+      start--;
+    }
+    const messages: ChatTurn[] = [...history.slice(start), { role: 'user', content: userMessage }];
+
+    return {
+      request: {
+        system: buildSystemPrompt(tenant, snippets, toolInstructions, promptSummary),
+        messages,
+        maxOutputTokens: MAX_TOKENS,
+      },
+      snippets,
+    };
+  }
+
+  /**
+   * Turn a failure into a message fit for logs and callers. Provider
+   * failures were already counted and logged by the chain per call; other
+   * failures, such as an empty reply or too many tool rounds, are counted
+   * in `llm_errors_total` as `other`.
+   */
+  private classifyError(error: any): Error {
+    if (error instanceof LLMUnavailableError) {
+      return error;
+    }
+
+    llmErrorsTotal.inc({ provider: this.chain.primary.name, type: 'other' });
+    logger.error('LLM Service Error', { error });
+    return new Error(
+      error.message || 'Failed to generate reply. Please try again later.'
+    );
   }
 }
 
@@ -137,16 +692,56 @@ export function getLLMService(): LLMService {
     try {
       llmServiceInstance = new LLMService();
     } catch (error: any) {
-      console.error('Failed to initialize LLM service:', error.message);
+      logger.error('Failed to initialize LLM service', { error });
       throw error;
     }
   }
   return llmServiceInstance;
 }
 
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = { closed: 0, half_open: 1, open: 2 };
+
+new Gauge({
+  name: 'llm_circuit_state',
+  help: 'Circuit breaker state per LLM provider and model: 0 closed, 1 half-open, 2 open',
+  labelNames: ['provider', 'model'] as const,
+  registers: [metricsRegistry],
+  collect() {
+    this.reset();
+    for (const { provider, model, state } of llmServiceInstance?.circuitStates() ?? []) {
+      this.set({ provider, model }, CIRCUIT_STATE_VALUES[state]);
+    }
+  },
+});
+
 export const llmService = {
-  generateReply: async (userMessage: string, conversationHistory: MessageData[]) => {
-    return getLLMService().generateReply(userMessage, conversationHistory);
-  }
+  generateReply: async (
+    userMessage: string,
+    context: ConversationContext,
+    tenant: Tenant,
+    redactor?: PiiRedactor
+  ) => {
+    return getLLMService().generateReply(userMessage, context, tenant, redactor);
+  },
+  confidentialPromptText: (tenant: Tenant) => getLLMService().confidentialPromptText(tenant),
+  streamReply: (
+    userMessage: string,
+    context: ConversationContext,
+    tenant: Tenant,
+    signal?: AbortSignal,
+    redactor?: PiiRedactor
+  ) => {
+    return getLLMService().streamReply(userMessage, context, tenant, signal, redactor);
+  },
+  summarize: (previousSummary: string | null, turns: MessageData[], redactor?: PiiRedactor) => {
+    return getLLMService().summarize(previousSummary, turns, redactor);
+  },
+  degradedReply: (userMessage: string, context: ConversationContext, tenant: Tenant) => {
+    return getLLMService().degradedReply(userMessage, context, tenant);
+  },
+  // Doesn't need the provider, so it also covers a provider that failed to initialize
+  failedReply: (userMessage: string, context: ConversationContext, tenant: Tenant, error: unknown) => {
+    return failedReply(userMessage, context, tenant, error);
+  },
 };
 
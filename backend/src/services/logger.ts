@@ -0,0 +1,123 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFormat = 'json' | 'pretty';
+
+/** Extra fields of a log line; `error` is expanded to its name, message and stack */
+export type LogFields = Record<string, unknown>;
+
+/** What every log line written while handling a request carries */
+export interface RequestContext {
+  /** From the caller's `X-Request-Id`, or generated; sent back in the response */
+  requestId: string;
+  method: string;
+  path: string;
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `fn` with the request's context, so the log lines it writes,
+ * including from callbacks and promises it starts, are tagged with it
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return requestContext.run(context, fn);
+}
+
+export function currentRequestContext(): RequestContext | undefined {
+  return requestContext.getStore();
+}
+
+function serializeError(error: unknown): unknown {
+  if (!(error instanceof Error)) {
+    return error;
+  }
+  const { code, status } = error as Error & { code?: unknown; status?: unknown };
+  return {
+    name: error.name,
+    message: error.message,
+    ...(code !== undefined ? { code } : {}),
+    ...(status !== undefined ? { status } : {}),
+    stack: error.stack,
+  };
+}
+
+/**
+ * Server logs. In `json` format every line is one JSON object with the
+ * time, level, message, the current request's id, method and path, and the
+ * given fields, for log collectors to index. `pretty` writes readable
+ * lines for development.
+ */
+export class Logger {
+  constructor(private options: LoggerOptions) {}
+
+  debug(message: string, fields?: LogFields) {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.options.level)) {
+      return;
+    }
+    const context = currentRequestContext();
+    const { error, ...rest } = fields;
+    const stream = level === 'error' || level === 'warn' ? process.stderr : process.stdout;
+
+    if (this.options.format === 'json') {
+      const line = {
+        time: new Date().toISOString(),
+        level,
+        msg: message,
+        ...(context ?? {}),
+        ...rest,
+        ...(error !== undefined ? { error: serializeError(error) } : {}),
+      };
+      stream.write(`${JSON.stringify(line)}\n`);
+      return;
+    }
+
+    const prefix = context ? `[${context.requestId.slice(0, 8)}] ` : '';
+    const details = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : '';
+    const stack = error instanceof Error ? `\n${error.stack}` : error !== undefined ? ` ${String(error)}` : '';
+    stream.write(`${level.toUpperCase().padEnd(5)} ${prefix}${message}${details}${stack}\n`);
+  }
+}
+
+/**
+ * Build the logger from the environment:
+ * - `LOG_LEVEL`: `debug`, `info` (default), `warn` or `error`
+ * - `LOG_FORMAT`: `json` (default in production) or `pretty` (default otherwise)
+ */
+export function createLogger(env: NodeJS.ProcessEnv = process.env): Logger {
+  const level = (env.LOG_LEVEL || 'info') as LogLevel;
+  if (!LOG_LEVELS.includes(level)) {
+    throw new Error(`LOG_LEVEL must be one of: ${LOG_LEVELS.join(', ')}`);
+  }
+  const format = (env.LOG_FORMAT || (env.NODE_ENV === 'production' ? 'json' : 'pretty')) as LogFormat;
+  if (format !== 'json' && format !== 'pretty') {
+    throw new Error('LOG_FORMAT must be "json" or "pretty"');
+  }
+  return new Logger({ level, format });
+}
+
+export const logger = createLogger();
@@ -0,0 +1,95 @@
+import type { Database } from 'better-sqlite3';
+import { Counter, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+/**
+ * Prometheus metrics served at `/metrics`. Labels are kept to bounded sets
+ * (route patterns rather than URLs, SQL verbs rather than statements) so
+ * series don't grow with traffic.
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const httpRequestsTotal = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests handled, by route pattern and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'Time to respond to HTTP requests, by route pattern and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+export const llmRequestDuration = new Histogram({
+  name: 'llm_request_duration_seconds',
+  help: 'Latency of LLM provider calls, one per tool round',
+  labelNames: ['provider', 'model', 'purpose'] as const,
+  buckets: [0.25, 0.5, 1, 2, 4, 8, 15, 30, 60],
+  registers: [metricsRegistry],
+});
+
+export const llmErrorsTotal = new Counter({
+  name: 'llm_errors_total',
+  help: 'Failed LLM provider calls, by classified error type',
+  labelNames: ['provider', 'type'] as const,
+  registers: [metricsRegistry],
+});
+
+export const llmTokensTotal = new Counter({
+  name: 'llm_tokens_total',
+  help: 'LLM tokens used, reported by the provider or estimated',
+  labelNames: ['provider', 'model', 'purpose', 'direction'] as const,
+  registers: [metricsRegistry],
+});
+
+export const responseCacheLookupsTotal = new Counter({
+  name: 'response_cache_lookups_total',
+  help: 'Customer questions looked up in the response cache, by hit or miss',
+  labelNames: ['result'] as const,
+  registers: [metricsRegistry],
+});
+
+export const dbQueryDuration = new Histogram({
+  name: 'sqlite_query_duration_seconds',
+  help: 'Time spent running SQLite statements, by SQL verb',
+  labelNames: ['operation'] as const,
+  buckets: [0.0001, 0.0005, 0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1],
+  registers: [metricsRegistry],
+});
+
+const SQL_OPERATIONS = new Set(['select', 'insert', 'update', 'delete']);
+
+function sqlOperation(source: string): string {
+  const verb = source.trimStart().split(/\s/, 1)[0].toLowerCase();
+  return SQL_OPERATIONS.has(verb) ? verb : 'other';
+}
+
+/**
+ * Time every statement prepared on `db` from now on in
+ * `sqlite_query_duration_seconds`. Called once at server start, so CLI
+ * scripts sharing the connection aren't affected.
+ */
+export function instrumentDatabase(db: Database) {
+  const prepare = db.prepare.bind(db);
+  db.prepare = ((source: string) => {
+    const statement = prepare(source);
+    const operation = sqlOperation(source);
+    for (const method of ['run', 'get', 'all'] as const) {
+      const run = statement[method].bind(statement) as (...params: unknown[]) => unknown;
+      (statement as unknown as Record<string, unknown>)[method] = (...params: unknown[]) => {
+        const stopTimer = dbQueryDuration.startTimer({ operation });
+        try {
+          return run(...params);
+        } finally {
+          stopTimer();
+        }
+      };
+    }
+    return statement;
+  }) as Database['prepare'];
+}
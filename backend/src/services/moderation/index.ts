@@ -0,0 +1,189 @@
+import { knowledgeBaseService } from '../knowledgeBaseService.js';
+import { createInputRules } from './inputRules.js';
+import { createOutputRules } from './outputRules.js';
+import type {
+  InputContext,
+  ModerationAction,
+  ModerationDirection,
+  ModerationFlag,
+  ModerationRule,
+  ModerationVerdict,
+  OutputContext,
+  ReplyMaterial,
+  StoreDetails,
+} from './types.js';
+
+export type * from './types.js';
+
+/** Per-rule override from `MODERATION_ACTIONS`; `off` disables the rule */
+export type RuleActionSetting = Exclude<ModerationAction, 'allow'> | 'off';
+
+export const MODERATION_ACTIONS: ModerationAction[] = ['allow', 'flag', 'rewrite', 'block'];
+
+const SEVERITY: Record<ModerationAction, number> = { allow: 0, flag: 1, rewrite: 2, block: 3 };
+
+export function isModerationAction(value: string): value is ModerationAction {
+  return (MODERATION_ACTIONS as string[]).includes(value);
+}
+
+export const DEFAULT_BLOCK_REPLY =
+  "I'm sorry, I can't help with that here. Is there anything I can help you with about your order or our store policies?";
+
+type ModerationContext = InputContext | OutputContext;
+
+export interface ModerationResult {
+  verdict: ModerationVerdict;
+  /**
+   * Text to use from here on: rewritten if a rule rewrote it, and for
+   * blocked output, the safe reply
+   */
+  text: string;
+  /** Reply to send instead of the bot's answer, when a rule blocked the message */
+  blockReply: string | null;
+}
+
+/**
+ * Parse `MODERATION_ACTIONS`, e.g. `invented_price=block,abuse=flag,spam=off`
+ */
+export function parseRuleActions(value: string | undefined): Map<string, RuleActionSetting> {
+  const actions = new Map<string, RuleActionSetting>();
+  for (const entry of (value ?? '').split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [rule, action] = entry.split('=').map((part) => part.trim());
+    if (!rule || !['flag', 'rewrite', 'block', 'off'].includes(action)) {
+      throw new Error(`Invalid MODERATION_ACTIONS entry "${entry}". Expected rule=flag|rewrite|block|off`);
+    }
+    actions.set(rule, action as RuleActionSetting);
+  }
+  return actions;
+}
+
+/**
+ * Rule-based moderation of customer messages (input) and bot replies
+ * (output). Rules run in registration order; a rewrite is seen by the
+ * rules after it, and the most severe action decides the verdict.
+ */
+export class ModerationService {
+  private rules: ModerationRule<any>[] = [];
+  private actions: Map<string, RuleActionSetting>;
+
+  constructor(actions: Map<string, RuleActionSetting> = new Map()) {
+    this.actions = actions;
+  }
+
+  register(rule: ModerationRule<any>): this {
+    if (this.rules.some((existing) => existing.name === rule.name)) {
+      throw new Error(`Moderation rule "${rule.name}" is already registered`);
+    }
+    this.rules.push(rule);
+    return this;
+  }
+
+  list(): ModerationRule<any>[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Fail fast on overrides for rules that don't exist, e.g. a typo in
+   * `MODERATION_ACTIONS`
+   */
+  validateActions() {
+    for (const rule of this.actions.keys()) {
+      if (!this.rules.some((existing) => existing.name === rule)) {
+        throw new Error(
+          `Unknown moderation rule "${rule}" in MODERATION_ACTIONS. Known rules: ${this.rules.map((existing) => existing.name).join(', ')}`
+        );
+      }
+    }
+  }
+
+  moderateInput(text: string, context: InputContext): ModerationResult {
+    return this.run('input', text, context);
+  }
+
+  moderateOutput(text: string, context: OutputContext): ModerationResult {
+    return this.run('output', text, context);
+  }
+
+  /**
+   * What a reply may legitimately state: the store policy, the full
+   * knowledge base articles behind its sources and the results of the
+   * tools it called
+   */
+  createOutputContext(material: ReplyMaterial, store: StoreDetails, confidentialText: string[]): OutputContext {
+    const articles = (material.sources ?? []).map((source) => {
+      const article = knowledgeBaseService.getArticle(source.articleId);
+      return article ? `${article.title}\n${article.body}` : `${source.title}\n${source.snippet}`;
+    });
+    const toolResults = (material.toolCalls ?? []).map((call) => JSON.stringify(call.result ?? null));
+
+    return {
+      store,
+      groundingText: [store.policy, ...articles, ...toolResults].join('\n\n'),
+      confidentialText,
+    };
+  }
+
+  private run(direction: ModerationDirection, text: string, context: ModerationContext): ModerationResult {
+    let current = text;
+    let blockReply: string | null = null;
+    const flags: ModerationFlag[] = [];
+
+    for (const rule of this.rules) {
+      const action = this.actions.get(rule.name) ?? rule.defaultAction;
+      if (rule.direction !== direction || action === 'off') {
+        continue;
+      }
+
+      const match = rule.check(current, context);
+      if (!match) {
+        continue;
+      }
+
+      // Rules without a rewrite for this match fall back to flagging it
+      const taken = action === 'rewrite' && match.rewrite === undefined ? 'flag' : action;
+      flags.push({ rule: rule.name, action: taken, reason: match.reason });
+
+      if (taken === 'rewrite') {
+        current = match.rewrite!;
+      } else if (taken === 'block' && blockReply === null) {
+        blockReply = rule.blockReply ? rule.blockReply(context.store) : DEFAULT_BLOCK_REPLY;
+      }
+    }
+
+    const action = flags.reduce<ModerationAction>(
+      (worst, flag) => (SEVERITY[flag.action] > SEVERITY[worst] ? flag.action : worst),
+      'allow'
+    );
+
+    // Blocked input is kept as sent for review; blocked output is replaced
+    if (direction === 'output' && blockReply !== null) {
+      current = blockReply;
+    }
+
+    return {
+      verdict: {
+        direction,
+        action,
+        flags,
+        ...(current !== text ? { originalText: text } : {}),
+      },
+      text: current,
+      blockReply,
+    };
+  }
+}
+
+/**
+ * Service with the bundled rules; `MODERATION_ACTIONS` overrides their
+ * default actions
+ */
+export function createModerationServiceFromEnv(env: NodeJS.ProcessEnv = process.env): ModerationService {
+  const service = new ModerationService(parseRuleActions(env.MODERATION_ACTIONS));
+  for (const rule of [...createInputRules(), ...createOutputRules()]) {
+    service.register(rule);
+  }
+  service.validateActions();
+  return service;
+}
+
+export const moderationService = createModerationServiceFromEnv();
@@ -0,0 +1,97 @@
+import type { InputRule } from './types.js';
+
+const INJECTION_PATTERNS: RegExp[] = [
+  /\b(ignore|disregard|forget|override)\b.{0,30}\b(previous|prior|above|earlier|all|your|system)\b.{0,20}\b(instructions?|prompts?|rules|guidelines|directions)\b/i,
+  /\b(ignore|disregard|forget)\s+(the\s+)?(instructions?|prompts?)\b/i,
+  /\b(reveal|show|print|repeat|tell me|output)\b.{0,30}\b(system|hidden|initial|original)\s+(prompt|instructions?|message)\b/i,
+  /\byou\s+are\s+now\s+(a|an|my|in)\b/i,
+  /\b(pretend|act)\s+(to\s+be|as\s+(if|a|an))\b/i,
+  /\b(developer|debug|god|jailbreak)\s+mode\b/i,
+  /\bDAN\b/,
+  /\bdo\s+anything\s+now\b/i,
+  /^\s*(system|assistant)\s*:/im,
+  /\bTOOL_CALL\s*:/,
+];
+
+// Deliberately short: clear-cut insults and slurs, not everyday frustration
+const ABUSIVE_WORDS = [
+  'asshole', 'bastard', 'bitch', 'bullshit', 'cunt', 'dickhead', 'fuck', 'fucking', 'fucker',
+  'idiot', 'moron', 'motherfucker', 'retard', 'shit', 'shitty', 'wanker',
+];
+
+const ABUSE_PATTERN = new RegExp(`\\b(${ABUSIVE_WORDS.join('|')})s?\\b`, 'gi');
+
+const THREAT_PATTERN = /\b(i('| wi)ll|gonna|going to)\s+(kill|hurt|find|destroy)\s+(you|u)\b/i;
+
+const URL_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/gi;
+
+const MAX_URLS = 2;
+const MAX_REPEATED_CHARACTER_RUN = 20;
+// The same message this many times in a row counts as spam
+const MAX_IDENTICAL_MESSAGES = 3;
+
+export const promptInjectionRule: InputRule = {
+  name: 'prompt_injection',
+  direction: 'input',
+  defaultAction: 'block',
+  blockReply: (store) =>
+    `I can only help with questions about ${store.name} orders, shipping, returns and store policies. Could you rephrase your question?`,
+  check(text) {
+    const pattern = INJECTION_PATTERNS.find((candidate) => candidate.test(text));
+    return pattern ? { reason: 'Message tries to override the assistant instructions' } : null;
+  },
+};
+
+export const abuseRule: InputRule = {
+  name: 'abuse',
+  direction: 'input',
+  defaultAction: 'rewrite',
+  blockReply: () =>
+    "I'm here to help, but I can't continue with that language. If you're having trouble with an order, please let me know the details.",
+  check(text) {
+    if (THREAT_PATTERN.test(text)) {
+      return { reason: 'Threatening language' };
+    }
+
+    const words = text.match(ABUSE_PATTERN);
+    if (!words) {
+      return null;
+    }
+    return {
+      reason: `Abusive language (${new Set(words.map((word) => word.toLowerCase())).size} term(s))`,
+      rewrite: text.replace(ABUSE_PATTERN, (word) => word[0] + '*'.repeat(word.length - 1)),
+    };
+  },
+};
+
+export const spamRule: InputRule = {
+  name: 'spam',
+  direction: 'input',
+  defaultAction: 'block',
+  blockReply: () => "It looks like that message may have been sent by mistake. How can I help you today?",
+  check(text, context) {
+    const urls = text.match(URL_PATTERN) ?? [];
+    if (urls.length > MAX_URLS) {
+      return { reason: `Contains ${urls.length} links` };
+    }
+
+    if (new RegExp(`(.)\\1{${MAX_REPEATED_CHARACTER_RUN - 1},}`).test(text)) {
+      return { reason: 'Long run of a repeated character' };
+    }
+
+    const normalized = text.trim().toLowerCase();
+    const recent = context.previousMessages.slice(-(MAX_IDENTICAL_MESSAGES - 1));
+    if (
+      recent.length === MAX_IDENTICAL_MESSAGES - 1 &&
+      recent.every((message) => message.trim().toLowerCase() === normalized)
+    ) {
+      return { reason: `Same message sent ${MAX_IDENTICAL_MESSAGES} times in a row` };
+    }
+
+    return null;
+  },
+};
+
+export function createInputRules(): InputRule[] {
+  return [promptInjectionRule, abuseRule, spamRule];
+}
@@ -0,0 +1,130 @@
+import type { OutputRule } from './types.js';
+
+const PRICE_PATTERN =
+  /[$€£]\s?(\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)|\b(\d+(?:\.\d{1,2})?)\s?(?:USD|EUR|GBP|dollars|euros|pounds)\b/gi;
+
+const NUMBER_PATTERN = /\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g;
+
+const PROMISE_PATTERN =
+  /\b(guarantee[sd]?|i promise|we promise|we will (?:refund|replace|compensate|reimburse|waive|credit)|full refund|free of charge|at no (?:extra )?cost|discount code|coupon|price match(?:ing)?|compensation)\b/gi;
+
+// Words in a row that must match before text counts as copied from the prompt
+const LEAK_SHINGLE_SIZE = 8;
+
+const LEAK_MARKERS = [/IMPORTANT GUIDELINES/, /\bTOOL_CALL\s*:/];
+
+const HTML_PATTERN = /<\/?[a-z][\w-]*(?:\s[^<>]*)?\/?>|<!--[\s\S]*?-->/gi;
+
+const SCRIPT_LINK_PATTERN = /\]\(\s*(?:javascript|data|vbscript):[^)]*\)/gi;
+
+function amountsIn(text: string): Set<number> {
+  return new Set((text.match(NUMBER_PATTERN) ?? []).map((value) => parseFloat(value.replace(/,/g, ''))));
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function shingles(text: string): Set<string> {
+  const tokens = words(text);
+  const result = new Set<string>();
+  for (let i = 0; i + LEAK_SHINGLE_SIZE <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + LEAK_SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+// The prompt text is the same on every turn, so its shingles are kept
+const confidentialShingles = new Map<string, Set<string>>();
+
+function shinglesOfConfidential(text: string): Set<string> {
+  let cached = confidentialShingles.get(text);
+  if (!cached) {
+    // Quoted text is wording the bot is told to use, e.g. the out-of-scope reply
+    cached = shingles(text.replace(/"[^"]*"/g, ' '));
+    confidentialShingles.set(text, cached);
+  }
+  return cached;
+}
+
+export const inventedPriceRule: OutputRule = {
+  name: 'invented_price',
+  direction: 'output',
+  defaultAction: 'flag',
+  blockReply: (store) =>
+    `I'm not able to confirm pricing for that here. Please check the product page, or contact our support team at ${store.supportEmail}.`,
+  check(text, context) {
+    const grounded = amountsIn(context.groundingText);
+    const invented = Array.from(text.matchAll(PRICE_PATTERN))
+      .filter((match) => !grounded.has(parseFloat((match[1] ?? match[2]).replace(/,/g, ''))))
+      .map((match) => match[0].trim());
+
+    return invented.length > 0
+      ? { reason: `Prices not in the knowledge base or tool results: ${Array.from(new Set(invented)).join(', ')}` }
+      : null;
+  },
+};
+
+export const unsupportedPromiseRule: OutputRule = {
+  name: 'unsupported_promise',
+  direction: 'output',
+  defaultAction: 'flag',
+  blockReply: (store) =>
+    `I'd like to make sure you get an accurate answer on that. Please contact our support team at ${store.supportEmail} and they'll be happy to help.`,
+  check(text, context) {
+    const grounding = context.groundingText.toLowerCase();
+    const promises = Array.from(text.replace(/\bwe'll\b/gi, 'we will').matchAll(PROMISE_PATTERN))
+      .map((match) => match[0].toLowerCase())
+      .filter((phrase) => !grounding.includes(phrase));
+
+    return promises.length > 0
+      ? { reason: `Commitments not in the knowledge base: ${Array.from(new Set(promises)).join(', ')}` }
+      : null;
+  },
+};
+
+export const systemPromptLeakRule: OutputRule = {
+  name: 'system_prompt_leak',
+  direction: 'output',
+  defaultAction: 'block',
+  blockReply: () =>
+    "I'm sorry, I can't share that. Is there anything I can help you with about your order or our store policies?",
+  check(text, context) {
+    if (LEAK_MARKERS.some((marker) => marker.test(text))) {
+      return { reason: 'Reply contains internal prompt markers' };
+    }
+
+    const replyShingles = shingles(text);
+    for (const confidential of context.confidentialText) {
+      const copied = shinglesOfConfidential(confidential);
+      for (const shingle of replyShingles) {
+        if (copied.has(shingle)) {
+          return { reason: `Reply repeats system prompt text ("${shingle}...")` };
+        }
+      }
+    }
+    return null;
+  },
+};
+
+export const unsafeMarkupRule: OutputRule = {
+  name: 'unsafe_markup',
+  direction: 'output',
+  defaultAction: 'rewrite',
+  check(text) {
+    const hasHtml = new RegExp(HTML_PATTERN.source, 'i').test(text);
+    const hasScriptLink = new RegExp(SCRIPT_LINK_PATTERN.source, 'i').test(text);
+    if (!hasHtml && !hasScriptLink) {
+      return null;
+    }
+
+    return {
+      reason: hasHtml ? 'Reply contains raw HTML' : 'Reply contains a script link',
+      rewrite: text.replace(HTML_PATTERN, '').replace(SCRIPT_LINK_PATTERN, '](#)'),
+    };
+  },
+};
+
+export function createOutputRules(): OutputRule[] {
+  return [systemPromptLeakRule, inventedPriceRule, unsupportedPromiseRule, unsafeMarkupRule];
+}
@@ -0,0 +1,76 @@
+import type { MessageSource } from '../conversationService.js';
+import type { ToolInvocation } from '../tools/index.js';
+
+/**
+ * What happens to a message a rule matches, from least to most severe:
+ * - `flag`: kept as is, the verdict is recorded for review
+ * - `rewrite`: replaced by the rule's cleaned-up text
+ * - `block`: input isn't sent to the LLM; output is replaced by a safe reply
+ */
+export type ModerationAction = 'allow' | 'flag' | 'rewrite' | 'block';
+
+export type ModerationDirection = 'input' | 'output';
+
+export interface ModerationFlag {
+  rule: string;
+  action: Exclude<ModerationAction, 'allow'>;
+  reason: string;
+}
+
+/** Stored on each moderated message */
+export interface ModerationVerdict {
+  direction: ModerationDirection;
+  /** Most severe action taken, `allow` if no rule matched */
+  action: ModerationAction;
+  flags: ModerationFlag[];
+  /** Text before a rewrite or block replaced it */
+  originalText?: string;
+}
+
+/** The store a message belongs to, for safe replies and grounding */
+export interface StoreDetails {
+  name: string;
+  supportEmail: string;
+  /** Policy text the bot was given alongside the knowledge base */
+  policy: string;
+}
+
+export interface InputContext {
+  store: StoreDetails;
+  /** The customer's earlier messages in the conversation, oldest first */
+  previousMessages: string[];
+}
+
+export interface OutputContext {
+  store: StoreDetails;
+  /** Store policy, knowledge base articles and tool results the reply may draw on */
+  groundingText: string;
+  /** System prompt text the reply must never repeat */
+  confidentialText: string[];
+}
+
+export interface ReplyMaterial {
+  /** Knowledge base snippets that were placed in the prompt */
+  sources?: MessageSource[];
+  toolCalls?: ToolInvocation[];
+}
+
+export interface RuleMatch {
+  reason: string;
+  /** Cleaned-up text, for rules that support `rewrite` */
+  rewrite?: string;
+}
+
+export interface ModerationRule<TContext = unknown> {
+  name: string;
+  direction: ModerationDirection;
+  /** Action taken when the rule matches, unless overridden by configuration */
+  defaultAction: Exclude<ModerationAction, 'allow'>;
+  /** Reply sent instead of the bot's answer when this rule blocks a message */
+  blockReply?: (store: StoreDetails) => string;
+  check(text: string, context: TContext): RuleMatch | null;
+}
+
+export type InputRule = ModerationRule<InputContext> & { direction: 'input' };
+
+export type OutputRule = ModerationRule<OutputContext> & { direction: 'output' };
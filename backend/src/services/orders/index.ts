@@ -0,0 +1,7 @@
+import type { OrdersAdapter } from './types.js';
+import { SqliteOrdersAdapter } from './sqliteOrdersAdapter.js';
+
+export type * from './types.js';
+export { SqliteOrdersAdapter } from './sqliteOrdersAdapter.js';
+
+export const ordersAdapter: OrdersAdapter = new SqliteOrdersAdapter();
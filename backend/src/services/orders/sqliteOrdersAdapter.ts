@@ -0,0 +1,97 @@
+import { randomUUID } from 'crypto';
+import { dbInstance } from '../../db/database.js';
+import type { OrdersAdapter, OrderStatus, OrderSummary, ReturnResult, TrackingInfo } from './types.js';
+
+const RETURN_WINDOW_DAYS = 30;
+
+interface OrderRow {
+  id: string;
+  email: string;
+  status: OrderStatus;
+  items: string;
+  total: number;
+  placedAt: string;
+  deliveredAt: string | null;
+  carrier: string | null;
+  trackingNumber: string | null;
+  trackingEvents: string;
+}
+
+/**
+ * Orders adapter backed by the local `orders` table, which is seeded with
+ * fixture data on a fresh database.
+ */
+export class SqliteOrdersAdapter implements OrdersAdapter {
+  private findOrder(orderId: string, email: string): OrderRow | null {
+    const row = dbInstance
+      .prepare('SELECT * FROM orders WHERE id = ? COLLATE NOCASE AND email = ? COLLATE NOCASE')
+      .get(orderId.trim(), email.trim()) as OrderRow | undefined;
+
+    return row || null;
+  }
+
+  async getOrder(orderId: string, email: string): Promise<OrderSummary | null> {
+    const row = this.findOrder(orderId, email);
+    if (!row) {
+      return null;
+    }
+
+    return {
+      orderId: row.id,
+      status: row.status,
+      items: JSON.parse(row.items),
+      total: row.total,
+      placedAt: row.placedAt,
+      deliveredAt: row.deliveredAt,
+    };
+  }
+
+  async getTracking(orderId: string, email: string): Promise<TrackingInfo | null> {
+    const row = this.findOrder(orderId, email);
+    if (!row) {
+      return null;
+    }
+
+    return {
+      orderId: row.id,
+      status: row.status,
+      carrier: row.carrier,
+      trackingNumber: row.trackingNumber,
+      events: JSON.parse(row.trackingEvents),
+    };
+  }
+
+  async startReturn(orderId: string, email: string, reason: string): Promise<ReturnResult | null> {
+    const row = this.findOrder(orderId, email);
+    if (!row) {
+      return null;
+    }
+
+    if (row.status !== 'delivered' || !row.deliveredAt) {
+      return { accepted: false, orderId: row.id, reason: 'Only delivered orders can be returned.' };
+    }
+
+    const daysSinceDelivery = (Date.now() - new Date(row.deliveredAt).getTime()) / (24 * 60 * 60 * 1000);
+    if (daysSinceDelivery > RETURN_WINDOW_DAYS) {
+      return {
+        accepted: false,
+        orderId: row.id,
+        reason: `The ${RETURN_WINDOW_DAYS}-day return window for this order has closed.`,
+      };
+    }
+
+    const existing = dbInstance
+      .prepare('SELECT id FROM returns WHERE orderId = ?')
+      .get(row.id) as { id: string } | undefined;
+    if (existing) {
+      return { accepted: true, returnId: existing.id, orderId: row.id, status: 'requested' };
+    }
+
+    const returnId = randomUUID();
+    dbInstance
+      .prepare('INSERT INTO returns (id, orderId, reason, status, createdAt) VALUES (?, ?, ?, ?, ?)')
+      .run(returnId, row.id, reason, 'requested', new Date().toISOString());
+
+    return { accepted: true, returnId, orderId: row.id, status: 'requested' };
+  }
+}
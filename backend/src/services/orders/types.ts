@@ -0,0 +1,47 @@
+export type OrderStatus = 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+export interface OrderItem {
+  sku: string;
+  name: string;
+  quantity: number;
+  price: number;
+}
+
+export interface OrderSummary {
+  orderId: string;
+  status: OrderStatus;
+  items: OrderItem[];
+  total: number;
+  placedAt: string;
+  deliveredAt: string | null;
+}
+
+export interface TrackingEvent {
+  timestamp: string;
+  location: string;
+  description: string;
+}
+
+export interface TrackingInfo {
+  orderId: string;
+  status: OrderStatus;
+  carrier: string | null;
+  trackingNumber: string | null;
+  events: TrackingEvent[];
+}
+
+export type ReturnResult =
+  | { accepted: true; returnId: string; orderId: string; status: 'requested' }
+  | { accepted: false; orderId: string; reason: string };
+
+/**
+ * Access to order data for the bot's tools. Every lookup is keyed on the
+ * order id *and* the customer's email so the bot can never disclose an
+ * order to someone who only knows its number; a mismatch is reported the
+ * same way as an unknown order (`null`).
+ */
+export interface OrdersAdapter {
+  getOrder(orderId: string, email: string): Promise<OrderSummary | null>;
+  getTracking(orderId: string, email: string): Promise<TrackingInfo | null>;
+  startReturn(orderId: string, email: string, reason: string): Promise<ReturnResult | null>;
+}
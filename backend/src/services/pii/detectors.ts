@@ -0,0 +1,140 @@
+export interface PiiDetector {
+  /** Placeholder label, e.g. `EMAIL` produces `[EMAIL_1]` */
+  type: string;
+  /** Must have the global flag */
+  pattern: RegExp;
+  /** Extra check on a candidate match, e.g. a checksum */
+  validate?: (value: string) => boolean;
+}
+
+export interface PiiMatch {
+  type: string;
+  value: string;
+  start: number;
+  end: number;
+}
+
+export const BUILT_IN_DETECTOR_TYPES = ['email', 'phone', 'card', 'iban'] as const;
+
+export type BuiltInDetectorType = (typeof BUILT_IN_DETECTOR_TYPES)[number];
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+export function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 check: move the country code and check digits to the end,
+ * turn letters into numbers (A = 10 ... Z = 35) and take the result mod 97.
+ */
+export function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// Checked in this order; a span claimed by one detector is skipped by the
+// later ones, so the greedy phone pattern runs after cards and IBANs
+const BUILT_IN_DETECTORS: Record<BuiltInDetectorType, PiiDetector> = {
+  email: {
+    type: 'EMAIL',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  card: {
+    type: 'CARD',
+    pattern: /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g,
+    validate: (value) => {
+      const digits = digitsOf(value);
+      return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits);
+    },
+  },
+  iban: {
+    type: 'IBAN',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g,
+    validate: isValidIban,
+  },
+  phone: {
+    type: 'PHONE',
+    pattern: /(?<![\w+])\+?\(?\d[\d\s().-]{6,}\d(?!\w)/g,
+    // Local numbers need at least 10 digits so dates and amounts don't match
+    validate: (value) => {
+      const count = digitsOf(value).length;
+      return count <= 15 && count >= (value.startsWith('+') ? 8 : 10);
+    },
+  },
+};
+
+export function getBuiltInDetectors(types: readonly BuiltInDetectorType[]): PiiDetector[] {
+  return BUILT_IN_DETECTOR_TYPES.filter((type) => types.includes(type)).map((type) => BUILT_IN_DETECTORS[type]);
+}
+
+export function isBuiltInDetectorType(value: string): value is BuiltInDetectorType {
+  return (BUILT_IN_DETECTOR_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Detector for an operator-supplied regular expression. `type` becomes the
+ * placeholder label, so it is limited to uppercase letters, digits and `_`.
+ */
+export function createPatternDetector(type: string, source: string): PiiDetector {
+  if (!/^[A-Z][A-Z0-9_]*$/.test(type)) {
+    throw new Error(`Invalid PII pattern name "${type}": use uppercase letters, digits and underscores`);
+  }
+
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(source, 'g');
+  } catch (error: any) {
+    throw new Error(`Invalid PII pattern ${type}: ${error.message}`);
+  }
+  return { type, pattern };
+}
+
+/**
+ * Every detected value in `text`, in order of position. Overlapping
+ * candidates go to whichever detector comes first in `detectors`.
+ */
+export function findPii(text: string, detectors: PiiDetector[]): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  const overlaps = (start: number, end: number) =>
+    matches.some((match) => start < match.end && end > match.start);
+
+  for (const detector of detectors) {
+    for (const found of text.matchAll(detector.pattern)) {
+      const value = found[0];
+      const start = found.index ?? 0;
+      const end = start + value.length;
+      if (!value || overlaps(start, end) || (detector.validate && !detector.validate(value))) {
+        continue;
+      }
+      matches.push({ type: detector.type, value, start, end });
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
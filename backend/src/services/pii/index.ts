@@ -0,0 +1,249 @@
+import { randomUUID } from 'crypto';
+import { dbInstance } from '../../db/database.js';
+import {
+  BUILT_IN_DETECTOR_TYPES,
+  createPatternDetector,
+  findPii,
+  getBuiltInDetectors,
+  isBuiltInDetectorType,
+  type PiiDetector,
+} from './detectors.js';
+import { PII_TOKEN_PATTERN, PiiRedactor, type PiiEntry } from './redactor.js';
+import { PiiVault, parseVaultKey } from './vault.js';
+
+export { PiiRedactor, PII_TOKEN_PATTERN, type PiiEntry } from './redactor.js';
+export { findPii, passesLuhn, isValidIban, type PiiDetector, type PiiMatch } from './detectors.js';
+
+/**
+ * - `raw`: messages are stored as typed; values are only masked in the prompt
+ * - `redact`: messages are stored with placeholders and the originals go to
+ *   the encrypted vault
+ */
+export type PiiStorageMode = 'raw' | 'redact';
+
+export interface PiiConfig {
+  detectors: PiiDetector[];
+  storage: PiiStorageMode;
+  vaultKey: Buffer | null;
+}
+
+export interface RevealAudit {
+  reason?: string;
+  ip?: string;
+  userAgent?: string;
+  revealedBy?: string;
+}
+
+export interface RevealResult {
+  messageId: string;
+  conversationId: string;
+  /** Message text with the placeholders replaced by the original values */
+  text: string;
+  values: PiiEntry[];
+}
+
+export interface RevealLogEntry {
+  id: string;
+  messageId: string;
+  conversationId: string;
+  tokens: string[];
+  reason: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  /** User or API key that asked, e.g. `user:<id>` */
+  revealedBy: string | null;
+  revealedAt: string;
+}
+
+const REVEAL_LOG_COLUMNS = 'id, messageId, conversationId, tokens, reason, ip, userAgent, revealedBy, revealedAt';
+
+/**
+ * Read the redaction policy:
+ * - `PII_DETECTORS`: comma-separated built-in detectors (default: all), or `none`
+ * - `PII_CUSTOM_PATTERNS`: JSON object of extra detectors, `{"NAME": "regex"}`
+ * - `PII_STORAGE`: `raw` (default) or `redact`
+ * - `PII_VAULT_KEY`: 32-byte key for the vault, required with `redact`
+ */
+export function loadPiiConfig(env: NodeJS.ProcessEnv = process.env): PiiConfig {
+  const detectorNames = (env.PII_DETECTORS ?? BUILT_IN_DETECTOR_TYPES.join(','))
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name && name !== 'none');
+  for (const name of detectorNames) {
+    if (!isBuiltInDetectorType(name)) {
+      throw new Error(`Unknown PII detector "${name}". Expected any of: ${BUILT_IN_DETECTOR_TYPES.join(', ')}`);
+    }
+  }
+  const detectors = getBuiltInDetectors(detectorNames.filter(isBuiltInDetectorType));
+
+  if (env.PII_CUSTOM_PATTERNS) {
+    let patterns: unknown;
+    try {
+      patterns = JSON.parse(env.PII_CUSTOM_PATTERNS);
+    } catch (error: any) {
+      throw new Error(`PII_CUSTOM_PATTERNS is not valid JSON: ${error.message}`);
+    }
+    if (!patterns || typeof patterns !== 'object' || Array.isArray(patterns)) {
+      throw new Error('PII_CUSTOM_PATTERNS must be a JSON object of {"NAME": "regex"}');
+    }
+    for (const [name, source] of Object.entries(patterns)) {
+      detectors.push(createPatternDetector(name, String(source)));
+    }
+  }
+
+  const storage = (env.PII_STORAGE || 'raw').toLowerCase();
+  if (storage !== 'raw' && storage !== 'redact') {
+    throw new Error(`Unknown PII_STORAGE "${storage}". Expected one of: raw, redact`);
+  }
+
+  const vaultKey = env.PII_VAULT_KEY ? parseVaultKey(env.PII_VAULT_KEY) : null;
+  if (storage === 'redact' && !vaultKey) {
+    throw new Error('PII_VAULT_KEY must be set when PII_STORAGE=redact');
+  }
+
+  return { detectors, storage, vaultKey };
+}
+
+/**
+ * PII redaction policy. Customer text is always masked before it reaches
+ * the LLM; depending on `storage` it is also masked before it is saved,
+ * with the originals kept in the encrypted vault for audited reveals.
+ */
+export class PiiService {
+  private config: PiiConfig;
+  private vault: PiiVault | null;
+
+  constructor(config: PiiConfig) {
+    this.config = config;
+    this.vault = config.vaultKey ? new PiiVault(config.vaultKey) : null;
+  }
+
+  get storageMode(): PiiStorageMode {
+    return this.config.storage;
+  }
+
+  /**
+   * Redactor for masking a conversation in the LLM prompt, seeded with the
+   * placeholders already stored for it
+   */
+  createRedactor(conversationId: string): PiiRedactor {
+    return new PiiRedactor(this.config.detectors, this.vault ? this.vault.load(conversationId) : []);
+  }
+
+  /**
+   * Redactor for text about to be saved, or null when messages are stored
+   * as typed. New placeholders must be passed to `saveToVault`.
+   */
+  getStorageRedactor(conversationId: string): PiiRedactor | null {
+    return this.config.storage === 'redact' ? this.createRedactor(conversationId) : null;
+  }
+
+  /**
+   * Whether `text` holds anything the configured detectors would mask
+   */
+  containsPii(text: string): boolean {
+    return findPii(text, this.config.detectors).length > 0;
+  }
+
+  /**
+   * Conversations whose vault holds this email address. Empty without a
+   * vault, where messages are stored as typed and can be searched directly.
+   */
+  findConversationsByEmail(tenantId: string, email: string): string[] {
+    return this.vault ? this.vault.findConversations(tenantId, 'EMAIL', email) : [];
+  }
+
+  /**
+   * Delete the originals behind a conversation's placeholders for good,
+   * even if they were sealed under a key that is no longer configured
+   */
+  forget(conversationId: string) {
+    dbInstance.prepare('DELETE FROM pii_vault WHERE conversationId = ?').run(conversationId);
+  }
+
+  saveToVault(conversationId: string, entries: PiiEntry[]) {
+    if (entries.length > 0) {
+      this.vault?.save(conversationId, entries);
+    }
+  }
+
+  /**
+   * Original values behind the placeholders in a message. Every call is
+   * recorded in the reveal log. Returns null if the message doesn't exist
+   * or belongs to another tenant.
+   */
+  reveal(messageId: string, tenantId: string, audit: RevealAudit = {}): RevealResult | null {
+    const message = dbInstance
+      .prepare('SELECT id, conversationId, text FROM messages WHERE id = ? AND tenantId = ?')
+      .get(messageId, tenantId) as { id: string; conversationId: string; text: string } | undefined;
+    if (!message) {
+      return null;
+    }
+
+    const redactor = this.createRedactor(message.conversationId);
+    const tokens = new Set(message.text.match(PII_TOKEN_PATTERN) ?? []);
+    const values = redactor.entries.filter((entry) => tokens.has(entry.token));
+
+    dbInstance
+      .prepare(`
+        INSERT INTO pii_reveals (id, messageId, conversationId, tenantId, tokens, reason, ip, userAgent, revealedBy, revealedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        randomUUID(),
+        message.id,
+        message.conversationId,
+        tenantId,
+        JSON.stringify(values.map((entry) => entry.token)),
+        audit.reason || null,
+        audit.ip || null,
+        audit.userAgent || null,
+        audit.revealedBy || null,
+        new Date().toISOString()
+      );
+
+    return {
+      messageId: message.id,
+      conversationId: message.conversationId,
+      text: redactor.unmask(message.text),
+      values,
+    };
+  }
+
+  getRevealLog(filters: { tenantId: string; conversationId?: string; limit?: number; offset?: number }): RevealLogEntry[] {
+    let query = `SELECT ${REVEAL_LOG_COLUMNS} FROM pii_reveals WHERE tenantId = ?`;
+    const params: any[] = [filters.tenantId];
+
+    if (filters.conversationId) {
+      query += ' AND conversationId = ?';
+      params.push(filters.conversationId);
+    }
+
+    query += ' ORDER BY revealedAt DESC';
+
+    if (filters.limit !== undefined) {
+      query += ' LIMIT ?';
+      params.push(filters.limit);
+      if (filters.offset !== undefined) {
+        query += ' OFFSET ?';
+        params.push(filters.offset);
+      }
+    }
+
+    const rows = dbInstance.prepare(query).all(...params) as (Omit<RevealLogEntry, 'tokens'> & { tokens: string })[];
+    return rows.map((row) => ({ ...row, tokens: JSON.parse(row.tokens) }));
+  }
+
+  getRevealCount(tenantId: string, conversationId?: string): number {
+    const result = (
+      conversationId
+        ? dbInstance
+            .prepare('SELECT COUNT(*) as count FROM pii_reveals WHERE tenantId = ? AND conversationId = ?')
+            .get(tenantId, conversationId)
+        : dbInstance.prepare('SELECT COUNT(*) as count FROM pii_reveals WHERE tenantId = ?').get(tenantId)
+    ) as { count: number };
+    return result.count;
+  }
+}
+
+export const piiService = new PiiService(loadPiiConfig());
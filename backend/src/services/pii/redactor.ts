@@ -0,0 +1,129 @@
+import { findPii, type PiiDetector } from './detectors.js';
+
+export interface PiiEntry {
+  /** Placeholder that replaces the value, e.g. `[EMAIL_1]` */
+  token: string;
+  type: string;
+  value: string;
+}
+
+// Longest placeholder held back while streaming before giving up on it
+const MAX_TOKEN_LENGTH = 64;
+
+export const PII_TOKEN_PATTERN = /\[[A-Z][A-Z0-9_]*_\d+\]/g;
+
+function mapStrings(value: unknown, fn: (text: string) => string): unknown {
+  if (typeof value === 'string') {
+    return fn(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, fn));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)]));
+  }
+  return value;
+}
+
+/**
+ * Swaps detected values for numbered placeholders and back. One redactor
+ * covers one conversation: the same value always gets the same
+ * placeholder, so the model can still tell two different emails apart.
+ */
+export class PiiRedactor {
+  private detectors: PiiDetector[];
+  private entriesByToken = new Map<string, PiiEntry>();
+  private tokensByValue = new Map<string, string>();
+  private counters = new Map<string, number>();
+  private added: PiiEntry[] = [];
+
+  constructor(detectors: PiiDetector[], entries: PiiEntry[] = []) {
+    this.detectors = detectors;
+    for (const entry of entries) {
+      this.remember(entry);
+    }
+  }
+
+  /** Entries assigned by `mask` since the redactor was created */
+  get newEntries(): PiiEntry[] {
+    return [...this.added];
+  }
+
+  get entries(): PiiEntry[] {
+    return Array.from(this.entriesByToken.values());
+  }
+
+  mask(text: string): string {
+    const matches = findPii(text, this.detectors);
+    if (matches.length === 0) {
+      return text;
+    }
+
+    let result = '';
+    let position = 0;
+    for (const match of matches) {
+      result += text.slice(position, match.start) + this.tokenFor(match.type, match.value);
+      position = match.end;
+    }
+    return result + text.slice(position);
+  }
+
+  /** Put the original values back; unknown placeholders are left as they are */
+  unmask(text: string): string {
+    return text.replace(PII_TOKEN_PATTERN, (token) => this.entriesByToken.get(token)?.value ?? token);
+  }
+
+  /** `mask` applied to every string inside a JSON-like value */
+  maskDeep(value: unknown): unknown {
+    return mapStrings(value, (text) => this.mask(text));
+  }
+
+  /** `unmask` applied to every string inside a JSON-like value */
+  unmaskDeep(value: unknown): unknown {
+    return mapStrings(value, (text) => this.unmask(text));
+  }
+
+  /**
+   * Unmask streamed text. A chunk can end partway through a placeholder,
+   * so text from an unclosed `[` is held back until the rest arrives.
+   */
+  async *unmaskChunks(chunks: AsyncIterable<string>): AsyncGenerator<string> {
+    let pending = '';
+    for await (const chunk of chunks) {
+      pending += chunk;
+      const open = pending.lastIndexOf('[');
+      const holdBack =
+        open !== -1 && !pending.includes(']', open) && pending.length - open < MAX_TOKEN_LENGTH
+          ? pending.slice(open)
+          : '';
+      const ready = pending.slice(0, pending.length - holdBack.length);
+      pending = holdBack;
+      if (ready) {
+        yield this.unmask(ready);
+      }
+    }
+    if (pending) {
+      yield this.unmask(pending);
+    }
+  }
+
+  private tokenFor(type: string, value: string): string {
+    const existing = this.tokensByValue.get(`${type}\u0000${value}`);
+    if (existing) {
+      return existing;
+    }
+
+    const entry = { token: `[${type}_${(this.counters.get(type) ?? 0) + 1}]`, type, value };
+    this.remember(entry);
+    this.added.push(entry);
+    return entry.token;
+  }
+
+  private remember(entry: PiiEntry) {
+    this.entriesByToken.set(entry.token, entry);
+    this.tokensByValue.set(`${entry.type}\u0000${entry.value}`, entry.token);
+
+    const number = Number(entry.token.slice(entry.type.length + 2, -1));
+    this.counters.set(entry.type, Math.max(this.counters.get(entry.type) ?? 0, number || 0));
+  }
+}
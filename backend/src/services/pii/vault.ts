@@ -0,0 +1,90 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { dbInstance } from '../../db/database.js';
+import type { PiiEntry } from './redactor.js';
+
+const ALGORITHM = 'aes-256-gcm';
+
+interface VaultRow {
+  token: string;
+  type: string;
+  iv: Buffer;
+  authTag: Buffer;
+  ciphertext: Buffer;
+}
+
+/**
+ * Parse `PII_VAULT_KEY`: 32 bytes given as 64 hex characters or base64
+ */
+export function parseVaultKey(value: string): Buffer {
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new Error('PII_VAULT_KEY must be 32 bytes, given as 64 hex characters or base64');
+  }
+  return key;
+}
+
+/**
+ * Encrypted store for the original values behind redacted placeholders.
+ * Each value is sealed with AES-256-GCM; the conversation id and token are
+ * bound in as associated data, so a row copied to another conversation or
+ * placeholder fails to decrypt.
+ */
+export class PiiVault {
+  private key: Buffer;
+
+  constructor(key: Buffer) {
+    this.key = key;
+  }
+
+  save(conversationId: string, entries: PiiEntry[]) {
+    const insert = dbInstance.prepare(`
+      INSERT OR IGNORE INTO pii_vault (conversationId, token, type, iv, authTag, ciphertext, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const now = new Date().toISOString();
+
+    for (const entry of entries) {
+      const iv = randomBytes(12);
+      const cipher = createCipheriv(ALGORITHM, this.key, iv);
+      cipher.setAAD(Buffer.from(`${conversationId}:${entry.token}`));
+      const ciphertext = Buffer.concat([cipher.update(entry.value, 'utf8'), cipher.final()]);
+      insert.run(conversationId, entry.token, entry.type, iv, cipher.getAuthTag(), ciphertext, now);
+    }
+  }
+
+  /**
+   * Conversations of the tenant holding `value` as a `type` entry, compared
+   * case-insensitively. Decrypts every candidate conversation, so it is
+   * meant for occasional data subject requests.
+   */
+  findConversations(tenantId: string, type: string, value: string): string[] {
+    const candidates = dbInstance
+      .prepare(`
+        SELECT DISTINCT v.conversationId FROM pii_vault v
+        JOIN conversations c ON c.id = v.conversationId
+        WHERE c.tenantId = ? AND v.type = ?
+      `)
+      .all(tenantId, type) as { conversationId: string }[];
+
+    const wanted = value.toLowerCase();
+    return candidates
+      .map((row) => row.conversationId)
+      .filter((conversationId) =>
+        this.load(conversationId).some((entry) => entry.type === type && entry.value.toLowerCase() === wanted)
+      );
+  }
+
+  load(conversationId: string): PiiEntry[] {
+    const rows = dbInstance
+      .prepare('SELECT token, type, iv, authTag, ciphertext FROM pii_vault WHERE conversationId = ?')
+      .all(conversationId) as VaultRow[];
+
+    return rows.map((row) => {
+      const decipher = createDecipheriv(ALGORITHM, this.key, row.iv);
+      decipher.setAAD(Buffer.from(`${conversationId}:${row.token}`));
+      decipher.setAuthTag(row.authTag);
+      const value = Buffer.concat([decipher.update(row.ciphertext), decipher.final()]).toString('utf8');
+      return { token: row.token, type: row.type, value };
+    });
+  }
+}
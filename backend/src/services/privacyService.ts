@@ -0,0 +1,366 @@
+import { createHash, randomUUID } from 'crypto';
+import { dbInstance } from '../db/database.js';
+import { conversationService, type ConversationData, type MessageData } from './conversationService.js';
+import { feedbackService, type ConversationRating, type MessageFeedback } from './feedbackService.js';
+import { piiService } from './pii/index.js';
+
+export const PRIVACY_AUDIT_ACTIONS = [
+  'subject.lookup',
+  'subject.export',
+  'subject.erase',
+  'retention.delete',
+  'retention.anonymize',
+] as const;
+
+export type PrivacyAuditAction = (typeof PRIVACY_AUDIT_ACTIONS)[number];
+
+/**
+ * A customer making a data subject request, identified by the storefront's
+ * customer id and/or their email address
+ */
+export interface DataSubject {
+  customerId?: string;
+  email?: string;
+}
+
+export type SubjectMatch = 'customerId' | 'customerEmail' | 'messageText' | 'piiVault';
+
+export interface SubjectConversation {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  /** How the conversation was linked to the subject */
+  matchedBy: SubjectMatch[];
+}
+
+export interface SubjectExportConversation extends ConversationData {
+  /** Messages with PII placeholders restored */
+  messages: MessageData[];
+  feedback: MessageFeedback[];
+  rating: ConversationRating | null;
+}
+
+export interface SubjectExport {
+  tenantId: string;
+  subject: DataSubject;
+  exportedAt: string;
+  conversations: SubjectExportConversation[];
+}
+
+/** Who performed an audited action */
+export interface PrivacyActor {
+  /** User or API key, e.g. `user:<id>`, or `system:retention` */
+  actor: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface PrivacyAuditEntry {
+  id: string;
+  action: PrivacyAuditAction;
+  /** SHA-256 of the subject's identifiers; null for retention runs */
+  subjectHash: string | null;
+  conversationIds: string[];
+  details: Record<string, unknown> | null;
+  actor: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+interface AuditRow extends Omit<PrivacyAuditEntry, 'conversationIds' | 'details'> {
+  conversationIds: string;
+  details: string | null;
+}
+
+const AUDIT_COLUMNS = 'id, action, subjectHash, conversationIds, details, actor, ip, userAgent, createdAt';
+
+// Stored webhook payloads carry the conversation in one of these places
+const WEBHOOK_CONVERSATION_PATHS = [
+  '$.data.conversation.id',
+  '$.data.message.conversationId',
+  '$.data.feedback.conversationId',
+  '$.data.rating.conversationId',
+];
+
+const LOOSE_EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+/**
+ * Identifies a subject in the audit log without storing who they are. The
+ * same identifiers always hash the same, so later requests can be matched
+ * to earlier ones.
+ */
+export function hashSubject(subject: DataSubject): string {
+  const parts = [
+    subject.customerId !== undefined ? `customerId:${subject.customerId}` : '',
+    subject.email !== undefined ? `email:${subject.email.trim().toLowerCase()}` : '',
+  ];
+  return createHash('sha256').update(parts.join('\n')).digest('hex');
+}
+
+/**
+ * Data subject requests (find, export and erase everything linked to a
+ * customer), the deletion and anonymization used by retention, and the
+ * audit log both write to
+ */
+export class PrivacyService {
+  /**
+   * Conversations linked to the subject: by the customer id or email the
+   * storefront identified them with, or by their email address appearing
+   * in a message, whether stored as typed or sealed in the PII vault
+   */
+  findSubjectConversations(tenantId: string, subject: DataSubject): SubjectConversation[] {
+    const matches = new Map<string, Set<SubjectMatch>>();
+    const add = (ids: string[], match: SubjectMatch) => {
+      for (const id of ids) {
+        matches.set(id, (matches.get(id) ?? new Set()).add(match));
+      }
+    };
+    const ids = (rows: unknown[]) => (rows as { id: string }[]).map((row) => row.id);
+
+    if (subject.customerId !== undefined) {
+      add(
+        ids(dbInstance.prepare('SELECT id FROM conversations WHERE tenantId = ? AND customerId = ?').all(tenantId, subject.customerId)),
+        'customerId'
+      );
+    }
+
+    const email = subject.email?.trim().toLowerCase();
+    if (email && LOOSE_EMAIL_PATTERN.test(email)) {
+      add(
+        ids(dbInstance.prepare('SELECT id FROM conversations WHERE tenantId = ? AND lower(customerEmail) = ?').all(tenantId, email)),
+        'customerEmail'
+      );
+      // LIKE is case-insensitive for ASCII; escape its wildcards in the address
+      const pattern = `%${email.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+      add(
+        ids(
+          dbInstance
+            .prepare(`
+              SELECT DISTINCT c.id FROM messages m
+              JOIN conversations c ON c.id = m.conversationId
+              WHERE c.tenantId = ? AND m.text LIKE ? ESCAPE '\\'
+            `)
+            .all(tenantId, pattern)
+        ),
+        'messageText'
+      );
+      add(piiService.findConversationsByEmail(tenantId, email), 'piiVault');
+    }
+
+    if (matches.size === 0) {
+      return [];
+    }
+
+    const placeholders = [...matches.keys()].map(() => '?').join(', ');
+    const rows = dbInstance
+      .prepare(`
+        SELECT c.id, c.createdAt, c.updatedAt, COUNT(m.id) as messageCount
+        FROM conversations c
+        LEFT JOIN messages m ON m.conversationId = c.id
+        WHERE c.id IN (${placeholders})
+        GROUP BY c.id
+        ORDER BY c.createdAt ASC
+      `)
+      .all(...matches.keys()) as Omit<SubjectConversation, 'matchedBy'>[];
+
+    return rows.map((row) => ({ ...row, matchedBy: [...matches.get(row.id)!] }));
+  }
+
+  lookupSubject(tenantId: string, subject: DataSubject, actor: PrivacyActor): SubjectConversation[] {
+    const conversations = this.findSubjectConversations(tenantId, subject);
+    this.audit(tenantId, 'subject.lookup', conversations.map((conversation) => conversation.id), actor, {
+      subjectHash: hashSubject(subject),
+    });
+    return conversations;
+  }
+
+  /**
+   * Everything stored about the subject's conversations, with PII
+   * placeholders swapped back for the original values
+   */
+  exportSubject(tenantId: string, subject: DataSubject, actor: PrivacyActor): SubjectExport {
+    const conversations = this.findSubjectConversations(tenantId, subject).flatMap((match) => {
+      const conversation = conversationService.getConversationWithMessages(match.id, tenantId);
+      if (!conversation) {
+        return [];
+      }
+      const redactor = piiService.createRedactor(conversation.id);
+      const feedback = dbInstance
+        .prepare('SELECT * FROM message_feedback WHERE conversationId = ? ORDER BY createdAt ASC')
+        .all(conversation.id) as MessageFeedback[];
+      return [
+        redactor.unmaskDeep({
+          ...conversation,
+          feedback,
+          rating: feedbackService.getConversationRating(conversation.id),
+        }) as SubjectExportConversation,
+      ];
+    });
+
+    this.audit(tenantId, 'subject.export', conversations.map((conversation) => conversation.id), actor, {
+      subjectHash: hashSubject(subject),
+    });
+    return { tenantId, subject, exportedAt: new Date().toISOString(), conversations };
+  }
+
+  /**
+   * Hard-delete every conversation linked to the subject. Returns the ids
+   * that were deleted.
+   */
+  eraseSubject(tenantId: string, subject: DataSubject, actor: PrivacyActor): string[] {
+    return dbInstance.transaction(() => {
+      const conversationIds = this.findSubjectConversations(tenantId, subject).map((conversation) => conversation.id);
+      this.deleteConversations(conversationIds);
+      this.audit(tenantId, 'subject.erase', conversationIds, actor, { subjectHash: hashSubject(subject) });
+      return conversationIds;
+    })();
+  }
+
+  /**
+   * Delete conversations with everything that cascades from them (messages,
+   * sources, tool calls, feedback, PII vault) and the webhook deliveries
+   * that carry their content. LLM usage rows and the PII reveal log hold no
+   * content and are kept.
+   */
+  deleteConversations(conversationIds: string[]): void {
+    if (conversationIds.length === 0) {
+      return;
+    }
+    dbInstance.transaction(() => {
+      this.deleteWebhookDeliveries(conversationIds);
+      const remove = dbInstance.prepare('DELETE FROM conversations WHERE id = ?');
+      for (const id of conversationIds) {
+        remove.run(id);
+      }
+    })();
+  }
+
+  /**
+   * Strip the PII the detectors recognise from conversations, keeping them
+   * for statistics and search. Values are replaced by placeholders whose
+   * originals are deleted from the vault, identified customer details are
+   * cleared and webhook deliveries carrying the content are removed.
+   */
+  anonymizeConversations(conversationIds: string[]): void {
+    if (conversationIds.length === 0) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const messagesOf = dbInstance.prepare('SELECT id, text, moderation FROM messages WHERE conversationId = ?');
+    const updateMessage = dbInstance.prepare('UPDATE messages SET text = ?, moderation = ? WHERE id = ?');
+    const toolCallsOf = dbInstance.prepare('SELECT id, arguments, result, error FROM tool_invocations WHERE conversationId = ?');
+    const updateToolCall = dbInstance.prepare('UPDATE tool_invocations SET arguments = ?, result = ?, error = ? WHERE id = ?');
+    const feedbackOf = dbInstance.prepare('SELECT messageId, comment FROM message_feedback WHERE conversationId = ? AND comment IS NOT NULL');
+    const updateFeedback = dbInstance.prepare('UPDATE message_feedback SET comment = ? WHERE messageId = ?');
+
+    dbInstance.transaction(() => {
+      this.deleteWebhookDeliveries(conversationIds);
+
+      for (const conversationId of conversationIds) {
+        const conversation = conversationService.getConversation(conversationId);
+        if (!conversation) {
+          continue;
+        }
+        // Seeded with the vault, so values seen before keep their placeholder
+        const redactor = piiService.createRedactor(conversationId);
+        const mask = (text: string | null) => (text !== null ? redactor.mask(text) : null);
+        const maskJson = (json: string | null) => (json !== null ? JSON.stringify(redactor.maskDeep(JSON.parse(json))) : null);
+
+        for (const message of messagesOf.all(conversationId) as { id: string; text: string; moderation: string | null }[]) {
+          updateMessage.run(redactor.mask(message.text), maskJson(message.moderation), message.id);
+        }
+        const toolCalls = toolCallsOf.all(conversationId) as { id: string; arguments: string; result: string | null; error: string | null }[];
+        for (const call of toolCalls) {
+          updateToolCall.run(maskJson(call.arguments), maskJson(call.result), mask(call.error), call.id);
+        }
+        for (const feedback of feedbackOf.all(conversationId) as { messageId: string; comment: string }[]) {
+          updateFeedback.run(redactor.mask(feedback.comment), feedback.messageId);
+        }
+        dbInstance
+          .prepare('UPDATE conversation_ratings SET comment = ? WHERE conversationId = ?')
+          .run(mask(feedbackService.getConversationRating(conversationId)?.comment ?? null), conversationId);
+
+        dbInstance
+          .prepare(`
+            UPDATE conversations
+            SET customerId = NULL, customerName = NULL, customerEmail = NULL,
+                summary = ?, escalationReason = ?, anonymizedAt = ?
+            WHERE id = ?
+          `)
+          .run(mask(conversation.summary), mask(conversation.escalationReason), now, conversationId);
+
+        piiService.forget(conversationId);
+      }
+    })();
+  }
+
+  audit(
+    tenantId: string,
+    action: PrivacyAuditAction,
+    conversationIds: string[],
+    actor: PrivacyActor,
+    options: { subjectHash?: string; details?: Record<string, unknown> } = {}
+  ): void {
+    dbInstance
+      .prepare(`
+        INSERT INTO privacy_audit_log (id, tenantId, action, subjectHash, conversationIds, details, actor, ip, userAgent, createdAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        randomUUID(),
+        tenantId,
+        action,
+        options.subjectHash ?? null,
+        JSON.stringify(conversationIds),
+        options.details ? JSON.stringify(options.details) : null,
+        actor.actor,
+        actor.ip || null,
+        actor.userAgent || null,
+        new Date().toISOString()
+      );
+  }
+
+  getAuditLog(filters: { tenantId: string; action?: PrivacyAuditAction; limit: number; offset: number }): PrivacyAuditEntry[] {
+    const { where, params } = this.auditFilter(filters);
+    const rows = dbInstance
+      .prepare(`SELECT ${AUDIT_COLUMNS} FROM privacy_audit_log ${where} ORDER BY createdAt DESC LIMIT ? OFFSET ?`)
+      .all(...params, filters.limit, filters.offset) as AuditRow[];
+
+    return rows.map((row) => ({
+      ...row,
+      conversationIds: JSON.parse(row.conversationIds),
+      details: row.details !== null ? JSON.parse(row.details) : null,
+    }));
+  }
+
+  getAuditCount(filters: { tenantId: string; action?: PrivacyAuditAction }): number {
+    const { where, params } = this.auditFilter(filters);
+    const result = dbInstance
+      .prepare(`SELECT COUNT(*) as count FROM privacy_audit_log ${where}`)
+      .get(...params) as { count: number };
+    return result.count;
+  }
+
+  private auditFilter(filters: { tenantId: string; action?: PrivacyAuditAction }) {
+    const conditions = ['tenantId = ?'];
+    const params: unknown[] = [filters.tenantId];
+    if (filters.action) {
+      conditions.push('action = ?');
+      params.push(filters.action);
+    }
+    return { where: `WHERE ${conditions.join(' AND ')}`, params };
+  }
+
+  private deleteWebhookDeliveries(conversationIds: string[]) {
+    const placeholders = conversationIds.map(() => '?').join(', ');
+    const conversationOf = `COALESCE(${WEBHOOK_CONVERSATION_PATHS.map((path) => `json_extract(payload, '${path}')`).join(', ')})`;
+    dbInstance
+      .prepare(`DELETE FROM webhook_deliveries WHERE ${conversationOf} IN (${placeholders})`)
+      .run(...conversationIds);
+  }
+}
+
+export const privacyService = new PrivacyService();
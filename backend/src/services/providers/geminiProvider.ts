@@ -0,0 +1,64 @@
+import {
+  GoogleGenerativeAI,
+  type GenerateContentRequest,
+  type GenerateContentResponse,
+  type GenerativeModel,
+} from '@google/generative-ai';
+import type { LLMProvider, LLMRequest, LLMResult, TokenUsage } from './types.js';
+import { renderTranscriptPrompt } from './prompt.js';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+function toContentRequest(request: LLMRequest): GenerateContentRequest {
+  return {
+    contents: [{ role: 'user', parts: [{ text: renderTranscriptPrompt(request) }] }],
+    ...(request.maxOutputTokens ? { generationConfig: { maxOutputTokens: request.maxOutputTokens } } : {}),
+  };
+}
+
+// Returned by the API but not yet typed by the SDK version in use
+interface UsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+}
+
+function toTokenUsage(response: GenerateContentResponse): TokenUsage | undefined {
+  const metadata = (response as { usageMetadata?: UsageMetadata }).usageMetadata;
+  return metadata
+    ? { inputTokens: metadata.promptTokenCount ?? 0, outputTokens: metadata.candidatesTokenCount ?? 0 }
+    : undefined;
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private client: GenerativeModel;
+
+  constructor(apiKey: string, model: string = DEFAULT_GEMINI_MODEL) {
+    this.model = model;
+    this.client = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResult> {
+    const result = await this.client.generateContent(toContentRequest(request));
+    return { text: result.response.text(), usage: toTokenUsage(result.response) };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const result = await this.client.generateContentStream(toContentRequest(request));
+    for await (const chunk of result.stream) {
+      if (request.signal?.aborted) {
+        return;
+      }
+      const text = chunk.text();
+      if (text) {
+        yield text;
+      }
+    }
+
+    const usage = toTokenUsage(await result.response);
+    if (usage) {
+      request.onUsage?.(usage);
+    }
+  }
+}
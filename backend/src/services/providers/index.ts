@@ -0,0 +1,82 @@
+import type { LLMProvider } from './types.js';
+import { GeminiProvider } from './geminiProvider.js';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider.js';
+import { MockProvider } from './mockProvider.js';
+
+export type { LLMProvider, LLMRequest, LLMResult, ChatTurn, ChatRole, TokenUsage } from './types.js';
+export { GeminiProvider } from './geminiProvider.js';
+export { OpenAICompatibleProvider } from './openAICompatibleProvider.js';
+export { MockProvider } from './mockProvider.js';
+export {
+  ProviderChain,
+  CircuitBreaker,
+  LLMUnavailableError,
+  LLM_ERROR_TYPES,
+  classifyProviderError,
+  describeLLMError,
+  loadResilienceOptions,
+  type CircuitState,
+  type LLMAttempt,
+  type LLMErrorType,
+  type ResilienceOptions,
+} from './providerChain.js';
+
+const PROVIDER_NAMES = ['gemini', 'openai', 'mock'];
+
+/**
+ * Build a provider by name, with its credentials from the environment.
+ * Without `model` the provider's default model is used.
+ */
+export function createProvider(name: string, model: string | undefined, env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const providerName = name.toLowerCase();
+
+  switch (providerName) {
+    case 'gemini': {
+      const apiKey = env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY environment variable is not set');
+      }
+      return new GeminiProvider(apiKey, model);
+    }
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: env.OPENAI_BASE_URL,
+        apiKey: env.OPENAI_API_KEY,
+        model,
+      });
+    case 'mock':
+      return env.MOCK_LLM_SCRIPT
+        ? MockProvider.fromFile(env.MOCK_LLM_SCRIPT, model)
+        : new MockProvider(undefined, model);
+    default:
+      throw new Error(`Unknown LLM provider "${providerName}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+}
+
+/**
+ * Build the provider selected by `LLM_PROVIDER` (default: gemini).
+ * `LLM_MODEL` overrides the provider's default model.
+ */
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  return createProvider(env.LLM_PROVIDER || 'gemini', env.LLM_MODEL || undefined, env);
+}
+
+/**
+ * The configured provider followed by the fallbacks listed in
+ * `LLM_FALLBACKS`, comma-separated as `provider` or `provider:model`, e.g.
+ * `gemini:gemini-2.0-flash,openai:gpt-4o-mini`. A fallback may be another
+ * model of the same provider.
+ */
+export function createProvidersFromEnv(env: NodeJS.ProcessEnv = process.env): LLMProvider[] {
+  const fallbacks = (env.LLM_FALLBACKS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      return separator === -1
+        ? createProvider(entry, undefined, env)
+        : createProvider(entry.slice(0, separator), entry.slice(separator + 1) || undefined, env);
+    });
+  return [createProviderFromEnv(env), ...fallbacks];
+}
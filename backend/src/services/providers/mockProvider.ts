@@ -0,0 +1,141 @@
+import { readFileSync } from 'fs';
+import type { LLMProvider, LLMRequest, LLMResult } from './types.js';
+import { formatToolCall } from '../tools/protocol.js';
+
+export interface MockScriptRule {
+  /** Case-insensitive regular expression tested against the latest user turn */
+  match: string;
+  /** Reply text; `{{toolResult}}` is replaced with the tool result when `toolCall` is set */
+  reply: string;
+  /**
+   * Tool to call before replying. Argument values may reference named
+   * capture groups of `match` as `$<name>`.
+   */
+  toolCall?: { name: string; arguments: Record<string, string> };
+}
+
+export interface MockScript {
+  rules: MockScriptRule[];
+  fallback: string;
+}
+
+const DEFAULT_SCRIPT: MockScript = {
+  rules: [
+    {
+      // The email may arrive as a PII placeholder such as [EMAIL_1]
+      match: '(?<orderId>SPUR-\\d+)[\\s\\S]*?(?<email>[^\\s@]+@[^\\s@]+\\.[a-z]+|\\[EMAIL_\\d+\\])',
+      toolCall: { name: 'getOrderStatus', arguments: { orderId: '$<orderId>', email: '$<email>' } },
+      reply: "Here's what I found for your order:\n\n```json\n{{toolResult}}\n```",
+    },
+    {
+      match: '\\b(human|real person|agent)\\b',
+      toolCall: { name: 'requestHumanAgent', arguments: { reason: 'Customer asked for a human agent' } },
+      reply: "I've asked a member of our support team to join this conversation. They'll reply right here shortly.",
+    },
+    {
+      match: 'return|refund',
+      reply: 'We offer a **30-day return policy** for unused items in their original packaging. Refunds are processed within 5-7 business days after we receive the item.',
+    },
+    {
+      match: 'ship|deliver',
+      reply: '- **Standard shipping:** 5-7 business days, $5.99 (free over $50)\n- **Express shipping:** 2-3 business days, $12.99',
+    },
+    {
+      match: 'hours|open|support',
+      reply: 'Our support team is available **Monday to Friday, 9 AM - 6 PM EST** and **Saturday, 10 AM - 4 PM EST**. We are closed on Sundays.',
+    },
+  ],
+  fallback: "I don't have that specific information in my knowledge base, but I'd be happy to connect you with our human support team who can help you with that.",
+};
+
+/**
+ * Deterministic provider for tests and offline development. Replies are
+ * chosen by matching the latest user turn against an ordered list of
+ * rules; the first matching rule wins.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model: string;
+  private script: MockScript;
+
+  constructor(script: MockScript = DEFAULT_SCRIPT, model: string = 'mock-scripted') {
+    this.script = script;
+    this.model = model;
+  }
+
+  static fromFile(filePath: string, model?: string): MockProvider {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf-8')) as Partial<MockScript>;
+    return new MockProvider(
+      {
+        rules: parsed.rules ?? [],
+        fallback: parsed.fallback ?? DEFAULT_SCRIPT.fallback,
+      },
+      model
+    );
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResult> {
+    return { text: this.pickReply(request) };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    // Split on word boundaries, keeping whitespace, so chunks concatenate
+    // back into exactly the scripted reply
+    for (const chunk of this.pickReply(request).split(/(?<=\s)/)) {
+      if (request.signal?.aborted) {
+        return;
+      }
+      yield chunk;
+    }
+  }
+
+  private pickReply(request: LLMRequest): string {
+    if (request.purpose === 'summary') {
+      return this.summarize(request);
+    }
+    if (request.purpose === 'judge') {
+      return 'PASS\nThe mock provider does not grade answers.';
+    }
+
+    const lastTurn = request.messages[request.messages.length - 1];
+    const lastUserTurn = [...request.messages].reverse().find((turn) => turn.role === 'user');
+    const text = lastUserTurn?.content ?? '';
+
+    for (const rule of this.script.rules) {
+      const match = new RegExp(rule.match, 'i').exec(text);
+      if (!match) {
+        continue;
+      }
+
+      if (!rule.toolCall) {
+        return rule.reply;
+      }
+
+      // Call the tool first, then answer once its result comes back
+      if (lastTurn?.role === 'tool') {
+        return rule.reply.replace('{{toolResult}}', lastTurn.content);
+      }
+
+      const args = Object.fromEntries(
+        Object.entries(rule.toolCall.arguments).map(([key, value]) => [
+          key,
+          value.replace(/\$<(\w+)>/g, (_, group: string) => match.groups?.[group] ?? ''),
+        ])
+      );
+      return formatToolCall({ name: rule.toolCall.name, arguments: args });
+    }
+
+    return this.script.fallback;
+  }
+
+  /**
+   * Summaries quote every customer line of the prompt, which includes the
+   * previous summary, so they accumulate like a real one would
+   */
+  private summarize(request: LLMRequest): string {
+    const lines = request.messages
+      .flatMap((turn) => turn.content.split('\n'))
+      .filter((line) => line.startsWith('Customer: '));
+    return [...new Set(lines)].join('\n') || 'The customer has not said anything yet.';
+  }
+}
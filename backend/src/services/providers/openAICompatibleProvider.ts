@@ -0,0 +1,128 @@
+import type { LLMProvider, LLMRequest, LLMResult, TokenUsage } from './types.js';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: CompletionUsage;
+  error?: { message?: string };
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  /** Sent in a final chunk with no choices when `stream_options.include_usage` is set */
+  usage?: CompletionUsage | null;
+}
+
+function toTokenUsage(usage: CompletionUsage | null | undefined): TokenUsage | undefined {
+  return usage ? { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 } : undefined;
+}
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API,
+ * which includes OpenAI itself as well as local servers such as Ollama
+ * and llama.cpp. The API key is optional because local servers rarely
+ * require one.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(options: { baseUrl?: string; apiKey?: string; model?: string } = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model || DEFAULT_OPENAI_MODEL;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResult> {
+    const response = await this.post(request, false);
+    const data = (await response.json().catch(() => ({}))) as ChatCompletionResponse;
+    return { text: data.choices?.[0]?.message?.content ?? '', usage: toTokenUsage(data.usage) };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      return;
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+
+        if (!line.startsWith('data:')) {
+          continue;
+        }
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') {
+          return;
+        }
+
+        const chunk = JSON.parse(payload) as ChatCompletionChunk;
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) {
+          yield text;
+        }
+        const usage = toTokenUsage(chunk.usage);
+        if (usage) {
+          request.onUsage?.(usage);
+        }
+      }
+    }
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: request.system },
+          ...request.messages.map((turn) =>
+            turn.role === 'tool'
+              ? { role: 'user', content: `Tool result (${turn.name ?? 'tool'}): ${turn.content}` }
+              : { role: turn.role, content: turn.content }
+          ),
+        ],
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        ...(request.maxOutputTokens ? { max_tokens: request.maxOutputTokens } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as ChatCompletionResponse;
+      if (response.status === 401 || response.status === 403) {
+        throw new Error(`Invalid API_KEY for OpenAI-compatible provider: ${data.error?.message || response.statusText}`);
+      }
+      if (response.status === 429) {
+        throw new Error(`OpenAI-compatible provider rate limit: ${data.error?.message || response.statusText}`);
+      }
+      throw new Error(data.error?.message || `OpenAI-compatible provider returned HTTP ${response.status}`);
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,33 @@
+import type { ChatTurn, LLMRequest } from './types.js';
+
+export function renderTurn(turn: ChatTurn): string {
+  switch (turn.role) {
+    case 'user':
+      return `Customer: ${turn.content}`;
+    case 'assistant':
+      return `Support Agent: ${turn.content}`;
+    case 'tool':
+      return `Tool result (${turn.name ?? 'tool'}): ${turn.content}`;
+  }
+}
+
+/**
+ * Flatten a request into the single transcript-style prompt used by
+ * completion-style models (system text, previous turns, then an open
+ * "Support Agent:" line for the model to complete).
+ */
+export function renderTranscriptPrompt(request: LLMRequest): string {
+  const turns = [...request.messages];
+  // The customer's latest message is shown apart from the history, unless
+  // the model is continuing after a tool result
+  const current = turns[turns.length - 1]?.role === 'user' ? turns.pop() : undefined;
+
+  const historyText = turns.map(renderTurn).join('\n');
+
+  return `${request.system}
+
+Previous conversation:
+${historyText || 'This is the start of the conversation.'}
+
+${current ? `${renderTurn(current)}\n` : ''}Support Agent:`;
+}
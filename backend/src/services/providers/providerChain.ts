@@ -0,0 +1,364 @@
+import type { LLMProvider, LLMRequest, LLMResult } from './types.js';
+import { llmErrorsTotal } from '../metrics.js';
+import { logger } from '../logger.js';
+import { jitteredBackoff, nonNegativeInteger, positiveInteger } from '../helpers.js';
+
+export const LLM_ERROR_TYPES = ['invalid_key', 'rate_limit', 'timeout', 'unavailable', 'circuit_open', 'other'] as const;
+
+export type LLMErrorType = (typeof LLM_ERROR_TYPES)[number];
+
+// Failures worth trying the same provider again for
+const TRANSIENT_ERRORS = new Set<LLMErrorType>(['rate_limit', 'timeout', 'unavailable']);
+
+const NETWORK_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_SOCKET']);
+
+/** A provider call that failed, or was skipped because its circuit was open */
+export interface LLMAttempt {
+  provider: string;
+  model: string;
+  type: LLMErrorType;
+  message: string;
+}
+
+export function classifyProviderError(error: any): LLMErrorType {
+  const message: string = error?.message ?? '';
+  const code = error?.code ?? error?.cause?.code;
+
+  if (message.includes('API_KEY')) {
+    return 'invalid_key';
+  }
+  if (message.includes('quota') || message.includes('rate limit') || /\b429\b/.test(message)) {
+    return 'rate_limit';
+  }
+  if (message.includes('timeout') || message.includes('timed out') || code === 'ETIMEDOUT') {
+    return 'timeout';
+  }
+  if (
+    NETWORK_ERROR_CODES.has(code) ||
+    message.includes('fetch failed') ||
+    /\b50[0-4]\b|overloaded|unavailable/i.test(message)
+  ) {
+    return 'unavailable';
+  }
+  return 'other';
+}
+
+/**
+ * Message fit for logs and API callers. Errors of type `other` keep their
+ * own message.
+ */
+export function describeLLMError(type: LLMErrorType, provider: string, message?: string): string {
+  switch (type) {
+    case 'invalid_key':
+      return `Invalid API key for the "${provider}" LLM provider. Please check your environment configuration.`;
+    case 'rate_limit':
+      return 'API rate limit exceeded. Please try again in a moment.';
+    case 'timeout':
+      return 'Request timed out. Please try again.';
+    case 'unavailable':
+      return `The "${provider}" LLM provider is unavailable. Please try again later.`;
+    case 'circuit_open':
+      return `The "${provider}" LLM provider is failing and calls to it are paused. Please try again later.`;
+    default:
+      return message || 'Failed to generate reply. Please try again later.';
+  }
+}
+
+/**
+ * Every provider in the chain failed or was skipped. `type` is the last
+ * failure of a provider that was actually called.
+ */
+export class LLMUnavailableError extends Error {
+  readonly type: LLMErrorType;
+
+  constructor(readonly attempts: LLMAttempt[]) {
+    const last = [...attempts].reverse().find((attempt) => attempt.type !== 'circuit_open') ?? attempts[attempts.length - 1];
+    const type = last?.type ?? 'other';
+    super(describeLLMError(type, last?.provider ?? 'unknown', last?.message));
+    this.name = 'LLMUnavailableError';
+    this.type = type;
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Stops calling a provider after `failureThreshold` failed calls in a row.
+ * Once `cooldownMs` has passed, one trial call is let through: if it
+ * succeeds the circuit closes, otherwise it stays open for another cooldown.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private options: { failureThreshold: number; cooldownMs: number }) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return Date.now() - this.openedAt >= this.options.cooldownMs ? 'half_open' : 'open';
+  }
+
+  /** Whether a call may go out now; in the half-open state this claims the trial call */
+  tryAcquire(): boolean {
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half_open':
+        if (this.trialInFlight) {
+          return false;
+        }
+        this.trialInFlight = true;
+        return true;
+    }
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.openedAt !== null || this.failures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+  }
+
+  /** A call that ended without telling whether the provider works, e.g. aborted by the caller */
+  release() {
+    this.trialInFlight = false;
+  }
+}
+
+export interface ResilienceOptions {
+  /** Deadline of one provider call; for streams, until the first chunk and then between chunks */
+  timeoutMs: number;
+  /** Retries of a transient failure on the same provider before moving on to the next */
+  maxRetries: number;
+  /** First retry delay, doubled for each further retry */
+  retryBaseMs: number;
+  retryMaxMs: number;
+  /** Failed calls in a row after which a provider's circuit opens */
+  circuitFailureThreshold: number;
+  circuitCooldownMs: number;
+}
+
+interface ChainEntry {
+  provider: LLMProvider;
+  breaker: CircuitBreaker;
+}
+
+function deadlineError(timeoutMs: number): Error {
+  return Object.assign(new Error(`LLM call timed out after ${timeoutMs} ms`), { code: 'ETIMEDOUT' });
+}
+
+/**
+ * Run `call` with a signal that aborts when the caller's does or when
+ * `timeoutMs` passes. The deadline also rejects on its own, for providers
+ * whose SDK ignores the signal.
+ */
+async function withDeadline<T>(
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  call: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const deadline = new AbortController();
+  const timer = setTimeout(() => deadline.abort(deadlineError(timeoutMs)), timeoutMs);
+  const expired = new Promise<never>((_, reject) => {
+    deadline.signal.addEventListener('abort', () => reject(deadline.signal.reason), { once: true });
+  });
+  try {
+    return await Promise.race([call(signal ? AbortSignal.any([signal, deadline.signal]) : deadline.signal), expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Streams natively where the provider can, otherwise yields its whole
+ * reply as one chunk
+ */
+async function* streamFrom(provider: LLMProvider, request: LLMRequest): AsyncGenerator<string> {
+  if (provider.stream) {
+    yield* provider.stream(request);
+    return;
+  }
+  const result = await provider.generate(request);
+  if (result.usage) {
+    request.onUsage?.(result.usage);
+  }
+  yield result.text;
+}
+
+/**
+ * The configured provider followed by its fallbacks, in order. Each call
+ * gets a deadline, transient failures are retried with jittered backoff,
+ * and a provider that keeps failing is skipped by its circuit breaker until
+ * it recovers. When a provider gives up the next one is tried; when all of
+ * them have, an LLMUnavailableError lists every attempt.
+ */
+export class ProviderChain {
+  private entries: ChainEntry[];
+
+  constructor(
+    providers: LLMProvider[],
+    private options: ResilienceOptions
+  ) {
+    if (providers.length === 0) {
+      throw new Error('At least one LLM provider is required');
+    }
+    this.entries = providers.map((provider) => ({
+      provider,
+      breaker: new CircuitBreaker({
+        failureThreshold: options.circuitFailureThreshold,
+        cooldownMs: options.circuitCooldownMs,
+      }),
+    }));
+  }
+
+  get primary(): LLMProvider {
+    return this.entries[0].provider;
+  }
+
+  circuitStates(): { provider: string; model: string; state: CircuitState }[] {
+    return this.entries.map(({ provider, breaker }) => ({ provider: provider.name, model: provider.model, state: breaker.state }));
+  }
+
+  async generate(request: LLMRequest): Promise<{ provider: LLMProvider; result: LLMResult }> {
+    const { provider, value } = await this.run(request, (provider, signal) => provider.generate({ ...request, signal }));
+    return { provider, result: value };
+  }
+
+  /**
+   * Stream from the first provider that starts answering. Retries and
+   * fallbacks only apply until the first chunk arrives, since the caller
+   * may already have passed text on; after that, a stalled or failed stream
+   * ends with the error. `onProvider` learns which provider is answering
+   * before the first chunk is yielded.
+   */
+  async *stream(request: LLMRequest, onProvider: (provider: LLMProvider) => void): AsyncGenerator<string> {
+    const { provider, value } = await this.run(request, async (provider, signal) => {
+      // Each attempt's call can be aborted after the first chunk, once the
+      // deadline passed to run no longer applies
+      const attempt = new AbortController();
+      const iterator = streamFrom(provider, { ...request, signal: AbortSignal.any([signal, attempt.signal]) });
+      return { iterator, attempt, first: await iterator.next() };
+    });
+    onProvider(provider);
+
+    const { iterator, attempt } = value;
+    const breaker = this.entries.find((entry) => entry.provider === provider)!.breaker;
+    let next = value.first;
+    try {
+      while (!next.done) {
+        yield next.value;
+        next = await withDeadline(this.options.timeoutMs, request.signal, () => iterator.next());
+      }
+    } catch (error) {
+      if (!request.signal?.aborted) {
+        this.recordFailure(provider, breaker, error, 1);
+      }
+      throw error;
+    } finally {
+      // Close the provider's connection when the caller stops early or the
+      // stream stalls, and let it clean up
+      attempt.abort();
+      void iterator.return(undefined).catch(() => {});
+    }
+  }
+
+  private async run<T>(
+    request: LLMRequest,
+    call: (provider: LLMProvider, signal: AbortSignal) => Promise<T>
+  ): Promise<{ provider: LLMProvider; value: T }> {
+    const attempts: LLMAttempt[] = [];
+
+    for (const { provider, breaker } of this.entries) {
+      if (!breaker.tryAcquire()) {
+        attempts.push({ provider: provider.name, model: provider.model, type: 'circuit_open', message: 'Circuit open' });
+        continue;
+      }
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const value = await withDeadline(this.options.timeoutMs, request.signal, (signal) => call(provider, signal));
+          breaker.recordSuccess();
+          return { provider, value };
+        } catch (error: any) {
+          // An abort requested by the caller is not the provider's fault
+          if (request.signal?.aborted) {
+            breaker.release();
+            throw error;
+          }
+          const type = this.recordFailure(provider, breaker, error, attempt);
+          attempts.push({ provider: provider.name, model: provider.model, type, message: error?.message ?? String(error) });
+
+          if (!TRANSIENT_ERRORS.has(type) || attempt > this.options.maxRetries || !breaker.tryAcquire()) {
+            break;
+          }
+          await wait(jitteredBackoff(attempt, this.options.retryBaseMs, this.options.retryMaxMs), request.signal);
+        }
+      }
+    }
+
+    throw new LLMUnavailableError(attempts);
+  }
+
+  private recordFailure(provider: LLMProvider, breaker: CircuitBreaker, error: any, attempt: number): LLMErrorType {
+    const type = classifyProviderError(error);
+    breaker.recordFailure();
+    llmErrorsTotal.inc({ provider: provider.name, type });
+    logger.warn('LLM call failed', {
+      provider: provider.name,
+      model: provider.model,
+      type,
+      attempt,
+      circuit: breaker.state,
+      message: error?.message ?? String(error),
+    });
+    return type;
+  }
+}
+
+/**
+ * Read the resilience settings from the environment:
+ * - `LLM_TIMEOUT_MS`: deadline of one provider call, 30000 by default
+ * - `LLM_MAX_RETRIES`: retries of a rate-limited, timed out or unavailable
+ *   provider before falling back, 2 by default (0 disables retries)
+ * - `LLM_RETRY_BASE_MS`: first retry delay, doubled per retry, 500 by default
+ * - `LLM_CIRCUIT_FAILURE_THRESHOLD`: failed calls in a row that open a
+ *   provider's circuit, 5 by default
+ * - `LLM_CIRCUIT_COOLDOWN_MS`: how long an open circuit skips the provider
+ *   before a trial call, 30000 by default
+ */
+export function loadResilienceOptions(env: NodeJS.ProcessEnv = process.env): ResilienceOptions {
+  return {
+    timeoutMs: positiveInteger(env, 'LLM_TIMEOUT_MS', 30000),
+    maxRetries: nonNegativeInteger(env, 'LLM_MAX_RETRIES', 2),
+    retryBaseMs: positiveInteger(env, 'LLM_RETRY_BASE_MS', 500),
+    retryMaxMs: 8000,
+    circuitFailureThreshold: positiveInteger(env, 'LLM_CIRCUIT_FAILURE_THRESHOLD', 5),
+    circuitCooldownMs: positiveInteger(env, 'LLM_CIRCUIT_COOLDOWN_MS', 30000),
+  };
+}
@@ -0,0 +1,45 @@
+export type ChatRole = 'user' | 'assistant' | 'tool';
+
+export interface ChatTurn {
+  role: ChatRole;
+  content: string;
+  /** Tool name, for `tool` turns carrying a tool result */
+  name?: string;
+}
+
+export interface LLMRequest {
+  system: string;
+  messages: ChatTurn[];
+  maxOutputTokens?: number;
+  /** Aborts the underlying provider call when the client goes away */
+  signal?: AbortSignal;
+  /** What the output is for; a customer reply unless set */
+  purpose?: 'reply' | 'summary' | 'judge';
+  /** Called by `stream` with the provider's token counts, if it reports them, once the stream ends */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/** Token counts as billed by the provider */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResult {
+  text: string;
+  /** Left out by providers that don't report token counts */
+  usage?: TokenUsage;
+}
+
+/**
+ * A backend capable of producing a support reply from a system prompt and
+ * a list of chat turns. Implementations must throw on transport or API
+ * failures so LLMService can classify the error.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(request: LLMRequest): Promise<LLMResult>;
+  /** Yield the reply in text chunks as the provider produces them */
+  stream?(request: LLMRequest): AsyncIterable<string>;
+}
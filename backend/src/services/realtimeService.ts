@@ -0,0 +1,102 @@
+import type { ConversationStatus, MessageSender } from '../db/database.js';
+import type { ConversationData, MessageData } from './conversationService.js';
+import { logger } from './logger.js';
+import { positiveInteger } from './helpers.js';
+
+export const REALTIME_EVENTS = ['message.created', 'typing', 'conversation.status'] as const;
+
+export type RealtimeEventType = (typeof REALTIME_EVENTS)[number];
+
+/** A message as the customer sees it in their history */
+export type PushedMessage = Pick<MessageData, 'id' | 'conversationId' | 'sender' | 'text' | 'timestamp'>;
+
+export type RealtimeEvent =
+  | { type: 'message.created'; message: PushedMessage }
+  /** The bot is writing a reply, or the assigned agent is typing */
+  | { type: 'typing'; sender: Exclude<MessageSender, 'user'>; active: boolean }
+  | { type: 'conversation.status'; status: ConversationStatus; assignedAgent: string | null };
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+export interface RealtimeOptions {
+  /** How often open streams get a keep-alive and their session token is checked again */
+  heartbeatMs: number;
+  /** Open streams per conversation, e.g. one per browser tab */
+  maxStreamsPerConversation: number;
+}
+
+export function statusEvent(conversation: ConversationData): RealtimeEvent {
+  return { type: 'conversation.status', status: conversation.status, assignedAgent: conversation.assignedAgent };
+}
+
+/**
+ * Pushes conversation activity to the customer's open widgets. Services
+ * publish once their change is committed; `/chat/events` subscribes one
+ * listener per open stream. Listeners live in this process only, which
+ * matches the single SQLite database the server runs against.
+ */
+export class RealtimeService {
+  private listeners = new Map<string, Set<RealtimeListener>>();
+
+  constructor(readonly options: RealtimeOptions) {}
+
+  /**
+   * Listen to a conversation's events. Returns the function that stops
+   * listening, or null when the conversation already has
+   * `maxStreamsPerConversation` listeners.
+   */
+  subscribe(conversationId: string, listener: RealtimeListener): (() => void) | null {
+    const listeners = this.listeners.get(conversationId) ?? new Set<RealtimeListener>();
+    if (listeners.size >= this.options.maxStreamsPerConversation) {
+      return null;
+    }
+    listeners.add(listener);
+    this.listeners.set(conversationId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.listeners.get(conversationId) === listeners) {
+        this.listeners.delete(conversationId);
+      }
+    };
+  }
+
+  /**
+   * Send an event to everyone listening to the conversation. A failing
+   * listener doesn't stop the others or the caller.
+   */
+  publish(conversationId: string, event: RealtimeEvent): void {
+    const listeners = this.listeners.get(conversationId);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of [...listeners]) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('Realtime listener error', { conversationId, error });
+      }
+    }
+  }
+
+  listenerCount(conversationId: string): number {
+    return this.listeners.get(conversationId)?.size ?? 0;
+  }
+}
+
+/**
+ * Build the service from the environment:
+ * - `REALTIME_HEARTBEAT_MS`: keep-alive interval of open streams, 25000 by
+ *   default, below the usual 30-60 second proxy idle timeouts. Streams whose
+ *   session token was revoked or expired are closed at the next heartbeat
+ * - `REALTIME_MAX_STREAMS_PER_CONVERSATION`: open streams allowed per
+ *   conversation, 5 by default
+ */
+export function createRealtimeService(env: NodeJS.ProcessEnv = process.env): RealtimeService {
+  return new RealtimeService({
+    heartbeatMs: positiveInteger(env, 'REALTIME_HEARTBEAT_MS', 25000),
+    maxStreamsPerConversation: positiveInteger(env, 'REALTIME_MAX_STREAMS_PER_CONVERSATION', 5),
+  });
+}
+
+export const realtimeService = createRealtimeService();
@@ -0,0 +1,403 @@
+import { createHash, randomUUID } from 'crypto';
+import { dbInstance } from '../db/database.js';
+import type { MessageSource } from './conversationService.js';
+import { knowledgeBaseService } from './knowledgeBaseService.js';
+import type { ConversationContext, GeneratedReply } from './llmService.js';
+import { piiService } from './pii/index.js';
+import type { Tenant } from './tenantService.js';
+import { responseCacheLookupsTotal } from './metrics.js';
+import { DAY_MS, positiveInteger, ratio } from './helpers.js';
+
+const ENTRY_COLUMNS = 'id, question, reply, sources, hits, createdAt, lastUsedAt, expiresAt';
+
+export interface ResponseCacheOptions {
+  /** Off: every question goes to the LLM and nothing is stored */
+  enabled: boolean;
+  /**
+   * Trigram similarity (0-1) a question needs to reuse a cached reply; 1
+   * only reuses replies to the same question after normalization
+   */
+  similarityThreshold: number;
+  ttlMs: number;
+  /** Entries kept per tenant; the least recently used go first */
+  maxEntries: number;
+}
+
+/**
+ * How the cache answered a bot turn, stored on the reply
+ */
+export interface ResponseCacheResult {
+  status: 'hit' | 'miss';
+  /** The entry reused on a hit */
+  entryId?: string;
+  /** Normalized question the entry was stored for */
+  question?: string;
+  similarity?: number;
+}
+
+/**
+ * A question looked up in the cache. On a miss, the reply the LLM writes is
+ * stored under the same key.
+ */
+export interface CacheLookup {
+  result: ResponseCacheResult;
+  /** The cached reply on a hit */
+  reply: GeneratedReply | null;
+  question: string;
+  knowledgeVersion: string;
+}
+
+export interface ResponseCacheEntry {
+  id: string;
+  question: string;
+  reply: string;
+  sources: MessageSource[];
+  hits: number;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+}
+
+export interface ResponseCacheDay {
+  date: string;
+  lookups: number;
+  hits: number;
+  hitRate: number | null;
+}
+
+export interface ResponseCacheStats {
+  /** Entries that can currently be served */
+  entries: number;
+  lookups: number;
+  hits: number;
+  /** Share of lookups answered from the cache (0-1), null with no lookups */
+  hitRate: number | null;
+  /** One entry per day for the last `days` days, oldest first */
+  daily: ResponseCacheDay[];
+}
+
+interface EntryRow {
+  id: string;
+  question: string;
+  reply: string;
+  sources: string;
+  hits: number;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+}
+
+function toEntry(row: EntryRow): ResponseCacheEntry {
+  return { ...row, sources: JSON.parse(row.sources) as MessageSource[] };
+}
+
+/**
+ * Lowercase, without accents, apostrophes or punctuation, so "What's your
+ * return policy?" and "whats your return policy" are the same question
+ */
+export function normalizeQuestion(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Character trigrams of each word, padded like PostgreSQL's pg_trgm so
+ * word starts weigh more than word ends
+ */
+function trigrams(question: string): Set<string> {
+  const result = new Set<string>();
+  for (const word of question.split(' ')) {
+    const padded = `  ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      result.add(padded.slice(i, i + 3));
+    }
+  }
+  return result;
+}
+
+/**
+ * Only a conversation's opening question is answered from or stored in the
+ * cache; the question itself is its only message
+ */
+function isOpeningTurn(context: ConversationContext): boolean {
+  return !context.summary && context.messages.length <= 1;
+}
+
+function numbersIn(question: string): string {
+  return (question.match(/\p{N}+/gu) ?? []).sort().join(' ');
+}
+
+/**
+ * Jaccard similarity (0-1) of two normalized questions' trigrams. Questions
+ * mentioning different numbers, such as two order numbers, never match.
+ */
+export function questionSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if (numbersIn(a) !== numbersIn(b)) {
+    return 0;
+  }
+  const left = trigrams(a);
+  const right = trigrams(b);
+  let shared = 0;
+  for (const trigram of left) {
+    if (right.has(trigram)) {
+      shared++;
+    }
+  }
+  const total = left.size + right.size - shared;
+  return total > 0 ? shared / total : 0;
+}
+
+/**
+ * Reuses bot replies for repeated questions, such as shipping costs or the
+ * return window, instead of calling the LLM again. Entries are keyed on the
+ * normalized question plus a hash of the knowledge base and store policy,
+ * so editing either stops old replies from being served. Only replies to a
+ * conversation's opening question that used no tools are stored, since
+ * later replies can depend on earlier turns or on the customer's orders.
+ */
+export class ResponseCacheService {
+  constructor(readonly options: ResponseCacheOptions) {}
+
+  /**
+   * Hash of everything a cached reply was written from besides the
+   * question: the enabled knowledge base articles, persona, policy and
+   * support contacts
+   */
+  knowledgeVersion(tenant: Tenant): string {
+    return createHash('sha256')
+      .update(JSON.stringify([
+        knowledgeBaseService.getVersion(tenant.id),
+        tenant.persona,
+        tenant.policy,
+        tenant.supportEmail,
+        tenant.supportPhone,
+        tenant.supportHours,
+      ]))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  /**
+   * Find a cached reply to the customer's question. Returns null when the
+   * cache doesn't apply: it is disabled, the question holds PII, or it is a
+   * follow-up whose answer depends on the conversation so far.
+   */
+  lookup(tenant: Tenant, text: string, context: ConversationContext): CacheLookup | null {
+    const question = normalizeQuestion(text);
+    if (!this.options.enabled || !question || !isOpeningTurn(context) || piiService.containsPii(text)) {
+      return null;
+    }
+
+    const knowledgeVersion = this.knowledgeVersion(tenant);
+    const rows = dbInstance
+      .prepare(`
+        SELECT ${ENTRY_COLUMNS} FROM response_cache
+        WHERE tenantId = ? AND knowledgeVersion = ? AND expiresAt > ?
+      `)
+      .all(tenant.id, knowledgeVersion, new Date().toISOString()) as EntryRow[];
+
+    let best: { row: EntryRow; similarity: number } | null = null;
+    for (const row of rows) {
+      const similarity = questionSimilarity(question, row.question);
+      if (similarity >= this.options.similarityThreshold && similarity > (best?.similarity ?? 0)) {
+        best = { row, similarity };
+      }
+    }
+
+    if (!best) {
+      responseCacheLookupsTotal.inc({ result: 'miss' });
+      return { result: { status: 'miss' }, reply: null, question, knowledgeVersion };
+    }
+
+    dbInstance
+      .prepare('UPDATE response_cache SET hits = hits + 1, lastUsedAt = ? WHERE id = ?')
+      .run(new Date().toISOString(), best.row.id);
+    responseCacheLookupsTotal.inc({ result: 'hit' });
+
+    return {
+      result: {
+        status: 'hit',
+        entryId: best.row.id,
+        question: best.row.question,
+        similarity: Math.round(best.similarity * 1000) / 1000,
+      },
+      reply: { text: best.row.reply, sources: JSON.parse(best.row.sources) as MessageSource[], toolCalls: [] },
+      question,
+      knowledgeVersion,
+    };
+  }
+
+  /**
+   * Store the LLM's reply after a miss. Replies that used tools, failed or
+   * answered a follow-up question are skipped. Returns whether it was stored.
+   */
+  store(
+    tenantId: string,
+    lookup: CacheLookup,
+    context: ConversationContext,
+    reply: Pick<GeneratedReply, 'text' | 'sources' | 'toolCalls' | 'failure'>
+  ): boolean {
+    if (
+      lookup.result.status !== 'miss' ||
+      !isOpeningTurn(context) ||
+      reply.toolCalls.length > 0 ||
+      reply.failure ||
+      !reply.text.trim()
+    ) {
+      return false;
+    }
+
+    const now = new Date();
+    dbInstance.transaction(() => {
+      // Entries written from an older knowledge base can't match any more
+      dbInstance
+        .prepare('DELETE FROM response_cache WHERE tenantId = ? AND (knowledgeVersion != ? OR expiresAt <= ?)')
+        .run(tenantId, lookup.knowledgeVersion, now.toISOString());
+
+      dbInstance
+        .prepare(`
+          INSERT INTO response_cache (id, tenantId, knowledgeVersion, question, reply, sources, createdAt, lastUsedAt, expiresAt)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (tenantId, knowledgeVersion, question) DO UPDATE SET
+            reply = excluded.reply,
+            sources = excluded.sources,
+            hits = 0,
+            createdAt = excluded.createdAt,
+            lastUsedAt = excluded.lastUsedAt,
+            expiresAt = excluded.expiresAt
+        `)
+        .run(
+          randomUUID(),
+          tenantId,
+          lookup.knowledgeVersion,
+          lookup.question,
+          reply.text,
+          JSON.stringify(reply.sources),
+          now.toISOString(),
+          now.toISOString(),
+          new Date(now.getTime() + this.options.ttlMs).toISOString()
+        );
+
+      dbInstance
+        .prepare(`
+          DELETE FROM response_cache WHERE id IN (
+            SELECT id FROM response_cache WHERE tenantId = ?
+            ORDER BY lastUsedAt DESC
+            LIMIT -1 OFFSET ?
+          )
+        `)
+        .run(tenantId, this.options.maxEntries);
+    })();
+
+    return true;
+  }
+
+  /**
+   * Entries that can currently be served, most recently used first
+   */
+  listEntries(tenant: Tenant, limit: number = 50, offset: number = 0): ResponseCacheEntry[] {
+    const rows = dbInstance
+      .prepare(`
+        SELECT ${ENTRY_COLUMNS} FROM response_cache
+        WHERE tenantId = ? AND knowledgeVersion = ? AND expiresAt > ?
+        ORDER BY lastUsedAt DESC
+        LIMIT ? OFFSET ?
+      `)
+      .all(tenant.id, this.knowledgeVersion(tenant), new Date().toISOString(), limit, offset) as EntryRow[];
+    return rows.map(toEntry);
+  }
+
+  countEntries(tenant: Tenant): number {
+    const result = dbInstance
+      .prepare('SELECT COUNT(*) AS count FROM response_cache WHERE tenantId = ? AND knowledgeVersion = ? AND expiresAt > ?')
+      .get(tenant.id, this.knowledgeVersion(tenant), new Date().toISOString()) as { count: number };
+    return result.count;
+  }
+
+  /**
+   * Delete every entry of the tenant, e.g. after a change the knowledge
+   * version doesn't cover. Returns how many were deleted.
+   */
+  clear(tenantId: string): number {
+    return dbInstance.prepare('DELETE FROM response_cache WHERE tenantId = ?').run(tenantId).changes;
+  }
+
+  /**
+   * Hit rate of bot replies that consulted the cache, overall and per day
+   */
+  getStats(tenant: Tenant, days: number): ResponseCacheStats {
+    const totals = dbInstance
+      .prepare(`
+        SELECT COUNT(*) AS lookups, COALESCE(SUM(cacheStatus = 'hit'), 0) AS hits
+        FROM messages
+        WHERE tenantId = ? AND cacheStatus IS NOT NULL
+      `)
+      .get(tenant.id) as { lookups: number; hits: number };
+
+    const since = new Date(Date.now() - (days - 1) * DAY_MS).toISOString().slice(0, 10);
+    const rows = dbInstance
+      .prepare(`
+        SELECT substr(timestamp, 1, 10) AS date, COUNT(*) AS lookups, SUM(cacheStatus = 'hit') AS hits
+        FROM messages
+        WHERE tenantId = ? AND cacheStatus IS NOT NULL AND timestamp >= ?
+        GROUP BY date
+      `)
+      .all(tenant.id, since) as { date: string; lookups: number; hits: number }[];
+    const byDate = new Map(rows.map((row) => [row.date, row]));
+
+    const daily: ResponseCacheDay[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+      const date = new Date(Date.now() - i * DAY_MS).toISOString().slice(0, 10);
+      const lookups = byDate.get(date)?.lookups ?? 0;
+      const hits = byDate.get(date)?.hits ?? 0;
+      daily.push({ date, lookups, hits, hitRate: ratio(hits, lookups) });
+    }
+
+    return {
+      entries: this.countEntries(tenant),
+      lookups: totals.lookups,
+      hits: totals.hits,
+      hitRate: ratio(totals.hits, totals.lookups),
+      daily,
+    };
+  }
+}
+
+function similarity(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = env[name] ? Number(env[name]) : fallback;
+  if (!Number.isFinite(value) || value <= 0 || value > 1) {
+    throw new Error(`${name} must be a number above 0 and at most 1`);
+  }
+  return value;
+}
+
+/**
+ * Build the service from the environment:
+ * - `RESPONSE_CACHE_DISABLED`: `true` to send every question to the LLM
+ * - `RESPONSE_CACHE_SIMILARITY`: trigram similarity a question needs to
+ *   reuse a cached reply, 0.85 by default. Differences in case,
+ *   punctuation or apostrophes always match and a dropped letter in a long
+ *   word usually does ("shiping"), while swapped letters ("retrun"), "whats"
+ *   against "what is" and "opened item" against "unopened item" fall below
+ * - `RESPONSE_CACHE_TTL_MINUTES`: how long a reply is reused, 1440 (a day)
+ *   by default
+ * - `RESPONSE_CACHE_MAX_ENTRIES`: entries kept per tenant, 500 by default
+ */
+export function createResponseCacheService(env: NodeJS.ProcessEnv = process.env): ResponseCacheService {
+  return new ResponseCacheService({
+    enabled: env.RESPONSE_CACHE_DISABLED !== 'true',
+    similarityThreshold: similarity(env, 'RESPONSE_CACHE_SIMILARITY', 0.85),
+    ttlMs: positiveInteger(env, 'RESPONSE_CACHE_TTL_MINUTES', 1440) * 60 * 1000,
+    maxEntries: positiveInteger(env, 'RESPONSE_CACHE_MAX_ENTRIES', 500),
+  });
+}
+
+export const responseCacheService = createResponseCacheService();
@@ -0,0 +1,197 @@
+import { dbInstance } from '../db/database.js';
+import { privacyService, type PrivacyActor } from './privacyService.js';
+import { tenantService, type Tenant } from './tenantService.js';
+import { logger } from './logger.js';
+import { DAY_MS, optionalPositiveInteger } from './helpers.js';
+
+// Conversations deleted or anonymized per transaction
+const BATCH_SIZE = 500;
+// Conversation ids listed per action in a report; the audit log has them all
+const REPORT_ID_LIMIT = 100;
+
+const SYSTEM_ACTOR: PrivacyActor = { actor: 'system:retention' };
+
+/**
+ * Days of inactivity after which conversations are deleted or anonymized;
+ * null for never
+ */
+export interface RetentionRules {
+  deleteAfterDays: number | null;
+  anonymizeAfterDays: number | null;
+}
+
+export interface RetentionOptions {
+  /** Rules for tenants that don't set their own */
+  defaults: RetentionRules;
+  intervalMs: number;
+  /** Scheduled runs only report what they would do */
+  dryRun: boolean;
+}
+
+export interface RetentionAction {
+  /** Conversations last active before this were affected */
+  cutoff: string;
+  count: number;
+  /** The first affected conversations, oldest first */
+  conversationIds: string[];
+}
+
+export interface RetentionReport {
+  tenantId: string;
+  dryRun: boolean;
+  rules: RetentionRules;
+  ranAt: string;
+  /** Null when the tenant has no such rule */
+  deleted: RetentionAction | null;
+  anonymized: RetentionAction | null;
+}
+
+function batches<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    result.push(items.slice(i, i + BATCH_SIZE));
+  }
+  return result;
+}
+
+/**
+ * Applies each tenant's retention rules on a schedule: conversations
+ * inactive longer than `deleteAfterDays` are deleted, and those inactive
+ * longer than `anonymizeAfterDays` have their PII stripped. Every run that
+ * changes data is written to the privacy audit log.
+ */
+export class RetentionService {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private options: RetentionOptions) {}
+
+  rulesFor(tenant: Tenant): RetentionRules {
+    return {
+      deleteAfterDays: tenant.retentionDeleteAfterDays ?? this.options.defaults.deleteAfterDays,
+      anonymizeAfterDays: tenant.retentionAnonymizeAfterDays ?? this.options.defaults.anonymizeAfterDays,
+    };
+  }
+
+  /**
+   * Apply the tenant's rules now. With `dryRun`, nothing is changed and the
+   * report lists what would be.
+   */
+  run(tenant: Tenant, options: { dryRun?: boolean; actor?: PrivacyActor } = {}): RetentionReport {
+    const dryRun = options.dryRun ?? false;
+    const actor = options.actor ?? SYSTEM_ACTOR;
+    const rules = this.rulesFor(tenant);
+    const deleteCutoff = rules.deleteAfterDays !== null ? this.cutoff(rules.deleteAfterDays) : null;
+    const anonymizeCutoff = rules.anonymizeAfterDays !== null ? this.cutoff(rules.anonymizeAfterDays) : null;
+
+    let deleted: RetentionAction | null = null;
+    if (deleteCutoff) {
+      const ids = this.inactiveSince(tenant.id, deleteCutoff, false);
+      if (!dryRun && ids.length > 0) {
+        batches(ids).forEach((batch) => privacyService.deleteConversations(batch));
+        privacyService.audit(tenant.id, 'retention.delete', ids, actor, {
+          details: { afterDays: rules.deleteAfterDays, cutoff: deleteCutoff },
+        });
+      }
+      deleted = { cutoff: deleteCutoff, count: ids.length, conversationIds: ids.slice(0, REPORT_ID_LIMIT) };
+    }
+
+    let anonymized: RetentionAction | null = null;
+    if (anonymizeCutoff) {
+      // Conversations due for deletion are only still there on a dry run
+      const deleting = new Set(dryRun && deleteCutoff ? this.inactiveSince(tenant.id, deleteCutoff, false) : []);
+      const ids = this.inactiveSince(tenant.id, anonymizeCutoff, true).filter((id) => !deleting.has(id));
+      if (!dryRun && ids.length > 0) {
+        batches(ids).forEach((batch) => privacyService.anonymizeConversations(batch));
+        privacyService.audit(tenant.id, 'retention.anonymize', ids, actor, {
+          details: { afterDays: rules.anonymizeAfterDays, cutoff: anonymizeCutoff },
+        });
+      }
+      anonymized = { cutoff: anonymizeCutoff, count: ids.length, conversationIds: ids.slice(0, REPORT_ID_LIMIT) };
+    }
+
+    return { tenantId: tenant.id, dryRun, rules, ranAt: new Date().toISOString(), deleted, anonymized };
+  }
+
+  /**
+   * Run every tenant's rules once, as the scheduler does. A failing tenant
+   * doesn't stop the others.
+   */
+  runAll(): RetentionReport[] {
+    const reports: RetentionReport[] = [];
+    for (const tenant of tenantService.listTenants()) {
+      try {
+        const report = this.run(tenant, { dryRun: this.options.dryRun });
+        reports.push(report);
+        const deleted = report.deleted?.count ?? 0;
+        const anonymized = report.anonymized?.count ?? 0;
+        if (deleted + anonymized > 0) {
+          logger.info(report.dryRun ? 'Retention dry run' : 'Retention applied', {
+            tenantId: tenant.id,
+            deleted,
+            anonymized,
+          });
+        }
+      } catch (error) {
+        logger.error('Retention error', { tenantId: tenant.id, error });
+      }
+    }
+    return reports;
+  }
+
+  /**
+   * Run now, then every interval until stop() is called
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.runAll();
+    this.timer = setInterval(() => this.runAll(), this.options.intervalMs);
+    // Don't keep the process alive just for retention
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private cutoff(days: number): string {
+    return new Date(Date.now() - days * DAY_MS).toISOString();
+  }
+
+  private inactiveSince(tenantId: string, cutoff: string, onlyIdentifiable: boolean): string[] {
+    const rows = dbInstance
+      .prepare(`
+        SELECT id FROM conversations
+        WHERE tenantId = ? AND updatedAt < ? ${onlyIdentifiable ? 'AND anonymizedAt IS NULL' : ''}
+        ORDER BY updatedAt ASC
+      `)
+      .all(tenantId, cutoff) as { id: string }[];
+    return rows.map((row) => row.id);
+  }
+}
+
+/**
+ * Build the service from the environment:
+ * - `RETENTION_DELETE_AFTER_DAYS`: delete conversations inactive this long,
+ *   for tenants without their own rule. Unset keeps them forever
+ * - `RETENTION_ANONYMIZE_AFTER_DAYS`: strip PII from conversations inactive
+ *   this long, likewise
+ * - `RETENTION_INTERVAL_MINUTES`: how often the rules are applied, 60 by default
+ * - `RETENTION_DRY_RUN`: `true` to only log what scheduled runs would do
+ */
+export function createRetentionService(env: NodeJS.ProcessEnv = process.env): RetentionService {
+  return new RetentionService({
+    defaults: {
+      deleteAfterDays: optionalPositiveInteger(env, 'RETENTION_DELETE_AFTER_DAYS'),
+      anonymizeAfterDays: optionalPositiveInteger(env, 'RETENTION_ANONYMIZE_AFTER_DAYS'),
+    },
+    intervalMs: (optionalPositiveInteger(env, 'RETENTION_INTERVAL_MINUTES') ?? 60) * 60 * 1000,
+    dryRun: env.RETENTION_DRY_RUN === 'true',
+  });
+}
+
+export const retentionService = createRetentionService();
@@ -0,0 +1,227 @@
+import { dbInstance, type ConversationStatus, type MessageSender } from '../db/database.js';
+
+// Matching messages returned per conversation; matchCount has the full total
+const MATCHES_PER_CONVERSATION = 5;
+
+// Snippet markers that become <mark> tags after the excerpt is HTML-escaped;
+// control characters never need to survive into a highlighted snippet
+const HIGHLIGHT_START = '\u0001';
+const HIGHLIGHT_END = '\u0002';
+
+export interface SearchOptions {
+  tenantId: string;
+  query: string;
+  sender?: MessageSender;
+  /** Inclusive lower bound on message timestamp (ISO 8601) */
+  from?: string;
+  /** Exclusive upper bound on message timestamp (ISO 8601) */
+  to?: string;
+  limit: number;
+  cursor?: SearchCursor;
+}
+
+export interface SearchCursor {
+  lastMatchAt: string;
+  conversationId: string;
+}
+
+export interface MessageMatch {
+  messageId: string;
+  sender: MessageSender;
+  timestamp: string;
+  /** HTML-escaped excerpt with matching terms wrapped in <mark> */
+  snippet: string;
+}
+
+export interface ConversationMatches {
+  conversationId: string;
+  status: ConversationStatus;
+  createdAt: string;
+  lastMatchAt: string;
+  matchCount: number;
+  matches: MessageMatch[];
+}
+
+export interface SearchResult {
+  results: ConversationMatches[];
+  nextCursor: string | null;
+}
+
+/**
+ * Turn an admin search string into an FTS5 query. Terms are ANDed, text in
+ * double quotes is matched as a phrase, a trailing `*` matches a prefix and
+ * an uppercase `OR` between terms matches either. Everything else is
+ * quoted so user input can't inject FTS syntax.
+ */
+export function buildSearchQuery(text: string): string | null {
+  const parts: string[] = [];
+
+  for (const [, phrase, token] of text.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (token === 'OR') {
+      if (parts.length > 0 && parts[parts.length - 1] !== 'OR') {
+        parts.push('OR');
+      }
+      continue;
+    }
+
+    const words = (phrase ?? token).toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    if (words.length === 0) {
+      continue;
+    }
+
+    if (phrase !== undefined) {
+      parts.push(`"${words.join(' ')}"`);
+    } else {
+      const prefix = token.endsWith('*') ? '*' : '';
+      parts.push(...words.map((word, i) => `"${word}"${i === words.length - 1 ? prefix : ''}`));
+    }
+  }
+
+  if (parts[parts.length - 1] === 'OR') {
+    parts.pop();
+  }
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toHighlightedHtml(snippet: string): string {
+  return escapeHtml(snippet)
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_END).join('</mark>');
+}
+
+export function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/** Returns null for anything that isn't a cursor produced by encodeCursor */
+export function decodeCursor(value: string): SearchCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof parsed?.lastMatchAt === 'string' && typeof parsed?.conversationId === 'string') {
+      return { lastMatchAt: parsed.lastMatchAt, conversationId: parsed.conversationId };
+    }
+  } catch {
+    // Fall through to null
+  }
+  return null;
+}
+
+export class SearchService {
+  /**
+   * Search message text and group hits by conversation, most recently
+   * matched conversation first. Pagination is keyset-based on
+   * (lastMatchAt, conversationId), so pages stay stable as new messages
+   * arrive.
+   */
+  searchMessages(options: SearchOptions): SearchResult {
+    const matchQuery = buildSearchQuery(options.query);
+    if (!matchQuery) {
+      return { results: [], nextCursor: null };
+    }
+
+    const filters: string[] = ['messages_fts MATCH ?', 'm.tenantId = ?'];
+    const params: unknown[] = [matchQuery, options.tenantId];
+    if (options.sender) {
+      filters.push('m.sender = ?');
+      params.push(options.sender);
+    }
+    if (options.from) {
+      filters.push('m.timestamp >= ?');
+      params.push(options.from);
+    }
+    if (options.to) {
+      filters.push('m.timestamp < ?');
+      params.push(options.to);
+    }
+    const where = filters.join(' AND ');
+
+    const groupParams = [...params];
+    let having = '';
+    if (options.cursor) {
+      having = 'HAVING lastMatchAt < ? OR (lastMatchAt = ? AND conversationId < ?)';
+      groupParams.push(options.cursor.lastMatchAt, options.cursor.lastMatchAt, options.cursor.conversationId);
+    }
+
+    // One extra row tells us whether there is another page
+    const groups = dbInstance
+      .prepare(`
+        SELECT m.conversationId AS conversationId, MAX(m.timestamp) AS lastMatchAt, COUNT(*) AS matchCount
+        FROM messages_fts
+        JOIN messages m ON m.rowid = messages_fts.rowid
+        WHERE ${where}
+        GROUP BY m.conversationId
+        ${having}
+        ORDER BY lastMatchAt DESC, conversationId DESC
+        LIMIT ?
+      `)
+      .all(...groupParams, options.limit + 1) as { conversationId: string; lastMatchAt: string; matchCount: number }[];
+
+    const hasMore = groups.length > options.limit;
+    const page = groups.slice(0, options.limit);
+    if (page.length === 0) {
+      return { results: [], nextCursor: null };
+    }
+
+    const conversationIds = page.map((group) => group.conversationId);
+    const placeholders = conversationIds.map(() => '?').join(', ');
+
+    const conversations = dbInstance
+      .prepare(`SELECT id, status, createdAt FROM conversations WHERE id IN (${placeholders})`)
+      .all(...conversationIds) as { id: string; status: ConversationStatus; createdAt: string }[];
+    const conversationsById = new Map(conversations.map((conversation) => [conversation.id, conversation]));
+
+    const matchRows = dbInstance
+      .prepare(`
+        SELECT
+          m.id AS messageId,
+          m.conversationId AS conversationId,
+          m.sender AS sender,
+          m.timestamp AS timestamp,
+          snippet(messages_fts, 0, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', 16) AS snippet
+        FROM messages_fts
+        JOIN messages m ON m.rowid = messages_fts.rowid
+        WHERE ${where} AND m.conversationId IN (${placeholders})
+        ORDER BY m.timestamp ASC
+      `)
+      .all(...params, ...conversationIds) as (MessageMatch & { conversationId: string })[];
+
+    const matchesByConversation = new Map<string, MessageMatch[]>();
+    for (const { conversationId, ...match } of matchRows) {
+      const matches = matchesByConversation.get(conversationId) ?? [];
+      if (matches.length < MATCHES_PER_CONVERSATION) {
+        matches.push({ ...match, snippet: toHighlightedHtml(match.snippet) });
+        matchesByConversation.set(conversationId, matches);
+      }
+    }
+
+    const results = page.map((group) => {
+      const conversation = conversationsById.get(group.conversationId)!;
+      return {
+        conversationId: group.conversationId,
+        status: conversation.status,
+        createdAt: conversation.createdAt,
+        lastMatchAt: group.lastMatchAt,
+        matchCount: group.matchCount,
+        matches: matchesByConversation.get(group.conversationId) ?? [],
+      };
+    });
+
+    const last = page[page.length - 1];
+    return {
+      results,
+      nextCursor: hasMore
+        ? encodeCursor({ lastMatchAt: last.lastMatchAt, conversationId: last.conversationId })
+        : null,
+    };
+  }
+}
+
+export const searchService = new SearchService();
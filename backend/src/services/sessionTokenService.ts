@@ -0,0 +1,133 @@
+import { dbInstance } from '../db/database.js';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { logger } from './logger.js';
+
+// Customers coming back within a week pick up their conversation
+const DEFAULT_TTL_HOURS = 168;
+
+export interface SessionToken {
+  token: string;
+  expiresAt: string;
+}
+
+interface SessionTokenPayload {
+  /** Conversation id */
+  sid: string;
+  /** `conversations.sessionTokenVersion` when the token was issued */
+  ver: number;
+  /** Expiry, in seconds since the epoch */
+  exp: number;
+}
+
+function base64url(value: Buffer | string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Signed, expiring tokens that prove a customer owns a conversation. The
+ * conversation id alone is no longer enough to read or continue it.
+ *
+ * Tokens are `<payload>.<signature>` with an HMAC-SHA256 signature. Each
+ * conversation keeps a version number; issuing a token bumps it, so only the
+ * newest token works and refreshing a token revokes the previous one.
+ */
+export class SessionTokenService {
+  constructor(
+    private secret: string,
+    private ttlMs: number
+  ) {}
+
+  /**
+   * Issue a token for the conversation, revoking any earlier ones
+   */
+  issue(conversationId: string): SessionToken {
+    const row = dbInstance
+      .prepare('UPDATE conversations SET sessionTokenVersion = sessionTokenVersion + 1 WHERE id = ? RETURNING sessionTokenVersion')
+      .get(conversationId) as { sessionTokenVersion: number } | undefined;
+    if (!row) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    const expiresAt = new Date(Date.now() + this.ttlMs);
+    const payload: SessionTokenPayload = {
+      sid: conversationId,
+      ver: row.sessionTokenVersion,
+      exp: Math.floor(expiresAt.getTime() / 1000),
+    };
+    const encoded = base64url(JSON.stringify(payload));
+
+    return { token: `${encoded}.${this.sign(encoded)}`, expiresAt: expiresAt.toISOString() };
+  }
+
+  /**
+   * The conversation id a token grants access to, or null if the token is
+   * forged, expired, revoked or belongs to another tenant
+   */
+  verify(token: string, tenantId: string): string | null {
+    const [encoded, signature] = token.split('.');
+    if (!encoded || !signature || !this.safeEqual(signature, this.sign(encoded))) {
+      return null;
+    }
+
+    let payload: SessionTokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    } catch {
+      return null;
+    }
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) {
+      return null;
+    }
+
+    const row = dbInstance
+      .prepare('SELECT sessionTokenVersion FROM conversations WHERE id = ? AND tenantId = ?')
+      .get(payload.sid, tenantId) as { sessionTokenVersion: number } | undefined;
+
+    return row && row.sessionTokenVersion === payload.ver ? payload.sid : null;
+  }
+
+  /**
+   * Invalidate every token for the conversation, e.g. when the customer
+   * starts a new chat
+   */
+  revoke(conversationId: string): void {
+    dbInstance
+      .prepare('UPDATE conversations SET sessionTokenVersion = sessionTokenVersion + 1 WHERE id = ?')
+      .run(conversationId);
+  }
+
+  private sign(value: string): string {
+    return base64url(createHmac('sha256', this.secret).update(value).digest());
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+}
+
+/**
+ * Build the service from the environment:
+ * - `SESSION_TOKEN_SECRET`: signing key. Without it tokens are signed with a
+ *   per-process key and stop working when the server restarts
+ * - `SESSION_TOKEN_TTL_HOURS`: token lifetime, 168 (a week) by default
+ */
+export function createSessionTokenService(env: NodeJS.ProcessEnv = process.env): SessionTokenService {
+  const ttlHours = env.SESSION_TOKEN_TTL_HOURS ? Number(env.SESSION_TOKEN_TTL_HOURS) : DEFAULT_TTL_HOURS;
+  if (!Number.isFinite(ttlHours) || ttlHours <= 0) {
+    throw new Error('SESSION_TOKEN_TTL_HOURS must be a positive number');
+  }
+
+  let secret = env.SESSION_TOKEN_SECRET;
+  if (!secret) {
+    if (env.NODE_ENV === 'production') {
+      logger.warn('SESSION_TOKEN_SECRET not set - chat sessions end when the server restarts');
+    }
+    secret = randomBytes(32).toString('hex');
+  }
+
+  return new SessionTokenService(secret, ttlHours * 60 * 60 * 1000);
+}
+
+export const sessionTokenService = createSessionTokenService();
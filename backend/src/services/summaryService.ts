@@ -0,0 +1,130 @@
+import { conversationService, type MessageData } from './conversationService.js';
+import { llmService, type ConversationContext } from './llmService.js';
+import { piiService } from './pii/index.js';
+import { tenantService } from './tenantService.js';
+import { tokenEstimator } from './tokenEstimator.js';
+import { usageService } from './usageService.js';
+import { logger } from './logger.js';
+import { positiveInteger } from './helpers.js';
+
+export interface SummaryOptions {
+  /** Estimated tokens of recent messages placed in the prompt */
+  historyTokenBudget: number;
+}
+
+/**
+ * The newest messages whose estimated tokens fit in `budget`, oldest first.
+ * The latest message is always kept.
+ */
+function newestWithinBudget(messages: MessageData[], budget: number): MessageData[] {
+  let used = 0;
+  let start = messages.length;
+  while (start > 0) {
+    used += tokenEstimator.count(messages[start - 1].text);
+    if (used > budget && start < messages.length) {
+      break;
+    }
+    start--;
+  }
+  return messages.slice(start);
+}
+
+/**
+ * Rolling conversation summaries. Prompts carry the stored summary plus the
+ * messages after it, up to the history token budget. Once the unsummarized
+ * messages outgrow the budget, the older ones are folded into the summary,
+ * leaving about half the budget as verbatim recent turns. Summaries are
+ * skipped while the tenant's spend cap is reached.
+ */
+export class SummaryService {
+  // Conversations being summarized, so overlapping replies don't summarize twice
+  private inFlight = new Set<string>();
+
+  constructor(private options: SummaryOptions) {}
+
+  /**
+   * `currentMessageId` is the customer message being answered, which is
+   * left out of the prompt history since the prompt ends with it anyway
+   */
+  getContext(conversationId: string, currentMessageId?: string): ConversationContext {
+    const conversation = conversationService.getConversation(conversationId);
+    const messages = conversationService.getPromptHistory(conversationId, conversation?.summarizedUntil ?? null);
+    return {
+      summary: conversation?.summary ?? null,
+      messages: newestWithinBudget(messages, this.options.historyTokenBudget),
+      currentMessageId,
+    };
+  }
+
+  /**
+   * Fold older messages into the summary if the unsummarized ones exceed
+   * the budget. Returns whether the summary changed.
+   */
+  async summarizeIfNeeded(conversationId: string): Promise<boolean> {
+    if (this.inFlight.has(conversationId)) {
+      return false;
+    }
+
+    this.inFlight.add(conversationId);
+    try {
+      const conversation = conversationService.getConversation(conversationId);
+      const tenant = conversation ? tenantService.getTenant(conversation.tenantId) : null;
+      if (!conversation || !tenant || usageService.getSpendCapStatus(tenant).degraded) {
+        return false;
+      }
+
+      const messages = conversationService.getPromptHistory(conversationId, conversation.summarizedUntil);
+      const tokens = messages.reduce((total, msg) => total + tokenEstimator.count(msg.text), 0);
+      if (tokens <= this.options.historyTokenBudget) {
+        return false;
+      }
+
+      const recent = newestWithinBudget(messages, Math.floor(this.options.historyTokenBudget / 2));
+      const older = messages.slice(0, messages.length - recent.length);
+      if (older.length === 0) {
+        return false;
+      }
+
+      const summary = await llmService.summarize(
+        conversation.summary,
+        older,
+        piiService.createRedactor(conversationId)
+      );
+      usageService.record({
+        tenantId: tenant.id,
+        conversationId,
+        messageId: null,
+        purpose: 'summary',
+        usage: summary.usage,
+      });
+      conversationService.saveSummary(conversationId, summary.text, older[older.length - 1].timestamp);
+      return true;
+    } finally {
+      this.inFlight.delete(conversationId);
+    }
+  }
+
+  /**
+   * Summarize after a reply without holding up the response. A failed
+   * summary is retried after the next reply; until then the prompt keeps
+   * the newest messages that fit.
+   */
+  summarizeInBackground(conversationId: string): void {
+    this.summarizeIfNeeded(conversationId).catch((error) => {
+      logger.error('Conversation summary error', { error });
+    });
+  }
+}
+
+/**
+ * Build the service from the environment:
+ * - `HISTORY_TOKEN_BUDGET`: estimated tokens of conversation history sent
+ *   with each message before older turns are summarized, 1500 by default
+ */
+export function createSummaryService(env: NodeJS.ProcessEnv = process.env): SummaryService {
+  return new SummaryService({
+    historyTokenBudget: positiveInteger(env, 'HISTORY_TOKEN_BUDGET', 1500),
+  });
+}
+
+export const summaryService = createSummaryService();
@@ -0,0 +1,303 @@
+import { dbInstance } from '../db/database.js';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import type { Scope } from './accessScopes.js';
+
+/** Tenant that owns data created before multi-tenancy */
+export const DEFAULT_TENANT_ID = 'default';
+
+export interface Tenant {
+  id: string;
+  name: string;
+  /** Opening line of the system prompt, e.g. who the bot works for */
+  persona: string;
+  /** Store policy added to every prompt, alongside the knowledge base */
+  policy: string;
+  supportEmail: string;
+  supportPhone: string | null;
+  supportHours: string | null;
+  /** Origins allowed to call `/chat` with this tenant's widget key; empty falls back to FRONTEND_URL */
+  allowedOrigins: string[];
+  /** Public key the chat widget sends to identify the tenant */
+  widgetKey: string;
+  /** Daily LLM spend in USD after which the bot runs in degraded mode; null for no cap */
+  dailySpendCapUsd: number | null;
+  /** Conversations inactive this many days are deleted; null uses the server default */
+  retentionDeleteAfterDays: number | null;
+  /** Conversations inactive this many days have their PII stripped; null uses the server default */
+  retentionAnonymizeAfterDays: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TenantInput {
+  name: string;
+  persona: string;
+  policy?: string;
+  supportEmail: string;
+  supportPhone?: string | null;
+  supportHours?: string | null;
+  allowedOrigins?: string[];
+  dailySpendCapUsd?: number | null;
+  retentionDeleteAfterDays?: number | null;
+  retentionAnonymizeAfterDays?: number | null;
+}
+
+export interface TenantApiKey {
+  id: string;
+  tenantId: string;
+  name: string;
+  /** What the key may do; see accessScopes */
+  scopes: Scope[];
+  createdAt: string;
+  lastUsedAt: string | null;
+  /** Revoked keys are kept for their history but no longer authenticate */
+  revokedAt: string | null;
+}
+
+interface TenantRow extends Omit<Tenant, 'allowedOrigins'> {
+  allowedOrigins: string;
+}
+
+interface ApiKeyRow extends Omit<TenantApiKey, 'scopes'> {
+  scopes: string;
+}
+
+const API_KEY_COLUMNS = 'id, tenantId, name, scopes, createdAt, lastUsedAt, revokedAt';
+
+function toTenant(row: TenantRow): Tenant {
+  return { ...row, allowedOrigins: JSON.parse(row.allowedOrigins) as string[] };
+}
+
+function toApiKey(row: ApiKeyRow): TenantApiKey {
+  return { ...row, scopes: JSON.parse(row.scopes) as Scope[] };
+}
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function generateWidgetKey(): string {
+  return `wk_${randomBytes(16).toString('hex')}`;
+}
+
+/**
+ * Origins allowed for tenants that don't list their own
+ */
+export function getDefaultOrigins(env: NodeJS.ProcessEnv = process.env): string[] {
+  return env.FRONTEND_URL
+    ? env.FRONTEND_URL.split(',').map((url) => url.trim())
+    : ['http://localhost:5173', 'http://localhost:3000'];
+}
+
+/**
+ * Storefronts served by this backend. Each tenant has its own persona,
+ * policy and contacts for the prompt, a public widget key for `/chat` and
+ * scoped secret API keys for `/data` and `/agent`. API keys are stored as
+ * SHA-256 hashes and only shown once, when created.
+ */
+export class TenantService {
+  private defaultOrigins = getDefaultOrigins();
+
+  getTenant(tenantId: string): Tenant | null {
+    const row = dbInstance
+      .prepare('SELECT * FROM tenants WHERE id = ?')
+      .get(tenantId) as TenantRow | undefined;
+
+    return row ? toTenant(row) : null;
+  }
+
+  getTenantByWidgetKey(widgetKey: string): Tenant | null {
+    const row = dbInstance
+      .prepare('SELECT * FROM tenants WHERE widgetKey = ?')
+      .get(widgetKey) as TenantRow | undefined;
+
+    return row ? toTenant(row) : null;
+  }
+
+  /**
+   * The active API key matching a secret and its tenant, recording when the
+   * key was last used
+   */
+  authenticateApiKey(secret: string): { tenant: Tenant; apiKey: TenantApiKey } | null {
+    const row = dbInstance
+      .prepare(`SELECT ${API_KEY_COLUMNS} FROM tenant_api_keys WHERE keyHash = ? AND revokedAt IS NULL`)
+      .get(hashApiKey(secret)) as ApiKeyRow | undefined;
+    const tenant = row ? this.getTenant(row.tenantId) : null;
+    if (!row || !tenant) {
+      return null;
+    }
+
+    const lastUsedAt = new Date().toISOString();
+    dbInstance.prepare('UPDATE tenant_api_keys SET lastUsedAt = ? WHERE id = ?').run(lastUsedAt, row.id);
+    return { tenant, apiKey: { ...toApiKey(row), lastUsedAt } };
+  }
+
+  listTenants(): Tenant[] {
+    return (dbInstance.prepare('SELECT * FROM tenants ORDER BY createdAt ASC').all() as TenantRow[]).map(toTenant);
+  }
+
+  createTenant(id: string, input: TenantInput): Tenant {
+    const now = new Date().toISOString();
+    const tenant: Tenant = {
+      id,
+      name: input.name,
+      persona: input.persona,
+      policy: input.policy ?? '',
+      supportEmail: input.supportEmail,
+      supportPhone: input.supportPhone ?? null,
+      supportHours: input.supportHours ?? null,
+      allowedOrigins: input.allowedOrigins ?? [],
+      widgetKey: generateWidgetKey(),
+      dailySpendCapUsd: input.dailySpendCapUsd ?? null,
+      retentionDeleteAfterDays: input.retentionDeleteAfterDays ?? null,
+      retentionAnonymizeAfterDays: input.retentionAnonymizeAfterDays ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    dbInstance
+      .prepare(`
+        INSERT INTO tenants (id, name, persona, policy, supportEmail, supportPhone, supportHours, allowedOrigins, widgetKey, dailySpendCapUsd,
+                             retentionDeleteAfterDays, retentionAnonymizeAfterDays, createdAt, updatedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        tenant.id,
+        tenant.name,
+        tenant.persona,
+        tenant.policy,
+        tenant.supportEmail,
+        tenant.supportPhone,
+        tenant.supportHours,
+        JSON.stringify(tenant.allowedOrigins),
+        tenant.widgetKey,
+        tenant.dailySpendCapUsd,
+        tenant.retentionDeleteAfterDays,
+        tenant.retentionAnonymizeAfterDays,
+        now,
+        now
+      );
+
+    return tenant;
+  }
+
+  updateTenant(tenantId: string, changes: Partial<TenantInput>): Tenant | null {
+    const existing = this.getTenant(tenantId);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: Tenant = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+      updatedAt: new Date().toISOString(),
+    };
+
+    dbInstance
+      .prepare(`
+        UPDATE tenants
+        SET name = ?, persona = ?, policy = ?, supportEmail = ?, supportPhone = ?, supportHours = ?, allowedOrigins = ?,
+            dailySpendCapUsd = ?, retentionDeleteAfterDays = ?, retentionAnonymizeAfterDays = ?, updatedAt = ?
+        WHERE id = ?
+      `)
+      .run(
+        updated.name,
+        updated.persona,
+        updated.policy,
+        updated.supportEmail,
+        updated.supportPhone,
+        updated.supportHours,
+        JSON.stringify(updated.allowedOrigins),
+        updated.dailySpendCapUsd,
+        updated.retentionDeleteAfterDays,
+        updated.retentionAnonymizeAfterDays,
+        updated.updatedAt,
+        tenantId
+      );
+
+    return updated;
+  }
+
+  /**
+   * Replace the widget key, e.g. after it was embedded on a site it
+   * shouldn't be. The old key stops working immediately.
+   */
+  rotateWidgetKey(tenantId: string): string | null {
+    const widgetKey = generateWidgetKey();
+    const result = dbInstance
+      .prepare('UPDATE tenants SET widgetKey = ?, updatedAt = ? WHERE id = ?')
+      .run(widgetKey, new Date().toISOString(), tenantId);
+
+    return result.changes > 0 ? widgetKey : null;
+  }
+
+  /**
+   * Create a secret API key. The returned `key` is not stored and can't be
+   * retrieved again.
+   */
+  createApiKey(tenantId: string, name: string, scopes: Scope[]): TenantApiKey & { key: string } {
+    const key = `sk_${randomBytes(24).toString('hex')}`;
+    const apiKey: TenantApiKey = {
+      id: randomUUID(),
+      tenantId,
+      name,
+      scopes,
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+
+    dbInstance
+      .prepare('INSERT INTO tenant_api_keys (id, tenantId, name, keyHash, scopes, createdAt) VALUES (?, ?, ?, ?, ?, ?)')
+      .run(apiKey.id, tenantId, name, hashApiKey(key), JSON.stringify(scopes), apiKey.createdAt);
+
+    return { ...apiKey, key };
+  }
+
+  listApiKeys(tenantId: string): TenantApiKey[] {
+    return (
+      dbInstance
+        .prepare(`SELECT ${API_KEY_COLUMNS} FROM tenant_api_keys WHERE tenantId = ? ORDER BY createdAt ASC`)
+        .all(tenantId) as ApiKeyRow[]
+    ).map(toApiKey);
+  }
+
+  /**
+   * Stop a key from authenticating. Returns the revoked key, or null if the
+   * tenant has no such key.
+   */
+  revokeApiKey(tenantId: string, keyId: string): TenantApiKey | null {
+    dbInstance
+      .prepare('UPDATE tenant_api_keys SET revokedAt = ? WHERE id = ? AND tenantId = ? AND revokedAt IS NULL')
+      .run(new Date().toISOString(), keyId, tenantId);
+
+    const row = dbInstance
+      .prepare(`SELECT ${API_KEY_COLUMNS} FROM tenant_api_keys WHERE id = ? AND tenantId = ?`)
+      .get(keyId, tenantId) as ApiKeyRow | undefined;
+    return row ? toApiKey(row) : null;
+  }
+
+  /**
+   * Whether a browser on `origin` may use the tenant's widget key
+   */
+  isOriginAllowed(tenant: Tenant, origin: string): boolean {
+    const origins = tenant.allowedOrigins.length > 0 ? tenant.allowedOrigins : this.defaultOrigins;
+    return origins.includes(origin);
+  }
+
+  /**
+   * Whether any tenant accepts `origin`, for the CORS preflight; the
+   * tenant-specific check happens once the widget key is known
+   */
+  isKnownOrigin(origin: string): boolean {
+    if (this.defaultOrigins.includes(origin)) {
+      return true;
+    }
+    const row = dbInstance
+      .prepare('SELECT 1 FROM tenants, json_each(tenants.allowedOrigins) WHERE json_each.value = ? LIMIT 1')
+      .get(origin);
+    return row !== undefined;
+  }
+}
+
+export const tenantService = new TenantService();
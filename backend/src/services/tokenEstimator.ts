@@ -0,0 +1,90 @@
+/**
+ * Approximates how many tokens a model's tokenizer would produce, for
+ * budgeting prompts before they are sent. Provider-reported counts are
+ * used for accounting whenever the provider returns them.
+ */
+export interface TokenEstimator {
+  readonly name: string;
+  count(text: string): number;
+  /** Cut `text` to at most `maxTokens`, marking the cut with an ellipsis */
+  truncate(text: string, maxTokens: number): string;
+}
+
+export const TOKEN_ESTIMATORS = ['chars', 'words'] as const;
+
+export type TokenEstimatorName = (typeof TOKEN_ESTIMATORS)[number];
+
+/**
+ * About four characters per token, which holds for English text with the
+ * GPT and Gemini tokenizers
+ */
+export class CharacterEstimator implements TokenEstimator {
+  readonly name = 'chars';
+
+  constructor(private charsPerToken: number = 4) {}
+
+  count(text: string): number {
+    return Math.ceil(text.length / this.charsPerToken);
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    const maxChars = maxTokens * this.charsPerToken;
+    return text.length > maxChars ? `${text.slice(0, Math.max(0, maxChars - 3))}...` : text;
+  }
+}
+
+/**
+ * One token per word or four characters of a long word, plus one per
+ * punctuation mark. Closer than `chars` for text heavy in order numbers,
+ * codes and markdown.
+ */
+export class WordEstimator implements TokenEstimator {
+  readonly name = 'words';
+
+  count(text: string): number {
+    return this.pieces(text).reduce((total, piece) => total + this.pieceTokens(piece), 0);
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    if (this.count(text) <= maxTokens) {
+      return text;
+    }
+
+    // Keep whole words up to the budget, leaving room for the ellipsis
+    let used = 1;
+    let end = 0;
+    for (const match of text.matchAll(/\S+\s*/g)) {
+      used += this.count(match[0]);
+      if (used > maxTokens) {
+        break;
+      }
+      end = match.index! + match[0].length;
+    }
+    return `${text.slice(0, end).trimEnd()}...`;
+  }
+
+  private pieces(text: string): string[] {
+    return text.match(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu) ?? [];
+  }
+
+  private pieceTokens(piece: string): number {
+    return Math.max(1, Math.round(piece.length / 4));
+  }
+}
+
+/**
+ * Build the estimator selected by `TOKEN_ESTIMATOR`: `chars` (default) or `words`
+ */
+export function createTokenEstimatorFromEnv(env: NodeJS.ProcessEnv = process.env): TokenEstimator {
+  const name = (env.TOKEN_ESTIMATOR || 'chars').toLowerCase();
+  switch (name) {
+    case 'chars':
+      return new CharacterEstimator();
+    case 'words':
+      return new WordEstimator();
+    default:
+      throw new Error(`Unknown TOKEN_ESTIMATOR "${name}". Expected one of: ${TOKEN_ESTIMATORS.join(', ')}`);
+  }
+}
+
+export const tokenEstimator = createTokenEstimatorFromEnv();
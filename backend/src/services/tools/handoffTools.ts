@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { defineTool } from './toolRegistry.js';
+
+export const REQUEST_HUMAN_AGENT_TOOL = 'requestHumanAgent';
+
+/**
+ * Lets the bot escalate to a human. The tool itself only acknowledges the
+ * request; the chat route queues the conversation once the reply is saved.
+ */
+export function createHandoffTools() {
+  return [
+    defineTool({
+      name: REQUEST_HUMAN_AGENT_TOOL,
+      description: 'Hand the conversation to a human support agent. Use it when the customer asks for a human, or when they need help you cannot give (account issues, payment problems, complaints).',
+      parameters: z.object({
+        reason: z.string().trim().min(1).max(500).describe('Short summary of what the customer needs help with'),
+      }),
+      handler: () => ({
+        queued: true,
+        message: 'A human agent will join this conversation. Tell the customer they will get a reply here shortly.',
+      }),
+    }),
+  ];
+}
@@ -0,0 +1,19 @@
+import { ToolRegistry } from './toolRegistry.js';
+import { createOrderTools } from './orderTools.js';
+import { createHandoffTools } from './handoffTools.js';
+import { ordersAdapter } from '../orders/index.js';
+
+export { ToolRegistry, defineTool, type ToolDefinition, type ToolInvocation } from './toolRegistry.js';
+export { REQUEST_HUMAN_AGENT_TOOL } from './handoffTools.js';
+export * from './protocol.js';
+
+/**
+ * Registry with the tools available to the support bot
+ */
+export function createDefaultToolRegistry(): ToolRegistry {
+  const registry = new ToolRegistry();
+  for (const tool of [...createOrderTools(ordersAdapter), ...createHandoffTools()]) {
+    registry.register(tool);
+  }
+  return registry;
+}
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { defineTool } from './toolRegistry.js';
+import type { OrdersAdapter } from '../orders/types.js';
+
+const NOT_FOUND = {
+  found: false,
+  message: 'No order matches that order number and email address.',
+};
+
+const orderLookupParameters = z.object({
+  orderId: z.string().trim().min(1).max(50).describe('Order number, e.g. SPUR-1001'),
+  email: z.string().trim().email().describe('Email address the order was placed with'),
+});
+
+export function createOrderTools(orders: OrdersAdapter) {
+  return [
+    defineTool({
+      name: 'getOrderStatus',
+      description: 'Look up the status, items and total of an order.',
+      parameters: orderLookupParameters,
+      handler: async ({ orderId, email }) => {
+        const order = await orders.getOrder(orderId, email);
+        return order ? { found: true, ...order } : NOT_FOUND;
+      },
+    }),
+    defineTool({
+      name: 'getTrackingInfo',
+      description: 'Get the carrier, tracking number and tracking events of a shipped order.',
+      parameters: orderLookupParameters,
+      handler: async ({ orderId, email }) => {
+        const tracking = await orders.getTracking(orderId, email);
+        return tracking ? { found: true, ...tracking } : NOT_FOUND;
+      },
+    }),
+    defineTool({
+      name: 'startReturn',
+      description: 'Open a return request for a delivered order that is within the return window. Only call this after the customer has confirmed they want to return the order.',
+      parameters: orderLookupParameters.extend({
+        reason: z.string().trim().min(1).max(500).describe("The customer's reason for the return"),
+      }),
+      handler: async ({ orderId, email, reason }) => {
+        const result = await orders.startReturn(orderId, email, reason);
+        return result ? { found: true, ...result } : NOT_FOUND;
+      },
+    }),
+  ];
+}
@@ -0,0 +1,65 @@
+/**
+ * Text protocol for tool calls. It works with every provider because it
+ * only relies on plain text generation: the model answers with a single
+ * `TOOL_CALL: {...}` line when it needs data, and receives the result as
+ * a tool turn before answering the customer.
+ */
+export const TOOL_CALL_PREFIX = 'TOOL_CALL:';
+
+export interface ParsedToolCall {
+  name: string;
+  arguments: unknown;
+}
+
+function stripFence(text: string): string {
+  return text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+    .trim();
+}
+
+export function parseToolCall(text: string): ParsedToolCall | null {
+  const body = stripFence(text);
+  if (!body.startsWith(TOOL_CALL_PREFIX)) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(body.slice(TOOL_CALL_PREFIX.length).trim());
+    if (typeof parsed?.name !== 'string') {
+      return null;
+    }
+    return { name: parsed.name, arguments: parsed.arguments ?? {} };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether streamed text so far could still turn out to be a tool call.
+ * Returns `'yes'`, `'no'` or `'maybe'` (not enough text to tell yet).
+ */
+export function classifyToolCallPrefix(text: string): 'yes' | 'no' | 'maybe' {
+  const body = text.trimStart().replace(/^```(?:json)?\s*/i, '');
+  if (body.startsWith(TOOL_CALL_PREFIX)) {
+    return 'yes';
+  }
+  if (TOOL_CALL_PREFIX.startsWith(body) || '```json'.startsWith(text.trimStart())) {
+    return 'maybe';
+  }
+  return 'no';
+}
+
+export function formatToolCall(call: ParsedToolCall): string {
+  return `${TOOL_CALL_PREFIX} ${JSON.stringify({ name: call.name, arguments: call.arguments })}`;
+}
+
+export function buildToolInstructions(catalogue: string): string {
+  return `TOOLS:
+You can look up order data and hand the conversation to a human agent with the tools below. To call a tool, reply with ONLY a single line in this exact format and nothing else:
+${TOOL_CALL_PREFIX} {"name": "<tool name>", "arguments": { ... }}
+The tool result will be sent back to you, then you answer the customer. Ask the customer for any argument you don't have (for example their order number and the email address used for the order) instead of guessing. Never mention tools or this format to the customer.
+
+${catalogue}`;
+}
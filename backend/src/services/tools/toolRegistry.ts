@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { logger } from '../logger.js';
+
+export interface ToolDefinition<TSchema extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  /** Validates the arguments the model supplies; field `.describe()` texts are shown to the model */
+  parameters: TSchema;
+  handler: (args: z.infer<TSchema>) => Promise<unknown> | unknown;
+}
+
+export interface ToolInvocation {
+  name: string;
+  arguments: unknown;
+  result: unknown;
+  status: 'success' | 'error';
+  error?: string;
+  durationMs: number;
+  createdAt: string;
+}
+
+/**
+ * Typed helper so handlers get their argument types inferred from the schema
+ */
+export function defineTool<TSchema extends z.AnyZodObject>(tool: ToolDefinition<TSchema>): ToolDefinition {
+  return tool as unknown as ToolDefinition;
+}
+
+function describeType(schema: z.ZodTypeAny): string {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return describeType(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodString) return 'string';
+  if (schema instanceof z.ZodNumber) return 'number';
+  if (schema instanceof z.ZodBoolean) return 'boolean';
+  if (schema instanceof z.ZodEnum) return (schema.options as string[]).map((option) => `"${option}"`).join(' | ');
+  if (schema instanceof z.ZodArray) return `${describeType(schema.element)}[]`;
+  return 'object';
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register(tool: ToolDefinition): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * Plain-text catalogue of the registered tools for the system prompt
+   */
+  describe(): string {
+    return this.list()
+      .map((tool) => {
+        const args = Object.entries(tool.parameters.shape as Record<string, z.ZodTypeAny>)
+          .map(([key, schema]) => {
+            const optional = schema.isOptional() ? ' (optional)' : '';
+            const description = schema.description ? ` - ${schema.description}` : '';
+            return `    - ${key}: ${describeType(schema)}${optional}${description}`;
+          })
+          .join('\n');
+        return `- ${tool.name}: ${tool.description}\n  Arguments:\n${args}`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Validate arguments and run the tool. Failures are captured in the
+   * returned invocation instead of thrown, so they can be reported back to
+   * the model and stored in the audit trail.
+   */
+  async execute(name: string, rawArgs: unknown): Promise<ToolInvocation> {
+    const startedAt = Date.now();
+    const createdAt = new Date(startedAt).toISOString();
+    const fail = (error: string): ToolInvocation => ({
+      name,
+      arguments: rawArgs,
+      result: null,
+      status: 'error',
+      error,
+      durationMs: Date.now() - startedAt,
+      createdAt,
+    });
+
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return fail(`Unknown tool "${name}"`);
+    }
+
+    const parsed = tool.parameters.safeParse(rawArgs ?? {});
+    if (!parsed.success) {
+      return fail(
+        `Invalid arguments: ${parsed.error.errors.map((issue) => `${issue.path.join('.') || 'arguments'} ${issue.message}`).join('; ')}`
+      );
+    }
+
+    try {
+      const result = await tool.handler(parsed.data);
+      return {
+        name,
+        arguments: parsed.data,
+        result: result ?? null,
+        status: 'success',
+        durationMs: Date.now() - startedAt,
+        createdAt,
+      };
+    } catch (error: any) {
+      logger.error('Tool failed', { tool: name, error });
+      return fail(error.message || 'Tool execution failed');
+    }
+  }
+}
@@ -0,0 +1,333 @@
+import { randomUUID } from 'crypto';
+import { dbInstance } from '../db/database.js';
+import type { Tenant } from './tenantService.js';
+import { logger } from './logger.js';
+import { DAY_MS, nonNegativeNumber } from './helpers.js';
+
+export const USAGE_PURPOSES = ['reply', 'summary'] as const;
+
+export type UsagePurpose = (typeof USAGE_PURPOSES)[number];
+
+/** What one reply or summary cost in tokens and time */
+export interface LLMUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** True when the provider didn't report token counts and they were estimated */
+  estimated: boolean;
+  latencyMs: number;
+}
+
+export interface UsageRecord extends LLMUsage {
+  id: string;
+  tenantId: string;
+  conversationId: string;
+  /** The AI message the reply was saved as; null for summaries */
+  messageId: string | null;
+  purpose: UsagePurpose;
+  costUsd: number;
+  createdAt: string;
+}
+
+/** Usage attached to AI messages on admin reads */
+export type MessageUsage = LLMUsage & { costUsd: number };
+
+/** USD per million tokens */
+export interface ModelPrice {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  averageLatencyMs: number | null;
+}
+
+export interface UsageDay extends UsageTotals {
+  date: string;
+}
+
+export interface ConversationUsage extends UsageTotals {
+  conversationId: string;
+}
+
+export interface SpendCapStatus {
+  /** The tenant's own cap, null if it has none */
+  tenantCapUsd: number | null;
+  /** Cap across all tenants from LLM_DAILY_SPEND_CAP_USD, null if unset */
+  globalCapUsd: number | null;
+  tenantSpentTodayUsd: number;
+  globalSpentTodayUsd: number;
+  /** True once either cap is reached; replies no longer call the LLM */
+  degraded: boolean;
+  /** Start of the next UTC day, when spending counts from zero again */
+  resetsAt: string;
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  byPurpose: Record<UsagePurpose, UsageTotals>;
+  /** One entry per day for the last `days` days, oldest first */
+  daily: UsageDay[];
+  /** Most expensive conversations in the period */
+  conversations: ConversationUsage[];
+  spendCap: SpendCapStatus;
+}
+
+export interface UsageOptions {
+  /** Price for every model, overriding the list prices below */
+  priceOverride: ModelPrice | null;
+  globalDailyCapUsd: number | null;
+}
+
+interface UsageRow extends Omit<UsageRecord, 'estimated'> {
+  estimated: number;
+}
+
+// List prices of the providers' default models when this was written.
+// Set LLM_INPUT_PRICE_PER_MTOK and LLM_OUTPUT_PRICE_PER_MTOK for anything else
+const LIST_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { inputPerMTok: 0.3, outputPerMTok: 2.5 },
+  'gpt-4o-mini': { inputPerMTok: 0.15, outputPerMTok: 0.6 },
+};
+
+const FREE: ModelPrice = { inputPerMTok: 0, outputPerMTok: 0 };
+
+const EMPTY_TOTALS: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, averageLatencyMs: null };
+
+const TOTALS_COLUMNS = `
+  COUNT(*) AS calls,
+  COALESCE(SUM(inputTokens), 0) AS inputTokens,
+  COALESCE(SUM(outputTokens), 0) AS outputTokens,
+  COALESCE(SUM(costUsd), 0) AS costUsd,
+  AVG(latencyMs) AS averageLatencyMs
+`;
+
+function toUsageRecord(row: UsageRow): UsageRecord {
+  return { ...row, estimated: row.estimated === 1 };
+}
+
+function toTotals<T extends UsageTotals>(row: T): T {
+  return {
+    ...row,
+    costUsd: roundCost(row.costUsd),
+    averageLatencyMs: row.averageLatencyMs === null ? null : Math.round(row.averageLatencyMs),
+  };
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function startOfUtcDay(time: number): Date {
+  return new Date(Math.floor(time / DAY_MS) * DAY_MS);
+}
+
+/**
+ * Token usage, latency and cost of every LLM call, priced when recorded.
+ * Daily spend is checked against the tenant's cap and the global cap; once
+ * either is reached the bot answers from the knowledge base alone until the
+ * next UTC day.
+ */
+export class UsageService {
+  private unpricedModels = new Set<string>();
+
+  constructor(private options: UsageOptions) {}
+
+  /**
+   * The mock provider is free unless prices are set explicitly
+   */
+  priceFor(provider: string, model: string): ModelPrice {
+    const price = this.options.priceOverride ?? LIST_PRICES[model];
+    if (price) {
+      return price;
+    }
+    if (provider !== 'mock' && !this.unpricedModels.has(model)) {
+      this.unpricedModels.add(model);
+      logger.warn('No price known for model; its usage is recorded at no cost. Set LLM_INPUT_PRICE_PER_MTOK and LLM_OUTPUT_PRICE_PER_MTOK.', { model });
+    }
+    return FREE;
+  }
+
+  record(entry: {
+    tenantId: string;
+    conversationId: string;
+    messageId: string | null;
+    purpose: UsagePurpose;
+    usage: LLMUsage;
+  }): UsageRecord {
+    const { usage } = entry;
+    const price = this.priceFor(usage.provider, usage.model);
+    const record: UsageRecord = {
+      id: randomUUID(),
+      tenantId: entry.tenantId,
+      conversationId: entry.conversationId,
+      messageId: entry.messageId,
+      purpose: entry.purpose,
+      ...usage,
+      costUsd: (usage.inputTokens * price.inputPerMTok + usage.outputTokens * price.outputPerMTok) / 1e6,
+      createdAt: new Date().toISOString(),
+    };
+
+    dbInstance
+      .prepare(`
+        INSERT INTO llm_usage (id, tenantId, conversationId, messageId, purpose, provider, model, inputTokens, outputTokens, estimated, latencyMs, costUsd, createdAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        record.id,
+        record.tenantId,
+        record.conversationId,
+        record.messageId,
+        record.purpose,
+        record.provider,
+        record.model,
+        record.inputTokens,
+        record.outputTokens,
+        record.estimated ? 1 : 0,
+        Math.round(record.latencyMs),
+        record.costUsd,
+        record.createdAt
+      );
+
+    return record;
+  }
+
+  /**
+   * Usage recorded for AI messages, keyed by message id
+   */
+  getMessageUsage(messageIds: string[]): Map<string, MessageUsage> {
+    const usageByMessage = new Map<string, MessageUsage>();
+    // Query in batches to stay under SQLite's bound parameter limit
+    for (let i = 0; i < messageIds.length; i += 500) {
+      const batch = messageIds.slice(i, i + 500);
+      const rows = dbInstance
+        .prepare(`SELECT * FROM llm_usage WHERE messageId IN (${batch.map(() => '?').join(', ')})`)
+        .all(...batch) as UsageRow[];
+      for (const row of rows) {
+        const { id, tenantId, conversationId, messageId, purpose, createdAt, ...usage } = toUsageRecord(row);
+        usageByMessage.set(messageId!, usage);
+      }
+    }
+    return usageByMessage;
+  }
+
+  /**
+   * Totals, a daily breakdown and the most expensive conversations for the
+   * last `days` days (UTC), optionally for a single conversation
+   */
+  getReport(
+    tenant: Tenant,
+    options: { days: number; conversationId?: string; conversationLimit?: number }
+  ): UsageReport {
+    const since = startOfUtcDay(Date.now() - (options.days - 1) * DAY_MS).toISOString();
+    let where = 'WHERE tenantId = ? AND createdAt >= ?';
+    const params: any[] = [tenant.id, since];
+    if (options.conversationId) {
+      where += ' AND conversationId = ?';
+      params.push(options.conversationId);
+    }
+
+    const totals = dbInstance.prepare(`SELECT ${TOTALS_COLUMNS} FROM llm_usage ${where}`).get(...params) as UsageTotals;
+
+    const purposeRows = dbInstance
+      .prepare(`SELECT purpose, ${TOTALS_COLUMNS} FROM llm_usage ${where} GROUP BY purpose`)
+      .all(...params) as (UsageTotals & { purpose: UsagePurpose })[];
+    const byPurpose = Object.fromEntries(
+      USAGE_PURPOSES.map((purpose) => [purpose, { ...EMPTY_TOTALS }])
+    ) as Record<UsagePurpose, UsageTotals>;
+    for (const { purpose, ...row } of purposeRows) {
+      byPurpose[purpose] = toTotals(row);
+    }
+
+    const dailyRows = dbInstance
+      .prepare(`SELECT substr(createdAt, 1, 10) AS date, ${TOTALS_COLUMNS} FROM llm_usage ${where} GROUP BY date`)
+      .all(...params) as UsageDay[];
+    const rowsByDate = new Map(dailyRows.map((row) => [row.date, row]));
+    const daily: UsageDay[] = [];
+    for (let i = options.days - 1; i >= 0; i--) {
+      const date = new Date(Date.now() - i * DAY_MS).toISOString().slice(0, 10);
+      const row = rowsByDate.get(date);
+      daily.push(row ? toTotals(row) : { date, ...EMPTY_TOTALS });
+    }
+
+    const conversations = (
+      dbInstance
+        .prepare(`
+          SELECT conversationId, ${TOTALS_COLUMNS} FROM llm_usage ${where}
+          GROUP BY conversationId
+          ORDER BY costUsd DESC, inputTokens + outputTokens DESC
+          LIMIT ?
+        `)
+        .all(...params, options.conversationLimit ?? 20) as ConversationUsage[]
+    ).map(toTotals);
+
+    return {
+      totals: toTotals(totals),
+      byPurpose,
+      daily,
+      conversations,
+      spendCap: this.getSpendCapStatus(tenant),
+    };
+  }
+
+  /**
+   * Today's spend (UTC) against the tenant's cap and the global cap
+   */
+  getSpendCapStatus(tenant: Tenant): SpendCapStatus {
+    const today = startOfUtcDay(Date.now());
+    const spentSince = (tenantId: string | null) =>
+      (
+        (tenantId
+          ? dbInstance
+              .prepare('SELECT COALESCE(SUM(costUsd), 0) AS spent FROM llm_usage WHERE tenantId = ? AND createdAt >= ?')
+              .get(tenantId, today.toISOString())
+          : dbInstance
+              .prepare('SELECT COALESCE(SUM(costUsd), 0) AS spent FROM llm_usage WHERE createdAt >= ?')
+              .get(today.toISOString())) as { spent: number }
+      ).spent;
+
+    const tenantSpentTodayUsd = spentSince(tenant.id);
+    const globalSpentTodayUsd = this.options.globalDailyCapUsd !== null ? spentSince(null) : tenantSpentTodayUsd;
+    const tenantCapUsd = tenant.dailySpendCapUsd;
+    const globalCapUsd = this.options.globalDailyCapUsd;
+
+    return {
+      tenantCapUsd,
+      globalCapUsd,
+      tenantSpentTodayUsd: roundCost(tenantSpentTodayUsd),
+      globalSpentTodayUsd: roundCost(globalSpentTodayUsd),
+      degraded:
+        (tenantCapUsd !== null && tenantSpentTodayUsd >= tenantCapUsd) ||
+        (globalCapUsd !== null && globalSpentTodayUsd >= globalCapUsd),
+      resetsAt: new Date(today.getTime() + DAY_MS).toISOString(),
+    };
+  }
+}
+
+/**
+ * Build the service from the environment:
+ * - `LLM_INPUT_PRICE_PER_MTOK`, `LLM_OUTPUT_PRICE_PER_MTOK`: USD per million
+ *   input and output tokens. Both must be set to override the list prices
+ *   of the default Gemini and OpenAI models
+ * - `LLM_DAILY_SPEND_CAP_USD`: daily spend across all tenants after which
+ *   every bot runs in degraded mode; unset for no global cap
+ */
+export function createUsageService(env: NodeJS.ProcessEnv = process.env): UsageService {
+  const inputPerMTok = nonNegativeNumber(env, 'LLM_INPUT_PRICE_PER_MTOK');
+  const outputPerMTok = nonNegativeNumber(env, 'LLM_OUTPUT_PRICE_PER_MTOK');
+  if ((inputPerMTok === null) !== (outputPerMTok === null)) {
+    throw new Error('LLM_INPUT_PRICE_PER_MTOK and LLM_OUTPUT_PRICE_PER_MTOK must be set together');
+  }
+
+  return new UsageService({
+    priceOverride: inputPerMTok !== null && outputPerMTok !== null ? { inputPerMTok, outputPerMTok } : null,
+    globalDailyCapUsd: nonNegativeNumber(env, 'LLM_DAILY_SPEND_CAP_USD'),
+  });
+}
+
+export const usageService = createUsageService();
@@ -0,0 +1,486 @@
+import { dbInstance } from '../db/database.js';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { logger } from './logger.js';
+import { jitteredBackoff, positiveInteger } from './helpers.js';
+import { postWebhook, webhookHostError } from './webhookTargets.js';
+
+export const WEBHOOK_EVENTS = [
+  'conversation.created',
+  'message.created',
+  'conversation.escalated',
+  'feedback.received',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const DELIVERY_STATUSES = ['pending', 'delivered', 'dead'] as const;
+
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+export interface WebhookSubscription {
+  id: string;
+  tenantId: string;
+  url: string;
+  events: WebhookEvent[];
+  description: string | null;
+  /** Disabled subscriptions get no new deliveries and their pending ones wait */
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  events: WebhookEvent[];
+  description?: string | null;
+}
+
+export interface WebhookSubscriptionChanges extends Partial<WebhookSubscriptionInput> {
+  enabled?: boolean;
+}
+
+/** The JSON body POSTed to subscribers */
+export interface WebhookPayload {
+  /** Event id, the same for every subscription the event went to */
+  id: string;
+  type: WebhookEvent;
+  createdAt: string;
+  tenantId: string;
+  data: unknown;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+export interface WebhookOptions {
+  /** Attempts before a delivery is dead-lettered */
+  maxAttempts: number;
+  timeoutMs: number;
+  /** Delay after the first failure; doubles with every further failure */
+  retryBaseMs: number;
+  retryMaxMs: number;
+  batchSize: number;
+  /** How often the background loop looks for due deliveries */
+  pollIntervalMs: number;
+  /** Let URLs point at loopback and private networks, for local development */
+  allowPrivateUrls: boolean;
+}
+
+interface SubscriptionRow extends Omit<WebhookSubscription, 'events' | 'enabled'> {
+  events: string;
+  enabled: number;
+}
+
+interface DeliveryRow extends Omit<WebhookDelivery, 'payload'> {
+  payload: string;
+}
+
+const SUBSCRIPTION_COLUMNS = 'id, tenantId, url, events, description, enabled, createdAt, updatedAt';
+
+const DELIVERY_COLUMNS =
+  'id, subscriptionId, eventId, event, payload, status, attempts, nextAttemptAt, lastAttemptAt, lastStatusCode, lastError, deliveredAt, createdAt';
+
+// Response bodies kept on a failed delivery, for debugging
+const MAX_ERROR_LENGTH = 500;
+
+function toSubscription(row: SubscriptionRow): WebhookSubscription {
+  return { ...row, events: JSON.parse(row.events) as WebhookEvent[], enabled: row.enabled === 1 };
+}
+
+function toDelivery(row: DeliveryRow): WebhookDelivery {
+  return { ...row, payload: JSON.parse(row.payload) as WebhookPayload };
+}
+
+export function isWebhookEvent(value: string): value is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+/**
+ * `X-Webhook-Signature` value for a delivery: `t=<unix seconds>,v1=<hex>`,
+ * where v1 is the HMAC-SHA256 of `<t>.<body>` with the subscription secret.
+ * Receivers recompute it and reject old timestamps to stop replays.
+ */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Webhook subscriptions and their delivery outbox. Services emit events
+ * inside the transaction that makes the change, so an event is stored if and
+ * only if the change is. A background loop POSTs due deliveries, retrying
+ * failures with exponential backoff until `maxAttempts`, after which the
+ * delivery is dead-lettered until someone redelivers it.
+ */
+export class WebhookService {
+  private timer: NodeJS.Timeout | null = null;
+  private dispatching: Promise<number> | null = null;
+
+  constructor(private options: WebhookOptions) {}
+
+  /**
+   * Why a subscription may not use `url`, or null if it may
+   */
+  urlError(url: string): string | null {
+    return this.options.allowPrivateUrls ? null : webhookHostError(url);
+  }
+
+  /**
+   * Create a subscription. The returned `secret` signs every delivery and is
+   * only shown here.
+   */
+  createSubscription(tenantId: string, input: WebhookSubscriptionInput): WebhookSubscription & { secret: string } {
+    const now = new Date().toISOString();
+    const subscription: WebhookSubscription = {
+      id: randomUUID(),
+      tenantId,
+      url: input.url,
+      events: input.events,
+      description: input.description ?? null,
+      enabled: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const secret = `whsec_${randomBytes(24).toString('hex')}`;
+
+    dbInstance
+      .prepare(`
+        INSERT INTO webhook_subscriptions (id, tenantId, url, events, secret, description, enabled, createdAt, updatedAt)
+        VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?)
+      `)
+      .run(subscription.id, tenantId, subscription.url, JSON.stringify(subscription.events), secret, subscription.description, now, now);
+
+    return { ...subscription, secret };
+  }
+
+  listSubscriptions(tenantId: string): WebhookSubscription[] {
+    return (
+      dbInstance
+        .prepare(`SELECT ${SUBSCRIPTION_COLUMNS} FROM webhook_subscriptions WHERE tenantId = ? ORDER BY createdAt ASC`)
+        .all(tenantId) as SubscriptionRow[]
+    ).map(toSubscription);
+  }
+
+  getSubscription(subscriptionId: string, tenantId: string): WebhookSubscription | null {
+    const row = dbInstance
+      .prepare(`SELECT ${SUBSCRIPTION_COLUMNS} FROM webhook_subscriptions WHERE id = ? AND tenantId = ?`)
+      .get(subscriptionId, tenantId) as SubscriptionRow | undefined;
+
+    return row ? toSubscription(row) : null;
+  }
+
+  updateSubscription(
+    subscriptionId: string,
+    tenantId: string,
+    changes: WebhookSubscriptionChanges
+  ): WebhookSubscription | null {
+    const existing = this.getSubscription(subscriptionId, tenantId);
+    if (!existing) {
+      return null;
+    }
+
+    const updated = { ...existing, ...changes, updatedAt: new Date().toISOString() };
+    dbInstance
+      .prepare(`
+        UPDATE webhook_subscriptions
+        SET url = ?, events = ?, description = ?, enabled = ?, updatedAt = ?
+        WHERE id = ?
+      `)
+      .run(
+        updated.url,
+        JSON.stringify(updated.events),
+        updated.description ?? null,
+        updated.enabled ? 1 : 0,
+        updated.updatedAt,
+        subscriptionId
+      );
+
+    return this.getSubscription(subscriptionId, tenantId);
+  }
+
+  /**
+   * Delete a subscription along with its delivery history
+   */
+  deleteSubscription(subscriptionId: string, tenantId: string): boolean {
+    const result = dbInstance
+      .prepare('DELETE FROM webhook_subscriptions WHERE id = ? AND tenantId = ?')
+      .run(subscriptionId, tenantId);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Queue an event for every enabled subscription of the tenant that wants
+   * it. Call it inside the transaction that makes the change.
+   */
+  emit(tenantId: string, event: WebhookEvent, data: unknown): void {
+    const subscriptions = dbInstance
+      .prepare(`
+        SELECT id FROM webhook_subscriptions
+        WHERE tenantId = ? AND enabled = 1
+          AND EXISTS (SELECT 1 FROM json_each(webhook_subscriptions.events) WHERE value = ?)
+      `)
+      .all(tenantId, event) as { id: string }[];
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const payload: WebhookPayload = { id: randomUUID(), type: event, createdAt: now, tenantId, data };
+    const body = JSON.stringify(payload);
+
+    const insert = dbInstance.prepare(`
+      INSERT INTO webhook_deliveries (id, subscriptionId, tenantId, eventId, event, payload, nextAttemptAt, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const subscription of subscriptions) {
+      insert.run(randomUUID(), subscription.id, tenantId, payload.id, event, body, now, now);
+    }
+  }
+
+  listDeliveries(filters: {
+    tenantId: string;
+    subscriptionId?: string;
+    status?: DeliveryStatus;
+    limit?: number;
+    offset?: number;
+  }): WebhookDelivery[] {
+    const { where, params } = this.deliveryFilter(filters);
+    let query = `SELECT ${DELIVERY_COLUMNS} FROM webhook_deliveries ${where} ORDER BY createdAt DESC`;
+
+    if (filters.limit !== undefined) {
+      query += ' LIMIT ?';
+      params.push(filters.limit);
+      if (filters.offset !== undefined) {
+        query += ' OFFSET ?';
+        params.push(filters.offset);
+      }
+    }
+
+    return (dbInstance.prepare(query).all(...params) as DeliveryRow[]).map(toDelivery);
+  }
+
+  countDeliveries(filters: { tenantId: string; subscriptionId?: string; status?: DeliveryStatus }): number {
+    const { where, params } = this.deliveryFilter(filters);
+    const result = dbInstance
+      .prepare(`SELECT COUNT(*) as count FROM webhook_deliveries ${where}`)
+      .get(...params) as { count: number };
+    return result.count;
+  }
+
+  getDelivery(deliveryId: string, tenantId: string): WebhookDelivery | null {
+    const row = dbInstance
+      .prepare(`SELECT ${DELIVERY_COLUMNS} FROM webhook_deliveries WHERE id = ? AND tenantId = ?`)
+      .get(deliveryId, tenantId) as DeliveryRow | undefined;
+
+    return row ? toDelivery(row) : null;
+  }
+
+  /**
+   * Send a delivery again, whatever its state, with a fresh set of attempts.
+   * The payload, event id and signature scheme are unchanged, so receivers
+   * can deduplicate on the event id.
+   */
+  redeliver(deliveryId: string, tenantId: string): WebhookDelivery | null {
+    const result = dbInstance
+      .prepare(`
+        UPDATE webhook_deliveries
+        SET status = 'pending', attempts = 0, nextAttemptAt = ?, deliveredAt = NULL
+        WHERE id = ? AND tenantId = ?
+      `)
+      .run(new Date().toISOString(), deliveryId, tenantId);
+    if (result.changes === 0) {
+      return null;
+    }
+
+    void this.dispatch();
+    return this.getDelivery(deliveryId, tenantId);
+  }
+
+  /**
+   * Poll the outbox until stop() is called
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.dispatch(), this.options.pollIntervalMs);
+    // Don't keep the process alive just for webhooks
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send every due delivery once. Returns how many were attempted. Calls
+   * made while a pass is running share that pass.
+   */
+  dispatch(): Promise<number> {
+    if (!this.dispatching) {
+      this.dispatching = this.deliverDue()
+        .catch((error) => {
+          logger.error('Webhook dispatch error', { error });
+          return 0;
+        })
+        .finally(() => {
+          this.dispatching = null;
+        });
+    }
+    return this.dispatching;
+  }
+
+  private async deliverDue(): Promise<number> {
+    const now = new Date();
+    const due = dbInstance
+      .prepare(`
+        SELECT d.id, d.payload, d.attempts, d.nextAttemptAt, s.url, s.secret
+        FROM webhook_deliveries d
+        JOIN webhook_subscriptions s ON s.id = d.subscriptionId
+        WHERE d.status = 'pending' AND d.nextAttemptAt <= ? AND s.enabled = 1
+        ORDER BY d.nextAttemptAt ASC
+        LIMIT ?
+      `)
+      .all(now.toISOString(), this.options.batchSize) as {
+      id: string;
+      payload: string;
+      attempts: number;
+      nextAttemptAt: string;
+      url: string;
+      secret: string;
+    }[];
+
+    // Lease each delivery before sending so a crash mid-request leads to a
+    // retry later rather than a delivery stuck in flight
+    const lease = new Date(now.getTime() + this.options.timeoutMs * 2).toISOString();
+    const claim = dbInstance.prepare(
+      "UPDATE webhook_deliveries SET nextAttemptAt = ? WHERE id = ? AND status = 'pending' AND nextAttemptAt = ?"
+    );
+    const claimed = due.filter((delivery) => claim.run(lease, delivery.id, delivery.nextAttemptAt).changes > 0);
+
+    await Promise.all(claimed.map((delivery) => this.attempt(delivery)));
+    return claimed.length;
+  }
+
+  private async attempt(delivery: { id: string; payload: string; attempts: number; url: string; secret: string }) {
+    const attemptedAt = new Date();
+    const timestamp = Math.floor(attemptedAt.getTime() / 1000);
+    const payload = JSON.parse(delivery.payload) as WebhookPayload;
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await postWebhook(delivery.url, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'SpurSupport-Webhooks/1.0',
+          'X-Webhook-Id': payload.id,
+          'X-Webhook-Event': payload.type,
+          'X-Webhook-Signature': signWebhook(delivery.secret, timestamp, delivery.payload),
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+        allowPrivateAddresses: this.options.allowPrivateUrls,
+        maxBodyBytes: MAX_ERROR_LENGTH,
+      });
+      statusCode = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        error = `HTTP ${response.status}${response.body ? `: ${response.body.slice(0, MAX_ERROR_LENGTH)}` : ''}`;
+      }
+    } catch (caught: any) {
+      const timedOut = caught.name === 'TimeoutError' || caught.cause?.name === 'TimeoutError';
+      error = timedOut ? `Timed out after ${this.options.timeoutMs}ms` : caught.message;
+    }
+
+    const attempts = delivery.attempts + 1;
+    if (!error) {
+      dbInstance
+        .prepare(`
+          UPDATE webhook_deliveries
+          SET status = 'delivered', attempts = ?, lastAttemptAt = ?, lastStatusCode = ?, lastError = NULL, deliveredAt = ?
+          WHERE id = ?
+        `)
+        .run(attempts, attemptedAt.toISOString(), statusCode, attemptedAt.toISOString(), delivery.id);
+      return;
+    }
+
+    const dead = attempts >= this.options.maxAttempts;
+    const retryDelay = jitteredBackoff(attempts, this.options.retryBaseMs, this.options.retryMaxMs);
+    dbInstance
+      .prepare(`
+        UPDATE webhook_deliveries
+        SET status = ?, attempts = ?, nextAttemptAt = ?, lastAttemptAt = ?, lastStatusCode = ?, lastError = ?
+        WHERE id = ?
+      `)
+      .run(
+        dead ? 'dead' : 'pending',
+        attempts,
+        new Date(attemptedAt.getTime() + retryDelay).toISOString(),
+        attemptedAt.toISOString(),
+        statusCode,
+        error,
+        delivery.id
+      );
+    if (dead) {
+      logger.warn('Webhook delivery dead-lettered', { deliveryId: delivery.id, attempts, lastError: error });
+    }
+  }
+
+  private deliveryFilter(filters: { tenantId: string; subscriptionId?: string; status?: DeliveryStatus }) {
+    const conditions = ['tenantId = ?'];
+    const params: any[] = [filters.tenantId];
+
+    if (filters.subscriptionId) {
+      conditions.push('subscriptionId = ?');
+      params.push(filters.subscriptionId);
+    }
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+
+    return { where: `WHERE ${conditions.join(' AND ')}`, params };
+  }
+}
+
+/**
+ * Build the service from the environment:
+ * - `WEBHOOK_MAX_ATTEMPTS`: attempts before a delivery is dead-lettered, 10 by default
+ * - `WEBHOOK_TIMEOUT_MS`: how long a subscriber has to answer, 10000 by default
+ * - `WEBHOOK_POLL_INTERVAL_MS`: how often the outbox is checked, 5000 by default
+ * - `WEBHOOK_ALLOW_PRIVATE_URLS`: `true` to allow URLs on loopback and private
+ *   networks, e.g. a local receiver during development. Ignored in production
+ *
+ * With the default 30 second base delay, the last retry happens about four
+ * hours after the first failure.
+ */
+export function createWebhookService(env: NodeJS.ProcessEnv = process.env): WebhookService {
+  return new WebhookService({
+    maxAttempts: positiveInteger(env, 'WEBHOOK_MAX_ATTEMPTS', 10),
+    timeoutMs: positiveInteger(env, 'WEBHOOK_TIMEOUT_MS', 10000),
+    retryBaseMs: 30 * 1000,
+    retryMaxMs: 6 * 60 * 60 * 1000,
+    batchSize: 20,
+    pollIntervalMs: positiveInteger(env, 'WEBHOOK_POLL_INTERVAL_MS', 5000),
+    allowPrivateUrls: env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true' && env.NODE_ENV !== 'production',
+  });
+}
+
+export const webhookService = createWebhookService();
@@ -0,0 +1,163 @@
+import { lookup as dnsLookup, type LookupAddress, type LookupAllOptions, type LookupOneOptions } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import http from 'http';
+import https from 'https';
+
+/**
+ * Loopback, private, link-local (including the 169.254.169.254 cloud
+ * metadata address), carrier-grade NAT, documentation, multicast and other
+ * reserved ranges. Webhooks may not be sent there, or any tenant admin
+ * could use the delivery worker to reach the server's internal network.
+ */
+const RESERVED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  RESERVED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001::', 23],
+  ['2001:db8::', 32],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  RESERVED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether `address` (an IPv4 or IPv6 literal) is publicly routable.
+ * IPv4-mapped IPv6 addresses are refused outright rather than decoded.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !RESERVED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Why a webhook URL's host can't receive deliveries, or null if it may.
+ * Names are only checked for `localhost`; what they resolve to is checked
+ * when each delivery connects.
+ */
+export function webhookHostError(url: string): string | null {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    return 'Webhook URLs may not point at localhost';
+  }
+  if (isIP(hostname) !== 0 && !isPublicAddress(hostname)) {
+    return 'Webhook URLs may not point at private or reserved addresses';
+  }
+  return null;
+}
+
+/**
+ * DNS lookup for delivery connections that fails when the name resolves to
+ * a private or reserved address. The connection uses the address checked
+ * here, so a name can't pass validation and then resolve elsewhere.
+ */
+const publicOnlyLookup = ((
+  hostname: string,
+  options: LookupOneOptions | LookupAllOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked) {
+      const refused: NodeJS.ErrnoException = new Error(
+        `${hostname} resolves to ${blocked.address}, a private or reserved address`
+      );
+      refused.code = 'EADDRNOTPUBLIC';
+      callback(refused, []);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as LookupFunction;
+
+export interface WebhookResponse {
+  status: number;
+  body: string;
+}
+
+/**
+ * POST `body` to `url` without following redirects. Unless
+ * `allowPrivateAddresses` is set, hosts that are or resolve to private or
+ * reserved addresses are refused before anything is sent. Only the first
+ * `maxBodyBytes` of the response are read; the connection is closed after
+ * that, so a receiver can't make the server buffer an endless body.
+ */
+export function postWebhook(
+  url: string,
+  options: {
+    headers: Record<string, string>;
+    body: string;
+    signal: AbortSignal;
+    allowPrivateAddresses: boolean;
+    maxBodyBytes: number;
+  }
+): Promise<WebhookResponse> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const hostname = target.hostname.replace(/^\[|\]$/g, '');
+    if (!options.allowPrivateAddresses && isIP(hostname) !== 0 && !isPublicAddress(hostname)) {
+      reject(new Error(`${hostname} is a private or reserved address`));
+      return;
+    }
+
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { ...options.headers, 'Content-Length': Buffer.byteLength(options.body).toString() },
+      lookup: options.allowPrivateAddresses ? undefined : publicOnlyLookup,
+      signal: options.signal,
+    });
+    request.on('response', (response) => {
+      const status = response.statusCode ?? 0;
+      const chunks: Buffer[] = [];
+      let received = 0;
+      response.on('data', (chunk: Buffer) => {
+        const kept = chunk.subarray(0, options.maxBodyBytes - received);
+        chunks.push(kept);
+        received += kept.length;
+        if (received >= options.maxBodyBytes) {
+          response.destroy();
+          resolve({ status, body: Buffer.concat(chunks).toString('utf8') });
+        }
+      });
+      response.on('end', () => resolve({ status, body: Buffer.concat(chunks).toString('utf8') }));
+      response.on('error', reject);
+    });
+    request.on('error', reject);
+    request.end(options.body);
+  });
+}
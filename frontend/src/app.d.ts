@@ -1,9 +1,16 @@
+import type { AdminIdentity } from '$lib/server/adminSession';
+
 // See https://kit.svelte.dev/docs/types#app
 // for information about these interfaces
 declare global {
 	namespace App {
 		// interface Error {}
-		// interface Locals {}
+		interface Locals {
+			/** Signed-in admin user, set by hooks.server.ts on /admin and /api/admin requests */
+			admin: AdminIdentity | null;
+			/** Correlates this request's log lines with the backend's, set by hooks.server.ts */
+			requestId: string;
+		}
 		// interface PageData {}
 		// interface Platform {}
 	}
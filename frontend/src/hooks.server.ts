@@ -0,0 +1,34 @@
+import { json, redirect, type Handle } from '@sveltejs/kit';
+import { loadAdminSession } from '$lib/server/adminSession';
+import { resolveRequestId, runWithRequestId } from '$lib/server/requestId';
+
+function isWithin(pathname: string, prefix: string): boolean {
+	return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+export const handle: Handle = async ({ event, resolve }) => {
+	// Backend calls made while handling the request carry its id, and so
+	// does the response
+	const requestId = resolveRequestId(event.request);
+	event.locals.requestId = requestId;
+	const response = await runWithRequestId(requestId, () => handleRequest({ event, resolve }));
+	response.headers.set('X-Request-Id', requestId);
+	return response;
+};
+
+const handleRequest: Handle = async ({ event, resolve }) => {
+	const { pathname } = event.url;
+	const isAdminPath = isWithin(pathname, '/admin') || isWithin(pathname, '/api/admin');
+	event.locals.admin = isAdminPath ? await loadAdminSession(event.cookies) : null;
+
+	// Admin proxy routes act with the user's backend session, so they require one
+	if (isWithin(pathname, '/api/admin') && !event.locals.admin) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	if (isWithin(pathname, '/admin') && pathname !== '/admin/login' && !event.locals.admin) {
+		redirect(303, '/admin/login');
+	}
+
+	return resolve(event);
+};
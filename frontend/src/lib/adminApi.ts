@@ -0,0 +1,179 @@
+import { error, redirect } from '@sveltejs/kit';
+import type { ConversationStatus, Message } from './api';
+
+// Admin requests always go through SvelteKit's server routes, which add the
+// backend API key; it is never exposed to the browser
+const ADMIN_API_BASE_URL = '/api/admin';
+
+type Fetch = typeof fetch;
+
+export interface ConversationSummary {
+	id: string;
+	createdAt: string;
+	updatedAt: string;
+	status: ConversationStatus;
+	assignedAgent: string | null;
+	escalatedAt: string | null;
+	escalationReason: string | null;
+	/** Rolling summary of the earlier turns, once the conversation outgrows the prompt */
+	summary: string | null;
+	summaryUpdatedAt: string | null;
+}
+
+export interface Pagination {
+	total: number;
+	limit: number;
+	offset: number;
+	hasMore: boolean;
+}
+
+export interface ConversationList {
+	conversations: ConversationSummary[];
+	pagination: Pagination;
+}
+
+export interface MessageSource {
+	articleId: string;
+	title: string;
+	snippet: string;
+	score: number;
+}
+
+export interface ToolCall {
+	name: string;
+	arguments: unknown;
+	result: unknown;
+	status: 'success' | 'error';
+	error?: string;
+	durationMs: number;
+	createdAt: string;
+}
+
+export type ModerationAction = 'allow' | 'flag' | 'rewrite' | 'block';
+
+export interface ModerationVerdict {
+	direction: 'input' | 'output';
+	action: ModerationAction;
+	flags: { rule: string; action: Exclude<ModerationAction, 'allow'>; reason: string }[];
+	/** Text before a rewrite or block replaced it */
+	originalText?: string;
+}
+
+/** A bot turn where the LLM couldn't reply; the message holds what was sent instead */
+export interface ReplyFailure {
+	type: 'invalid_key' | 'rate_limit' | 'timeout' | 'unavailable' | 'circuit_open' | 'other';
+	message: string;
+	recovery: 'faq' | 'apology' | 'partial';
+	attempts: { provider: string; model: string; type: ReplyFailure['type']; message: string }[];
+}
+
+/** Whether a bot reply was served from the response cache */
+export interface ResponseCacheResult {
+	status: 'hit' | 'miss';
+	entryId?: string;
+	/** Question the cached reply was written for */
+	question?: string;
+	similarity?: number;
+}
+
+export interface TranscriptMessage extends Message {
+	sources?: MessageSource[];
+	toolCalls?: ToolCall[];
+	moderation?: ModerationVerdict | null;
+	failure?: ReplyFailure | null;
+	cache?: ResponseCacheResult | null;
+}
+
+export interface ConversationDetail extends ConversationSummary {
+	messages: TranscriptMessage[];
+}
+
+export interface SatisfactionDay {
+	date: string;
+	thumbsUp: number;
+	thumbsDown: number;
+	helpfulRate: number | null;
+	csatResponses: number;
+	averageCsat: number | null;
+}
+
+export interface SatisfactionStats {
+	thumbsUp: number;
+	thumbsDown: number;
+	helpfulRate: number | null;
+	csatResponses: number;
+	averageCsat: number | null;
+	csatSatisfiedRate: number | null;
+	daily: SatisfactionDay[];
+}
+
+export interface ResponseCacheStats {
+	entries: number;
+	lookups: number;
+	hits: number;
+	hitRate: number | null;
+	daily: { date: string; lookups: number; hits: number; hitRate: number | null }[];
+}
+
+export interface Stats {
+	totalConversations: number;
+	totalMessages: number;
+	userMessages: number;
+	aiMessages: number;
+	agentMessages: number;
+	failedReplies: number;
+	conversationsAwaitingAgent: number;
+	averageMessagesPerConversation: number;
+	satisfaction: SatisfactionStats;
+	responseCache: ResponseCacheStats;
+	timestamp: string;
+}
+
+export class AdminApiError extends Error {
+	constructor(message: string, public status: number) {
+		super(message);
+		this.name = 'AdminApiError';
+	}
+}
+
+async function getJson<T>(fetchFn: Fetch, path: string, fallbackError: string): Promise<T> {
+	const response = await fetchFn(`${ADMIN_API_BASE_URL}${path}`);
+
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+		throw new AdminApiError(error.message || error.error || fallbackError, response.status);
+	}
+
+	return response.json();
+}
+
+export function getConversations(
+	fetchFn: Fetch,
+	limit: number,
+	offset: number
+): Promise<ConversationList> {
+	const params = new URLSearchParams({ limit: String(limit), offset: String(offset) });
+	return getJson(fetchFn, `/conversations?${params}`, 'Failed to load conversations');
+}
+
+export function getConversation(fetchFn: Fetch, id: string): Promise<ConversationDetail> {
+	return getJson(fetchFn, `/conversations/${encodeURIComponent(id)}`, 'Failed to load conversation');
+}
+
+export function getStats(fetchFn: Fetch): Promise<Stats> {
+	return getJson(fetchFn, '/stats', 'Failed to load statistics');
+}
+
+/**
+ * Turn a failed admin request inside a load function into the matching
+ * SvelteKit response: expired sessions go back to the login page.
+ */
+export function handleAdminLoadError(err: unknown): never {
+	if (err instanceof AdminApiError) {
+		if (err.status === 401) {
+			redirect(303, '/admin/login');
+		}
+		error(err.status, err.message);
+	}
+	throw err;
+}
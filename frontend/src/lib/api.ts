@@ -1,36 +1,190 @@
 // Use relative URL for API calls - SvelteKit will proxy to backend
-// In production, this avoids CORS issues since both are on the same origin
-const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
+// In production, this avoids CORS issues since both are on the same origin.
+// The embeddable widget points these at the backend with configureApi()
+let API_BASE_URL: string = import.meta.env.VITE_API_URL || '/api';
+let widgetHeaders: Record<string, string> = {};
+let customer: CustomerIdentity | null = null;
+
+// Through this app's proxy the session token stays in an httpOnly cookie.
+// Calling the backend directly, the widget has to keep the token itself
+const SESSION_TOKEN_KEY = 'chatSessionToken';
+let holdsSessionToken = false;
+
+export type MessageSender = 'user' | 'ai' | 'agent';
+
+export type ConversationStatus = 'active' | 'awaiting_agent' | 'agent_assigned';
+
+export type FeedbackRating = 'up' | 'down';
 
 export interface Message {
 	id: string;
 	conversationId: string;
-	sender: 'user' | 'ai';
+	sender: MessageSender;
 	text: string;
 	timestamp: string;
+	/** The customer's thumbs up/down, on AI replies they rated */
+	feedback?: FeedbackRating;
 }
 
 export interface ChatResponse {
-	reply: string;
+	/** Null while a human agent is handling the conversation */
+	reply: string | null;
+	sessionId: string;
+	status: ConversationStatus;
+}
+
+export interface StreamDone {
+	messageId: string | null;
+	sessionId: string;
+	/** The saved reply, which replaces the streamed text if moderation changed it */
+	reply: string | null;
+	status: ConversationStatus;
+}
+
+export interface EscalationResponse {
+	sessionId: string;
+	status: ConversationStatus;
+	assignedAgent: string | null;
+}
+
+export interface StreamHandlers {
+	onToken: (text: string) => void;
+	onDone: (result: StreamDone) => void;
+}
+
+/** Live activity in the conversation, pushed by the backend */
+export type ConversationEvent =
+	| { type: 'message.created'; message: Message }
+	/** The bot is writing a reply, or the agent is typing */
+	| { type: 'typing'; sender: Exclude<MessageSender, 'user'>; active: boolean }
+	| { type: 'conversation.status'; status: ConversationStatus; assignedAgent: string | null };
+
+export interface ConversationEventHandlers {
+	/** The stream is connected; messages missed since `lastEventId` follow */
+	onOpen: () => void;
+	onEvent: (event: ConversationEvent) => void;
+}
+
+export interface CustomerIdentity {
+	id?: string;
+	name?: string;
+	email?: string;
+}
+
+export interface ApiOptions {
+	/** Backend URL, e.g. `https://support.example.com` */
+	baseUrl: string;
+	/** Sent as `X-Widget-Key` when calling the backend directly */
+	widgetKey?: string;
+}
+
+export interface ResumedSession {
 	sessionId: string;
+	expiresAt: string;
 }
 
 export interface ConversationHistory {
 	sessionId: string;
 	createdAt: string;
+	status: ConversationStatus;
+	assignedAgent: string | null;
+	/** End-of-conversation rating (1-5), null until the customer rates it */
+	csatScore: number | null;
 	messages: Message[];
 }
 
-export async function sendMessage(
-	message: string,
-	sessionId?: string
-): Promise<ChatResponse> {
-	const response = await fetch(`${API_BASE_URL}/chat/message`, {
+export class ChatApiError extends Error {
+	constructor(message: string, public status: number) {
+		super(message);
+		this.name = 'ChatApiError';
+	}
+}
+
+/**
+ * Call the backend directly instead of through this app's proxy routes
+ */
+export function configureApi(options: ApiOptions): void {
+	API_BASE_URL = options.baseUrl.replace(/\/+$/, '');
+	widgetHeaders = options.widgetKey ? { 'X-Widget-Key': options.widgetKey } : {};
+	holdsSessionToken = true;
+}
+
+/**
+ * Attach the signed-in customer to the conversation with the next message
+ */
+export function setCustomer(identity: CustomerIdentity | null): void {
+	customer = identity;
+}
+
+/**
+ * Call a /chat endpoint, sending the session token when the browser holds
+ * it and keeping any new token the backend issues
+ */
+async function chatFetch(path: string, init: RequestInit = {}): Promise<Response> {
+	const token = holdsSessionToken ? localStorage.getItem(SESSION_TOKEN_KEY) : null;
+	const response = await fetch(`${API_BASE_URL}/chat${path}`, {
+		...init,
+		headers: {
+			...init.headers,
+			...widgetHeaders,
+			...(token ? { 'X-Session-Token': token } : {}),
+		},
+	});
+
+	if (holdsSessionToken) {
+		const issued = response.headers.get('X-Session-Token');
+		if (issued) {
+			localStorage.setItem(SESSION_TOKEN_KEY, issued);
+		} else if (response.status === 401) {
+			localStorage.removeItem(SESSION_TOKEN_KEY);
+		}
+	}
+	return response;
+}
+
+/**
+ * Pick up the customer's conversation from an earlier visit, rotating its
+ * session token. Null when there is none, or it expired.
+ */
+export async function resumeSession(): Promise<ResumedSession | null> {
+	if (holdsSessionToken && !localStorage.getItem(SESSION_TOKEN_KEY)) {
+		return null;
+	}
+
+	const response = await chatFetch('/session/refresh', {
+		method: 'POST',
+	});
+	if (response.status === 401) {
+		return null;
+	}
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+		throw new Error(error.message || error.error || 'Failed to resume conversation');
+	}
+
+	return response.json();
+}
+
+/**
+ * Leave the current conversation; its session token stops working
+ */
+export async function endSession(): Promise<void> {
+	try {
+		await chatFetch('/session', { method: 'DELETE' });
+	} finally {
+		if (holdsSessionToken) {
+			localStorage.removeItem(SESSION_TOKEN_KEY);
+		}
+	}
+}
+
+export async function sendMessage(message: string): Promise<ChatResponse> {
+	const response = await chatFetch('/message', {
 		method: 'POST',
 		headers: {
 			'Content-Type': 'application/json',
 		},
-		body: JSON.stringify({ message, sessionId }),
+		body: JSON.stringify({ message, ...(customer ? { customer } : {}) }),
 	});
 
 	if (!response.ok) {
@@ -41,16 +195,167 @@ export async function sendMessage(
 	return response.json();
 }
 
-export async function getConversationHistory(
-	sessionId: string
-): Promise<ConversationHistory> {
-	const response = await fetch(`${API_BASE_URL}/chat/history/${sessionId}`);
+/**
+ * Send a message and receive the reply as Server-Sent Events.
+ * Resolves once the stream ends; `onDone` fires with the persisted message id.
+ */
+export async function streamMessage(
+	message: string,
+	handlers: StreamHandlers,
+	signal?: AbortSignal
+): Promise<void> {
+	const response = await chatFetch('/message', {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			Accept: 'text/event-stream',
+		},
+		body: JSON.stringify({ message, ...(customer ? { customer } : {}) }),
+		signal,
+	});
+
+	if (!response.ok || !response.body) {
+		const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+		throw new Error(error.message || error.error || 'Failed to send message');
+	}
+
+	await readEventStream(response.body, (event, payload) => {
+		if (event === 'token') {
+			handlers.onToken(payload.text);
+		} else if (event === 'done') {
+			handlers.onDone(payload);
+		} else if (event === 'error') {
+			throw new Error(payload.message || payload.error || 'Failed to send message');
+		}
+	});
+}
+
+/**
+ * Follow the conversation's live events until the backend closes the
+ * stream or `signal` aborts. With `lastEventId` (the last message the
+ * widget has), messages saved since then are sent first. Rejects if the
+ * stream can't be opened, e.g. when a proxy doesn't support it.
+ */
+export async function streamConversationEvents(
+	lastEventId: string | null,
+	handlers: ConversationEventHandlers,
+	signal: AbortSignal
+): Promise<void> {
+	const response = await chatFetch('/events', {
+		headers: {
+			Accept: 'text/event-stream',
+			...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+		},
+		signal,
+	});
+
+	if (!response.ok || !response.body) {
+		const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+		throw new Error(error.message || error.error || 'Failed to open the event stream');
+	}
+
+	handlers.onOpen();
+	await readEventStream(response.body, (type, payload) => {
+		handlers.onEvent({ type, ...payload } as ConversationEvent);
+	});
+}
+
+/**
+ * Parse a Server-Sent Events body, calling `onEvent` with each event's name
+ * and JSON data. Comments (keep-alives), ids and retry hints are skipped.
+ */
+async function readEventStream(
+	body: ReadableStream<Uint8Array>,
+	onEvent: (event: string, payload: any) => void
+): Promise<void> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+
+	while (true) {
+		const { value, done } = await reader.read();
+		if (done) break;
+
+		buffer += decoder.decode(value, { stream: true });
+
+		// Events are separated by a blank line
+		let boundary: number;
+		while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+			const rawEvent = buffer.slice(0, boundary);
+			buffer = buffer.slice(boundary + 2);
+
+			let event = 'message';
+			let data = '';
+			for (const line of rawEvent.split('\n')) {
+				if (line.startsWith('event:')) event = line.slice(6).trim();
+				else if (line.startsWith('data:')) data += line.slice(5).trim();
+			}
+			if (!data) continue;
+
+			onEvent(event, JSON.parse(data));
+		}
+	}
+}
+
+export async function getConversationHistory(): Promise<ConversationHistory> {
+	const response = await chatFetch('/history');
 
 	if (!response.ok) {
 		const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-		throw new Error(error.message || error.error || 'Failed to load history');
+		throw new ChatApiError(error.message || error.error || 'Failed to load history', response.status);
 	}
 
 	return response.json();
 }
 
+
+export async function requestAgent(reason?: string): Promise<EscalationResponse> {
+	const response = await chatFetch('/escalate', {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify({ reason }),
+	});
+
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+		throw new Error(error.message || error.error || 'Failed to request a human agent');
+	}
+
+	return response.json();
+}
+
+export async function sendFeedback(
+	messageId: string,
+	rating: FeedbackRating,
+	comment?: string
+): Promise<void> {
+	const response = await chatFetch('/feedback', {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify({ messageId, rating, comment }),
+	});
+
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+		throw new Error(error.message || error.error || 'Failed to save feedback');
+	}
+}
+
+export async function rateConversation(score: number, comment?: string): Promise<void> {
+	const response = await chatFetch('/rating', {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify({ score, comment }),
+	});
+
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+		throw new Error(error.message || error.error || 'Failed to save rating');
+	}
+}
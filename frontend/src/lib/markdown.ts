@@ -0,0 +1,26 @@
+import { Marked } from 'marked';
+import type { MessageSender } from './api';
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+const markdown = new Marked({
+	breaks: true, // Convert line breaks to <br>
+	gfm: true, // GitHub Flavored Markdown
+	renderer: {
+		// Replies are model output, so raw HTML in them is shown as text
+		html({ text }) {
+			return escapeHtml(text);
+		},
+	},
+});
+
+// Format message text - convert markdown to HTML for AI messages
+export function formatMessage(text: string, sender: MessageSender): string {
+	if (sender === 'ai') {
+		return markdown.parse(text) as string;
+	}
+	// User messages stay as plain text (escape HTML)
+	return text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
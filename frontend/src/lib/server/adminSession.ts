@@ -0,0 +1,102 @@
+import type { Cookies } from '@sveltejs/kit';
+import { requestIdHeaders } from './requestId';
+
+export const ADMIN_SESSION_COOKIE = 'admin_session';
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:10000';
+
+/** The signed-in admin user, as returned by the backend's `/auth/me` */
+export interface AdminIdentity {
+	user: {
+		id: string;
+		email: string;
+		name: string;
+		role: 'viewer' | 'agent' | 'admin';
+	};
+	tenant: {
+		id: string;
+		name: string;
+	};
+	scopes: string[];
+}
+
+export type AdminLoginResult = { ok: true } | { ok: false; status: number; error: string };
+
+/** Bearer header carrying the backend session token, once signed in */
+export function adminAuthHeaders(cookies: Cookies): Record<string, string> {
+	const token = cookies.get(ADMIN_SESSION_COOKIE);
+	return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Sign in against the backend and keep its session token in an httpOnly
+ * cookie. The token is only ever sent from this server to the backend.
+ */
+export async function startAdminSession(
+	cookies: Cookies,
+	email: string,
+	password: string
+): Promise<AdminLoginResult> {
+	const response = await fetch(`${BACKEND_URL}/auth/login`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...requestIdHeaders() },
+		body: JSON.stringify({ email, password }),
+	});
+
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}));
+		return {
+			ok: false,
+			status: response.status,
+			error: response.status === 401 ? 'Incorrect email or password' : error.message || error.error || 'Sign-in failed',
+		};
+	}
+
+	const session = (await response.json()) as { token: string; expiresAt: string };
+	cookies.set(ADMIN_SESSION_COOKIE, session.token, {
+		path: '/',
+		httpOnly: true,
+		sameSite: 'strict',
+		secure: process.env.NODE_ENV === 'production',
+		expires: new Date(session.expiresAt),
+	});
+	return { ok: true };
+}
+
+/**
+ * End the backend session as well as dropping the cookie
+ */
+export async function endAdminSession(cookies: Cookies) {
+	const headers = adminAuthHeaders(cookies);
+	cookies.delete(ADMIN_SESSION_COOKIE, { path: '/' });
+
+	if (headers.Authorization) {
+		await fetch(`${BACKEND_URL}/auth/logout`, { method: 'POST', headers: { ...headers, ...requestIdHeaders() } }).catch((error) => {
+			console.error('Admin logout error:', error);
+		});
+	}
+}
+
+/**
+ * The user behind the session cookie, checked with the backend on every
+ * admin request so revoked sessions and disabled users are locked out
+ * straight away. Sessions the backend rejects are dropped.
+ */
+export async function loadAdminSession(cookies: Cookies): Promise<AdminIdentity | null> {
+	const headers = adminAuthHeaders(cookies);
+	if (!headers.Authorization) {
+		return null;
+	}
+
+	try {
+		const response = await fetch(`${BACKEND_URL}/auth/me`, { headers: { ...headers, ...requestIdHeaders() } });
+		if (response.status === 401) {
+			cookies.delete(ADMIN_SESSION_COOKIE, { path: '/' });
+			return null;
+		}
+		return response.ok ? ((await response.json()) as AdminIdentity) : null;
+	} catch (error) {
+		console.error('Admin session check error:', error);
+		return null;
+	}
+}
@@ -0,0 +1,37 @@
+import type { Cookies } from '@sveltejs/kit';
+
+export const CHAT_SESSION_COOKIE = 'chat_session';
+
+// Only the /api/chat proxy routes need the token
+const COOKIE_PATH = '/api/chat';
+
+/** Header proving the customer owns their conversation, once they have one */
+export function chatSessionHeaders(cookies: Cookies): Record<string, string> {
+	const token = cookies.get(CHAT_SESSION_COOKIE);
+	return token ? { 'X-Session-Token': token } : {};
+}
+
+/**
+ * Keep the session token the backend issued (for a new conversation or on
+ * refresh) in an httpOnly cookie, so page scripts never see it. A token the
+ * backend rejected is dropped.
+ */
+export function syncChatSession(cookies: Cookies, response: Response) {
+	const token = response.headers.get('x-session-token');
+	if (token) {
+		const expires = response.headers.get('x-session-expires');
+		cookies.set(CHAT_SESSION_COOKIE, token, {
+			path: COOKIE_PATH,
+			httpOnly: true,
+			sameSite: 'strict',
+			secure: process.env.NODE_ENV === 'production',
+			...(expires ? { expires: new Date(expires) } : {}),
+		});
+	} else if (response.status === 401) {
+		endChatSession(cookies);
+	}
+}
+
+export function endChatSession(cookies: Cookies) {
+	cookies.delete(CHAT_SESSION_COOKIE, { path: COOKIE_PATH });
+}
@@ -0,0 +1,42 @@
+import { json, type Cookies } from '@sveltejs/kit';
+import { adminAuthHeaders } from './adminSession';
+import { requestIdHeaders } from './requestId';
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:10000';
+
+/**
+ * Forward a GET to the backend's `/data` API with the signed-in user's
+ * session token and relay the JSON response, mirroring the `api/chat/*`
+ * proxy routes. The backend checks the user's scopes.
+ */
+export async function proxyDataRequest(cookies: Cookies, path: string, fallbackError: string): Promise<Response> {
+	try {
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/json',
+			...adminAuthHeaders(cookies),
+			...requestIdHeaders(),
+		};
+
+		const response = await fetch(`${BACKEND_URL}/data${path}`, {
+			method: 'GET',
+			headers,
+		});
+
+		if (!response.ok) {
+			const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+			return json(
+				{ error: error.message || error.error || fallbackError },
+				{ status: response.status }
+			);
+		}
+
+		const data = await response.json();
+		return json(data);
+	} catch (error: any) {
+		console.error('Proxy error:', error);
+		return json(
+			{ error: error.message || 'Internal server error' },
+			{ status: 500 }
+		);
+	}
+}
@@ -0,0 +1,27 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+
+// Same rule as the backend: anything else is replaced with a fresh id
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const requestIds = new AsyncLocalStorage<string>();
+
+/**
+ * The id correlating a request's log lines here and on the backend: the
+ * one the caller (a load balancer, say) sent in `X-Request-Id`, or a new one
+ */
+export function resolveRequestId(request: Request): string {
+	const incoming = request.headers.get('x-request-id');
+	return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+}
+
+/** Handle the request with its id available to requestIdHeaders */
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+	return requestIds.run(requestId, fn);
+}
+
+/** Header passing the current request's id on to the backend, which logs it */
+export function requestIdHeaders(): Record<string, string> {
+	const requestId = requestIds.getStore();
+	return requestId ? { 'X-Request-Id': requestId } : {};
+}
@@ -0,0 +1,7 @@
+import type { LayoutServerLoad } from './$types';
+
+export const load: LayoutServerLoad = async ({ locals }) => {
+	return {
+		user: locals.admin ? { name: locals.admin.user.name, role: locals.admin.user.role } : null,
+	};
+};
@@ -0,0 +1,24 @@
+import type { PageLoad } from './$types';
+import { getConversations, handleAdminLoadError } from '$lib/adminApi';
+
+const PAGE_SIZE = 20;
+
+export const load: PageLoad = async ({ fetch, url }) => {
+	const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10) || 1);
+
+	try {
+		const { conversations, pagination } = await getConversations(
+			fetch,
+			PAGE_SIZE,
+			(page - 1) * PAGE_SIZE
+		);
+		return {
+			conversations,
+			pagination,
+			page,
+			pageCount: Math.max(1, Math.ceil(pagination.total / PAGE_SIZE)),
+		};
+	} catch (err) {
+		handleAdminLoadError(err);
+	}
+};
@@ -0,0 +1,12 @@
+import type { PageLoad } from './$types';
+import { getConversation, handleAdminLoadError } from '$lib/adminApi';
+
+export const load: PageLoad = async ({ fetch, params }) => {
+	try {
+		return {
+			conversation: await getConversation(fetch, params.id),
+		};
+	} catch (err) {
+		handleAdminLoadError(err);
+	}
+};
@@ -0,0 +1,35 @@
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { startAdminSession } from '$lib/server/adminSession';
+
+export const load: PageServerLoad = async ({ locals }) => {
+	if (locals.admin) {
+		redirect(303, '/admin');
+	}
+};
+
+export const actions: Actions = {
+	default: async ({ request, cookies }) => {
+		const data = await request.formData();
+		const email = data.get('email');
+		const password = data.get('password');
+
+		if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+			return fail(400, { email: typeof email === 'string' ? email : '', error: 'Enter your email and password' });
+		}
+
+		let result;
+		try {
+			result = await startAdminSession(cookies, email, password);
+		} catch (error) {
+			console.error('Admin login error:', error);
+			return fail(502, { email, error: 'Could not reach the backend. Please try again.' });
+		}
+
+		if (!result.ok) {
+			return fail(result.status, { email, error: result.error });
+		}
+
+		redirect(303, '/admin');
+	},
+};
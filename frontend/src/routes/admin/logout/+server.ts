@@ -0,0 +1,8 @@
+import { redirect } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { endAdminSession } from '$lib/server/adminSession';
+
+export const POST: RequestHandler = async ({ cookies }) => {
+	await endAdminSession(cookies);
+	redirect(303, '/admin/login');
+};
@@ -0,0 +1,12 @@
+import type { PageLoad } from './$types';
+import { getStats, handleAdminLoadError } from '$lib/adminApi';
+
+export const load: PageLoad = async ({ fetch }) => {
+	try {
+		return {
+			stats: await getStats(fetch),
+		};
+	} catch (err) {
+		handleAdminLoadError(err);
+	}
+};
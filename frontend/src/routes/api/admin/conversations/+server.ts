@@ -0,0 +1,15 @@
+import type { RequestHandler } from './$types';
+import { proxyDataRequest } from '$lib/server/dataApi';
+
+export const GET: RequestHandler = async ({ url, cookies }) => {
+	const params = new URLSearchParams();
+	for (const key of ['limit', 'offset']) {
+		const value = url.searchParams.get(key);
+		if (value !== null) {
+			params.set(key, value);
+		}
+	}
+
+	const query = params.toString() ? `?${params}` : '';
+	return proxyDataRequest(cookies, `/conversations${query}`, 'Failed to load conversations');
+};
@@ -0,0 +1,10 @@
+import type { RequestHandler } from './$types';
+import { proxyDataRequest } from '$lib/server/dataApi';
+
+export const GET: RequestHandler = async ({ params, cookies }) => {
+	return proxyDataRequest(
+		cookies,
+		`/conversations/${encodeURIComponent(params.id)}`,
+		'Failed to load conversation'
+	);
+};
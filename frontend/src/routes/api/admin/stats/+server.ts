@@ -0,0 +1,6 @@
+import type { RequestHandler } from './$types';
+import { proxyDataRequest } from '$lib/server/dataApi';
+
+export const GET: RequestHandler = async ({ cookies }) => {
+	return proxyDataRequest(cookies, '/stats', 'Failed to load statistics');
+};
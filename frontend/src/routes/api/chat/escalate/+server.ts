@@ -0,0 +1,43 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requestIdHeaders } from '$lib/server/requestId';
+import { chatSessionHeaders, syncChatSession } from '$lib/server/chatSession';
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:10000';
+// Public key identifying the store (tenant) this frontend serves
+const WIDGET_KEY = process.env.WIDGET_KEY || 'wk_default';
+
+export const POST: RequestHandler = async ({ request, cookies }) => {
+	try {
+		const body = await request.json();
+		
+		const response = await fetch(`${BACKEND_URL}/chat/escalate`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'X-Widget-Key': WIDGET_KEY,
+				...chatSessionHeaders(cookies),
+				...requestIdHeaders(),
+			},
+			body: JSON.stringify(body),
+		});
+		syncChatSession(cookies, response);
+
+		if (!response.ok) {
+			const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+			return json(
+				{ error: error.message || error.error || 'Failed to request a human agent' },
+				{ status: response.status }
+			);
+		}
+
+		const data = await response.json();
+		return json(data);
+	} catch (error: any) {
+		console.error('Proxy error:', error);
+		return json(
+			{ error: error.message || 'Internal server error' },
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,53 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requestIdHeaders } from '$lib/server/requestId';
+import { chatSessionHeaders, syncChatSession } from '$lib/server/chatSession';
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:10000';
+// Public key identifying the store (tenant) this frontend serves
+const WIDGET_KEY = process.env.WIDGET_KEY || 'wk_default';
+
+// Live conversation events; the widget resumes with Last-Event-ID
+export const GET: RequestHandler = async ({ request, cookies }) => {
+	const lastEventId = request.headers.get('last-event-id');
+
+	try {
+		const response = await fetch(`${BACKEND_URL}/chat/events`, {
+			method: 'GET',
+			headers: {
+				'X-Widget-Key': WIDGET_KEY,
+				...chatSessionHeaders(cookies),
+				...requestIdHeaders(),
+				Accept: 'text/event-stream',
+				...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+			},
+			// Close the backend stream when the browser goes away
+			signal: request.signal,
+		});
+		syncChatSession(cookies, response);
+
+		if (!response.ok) {
+			const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+			return json(
+				{ error: error.message || error.error || 'Failed to open the event stream' },
+				{ status: response.status }
+			);
+		}
+
+		// Pass Server-Sent Events straight through without buffering
+		return new Response(response.body, {
+			headers: {
+				'Content-Type': 'text/event-stream',
+				'Cache-Control': 'no-cache, no-transform',
+				Connection: 'keep-alive',
+				'X-Accel-Buffering': 'no',
+			},
+		});
+	} catch (error: any) {
+		console.error('Proxy error:', error);
+		return json(
+			{ error: error.message || 'Internal server error' },
+			{ status: 500 }
+		);
+	}
+};
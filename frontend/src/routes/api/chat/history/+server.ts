@@ -1,18 +1,24 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
+import { requestIdHeaders } from '$lib/server/requestId';
+import { chatSessionHeaders, syncChatSession } from '$lib/server/chatSession';
 
 const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:10000';
+// Public key identifying the store (tenant) this frontend serves
+const WIDGET_KEY = process.env.WIDGET_KEY || 'wk_default';
 
-export const GET: RequestHandler = async ({ params }) => {
+export const GET: RequestHandler = async ({ cookies }) => {
 	try {
-		const { sessionId } = params;
-		
-		const response = await fetch(`${BACKEND_URL}/chat/history/${sessionId}`, {
+		const response = await fetch(`${BACKEND_URL}/chat/history`, {
 			method: 'GET',
 			headers: {
 				'Content-Type': 'application/json',
+				'X-Widget-Key': WIDGET_KEY,
+				...chatSessionHeaders(cookies),
+				...requestIdHeaders(),
 			},
 		});
+		syncChatSession(cookies, response);
 
 		if (!response.ok) {
 			const error = await response.json().catch(() => ({ error: 'Unknown error' }));
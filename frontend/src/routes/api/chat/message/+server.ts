@@ -1,19 +1,33 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
+import { requestIdHeaders } from '$lib/server/requestId';
+import { chatSessionHeaders, syncChatSession } from '$lib/server/chatSession';
 
 const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:10000';
+// Public key identifying the store (tenant) this frontend serves
+const WIDGET_KEY = process.env.WIDGET_KEY || 'wk_default';
 
-export const POST: RequestHandler = async ({ request }) => {
+export const POST: RequestHandler = async ({ request, cookies }) => {
 	try {
 		const body = await request.json();
+		const accept = request.headers.get('accept') || 'application/json';
 		
 		const response = await fetch(`${BACKEND_URL}/chat/message`, {
 			method: 'POST',
 			headers: {
 				'Content-Type': 'application/json',
+				'X-Widget-Key': WIDGET_KEY,
+				...chatSessionHeaders(cookies),
+				...requestIdHeaders(),
+				Accept: accept,
 			},
 			body: JSON.stringify(body),
+			// Abort the backend request when the browser disconnects so a
+			// partial streamed reply is saved
+			signal: request.signal,
 		});
+		// A new conversation comes with its session token
+		syncChatSession(cookies, response);
 
 		if (!response.ok) {
 			const error = await response.json().catch(() => ({ error: 'Unknown error' }));
@@ -23,6 +37,18 @@ export const POST: RequestHandler = async ({ request }) => {
 			);
 		}
 
+		// Pass Server-Sent Events straight through without buffering
+		if (response.headers.get('content-type')?.includes('text/event-stream')) {
+			return new Response(response.body, {
+				headers: {
+					'Content-Type': 'text/event-stream',
+					'Cache-Control': 'no-cache, no-transform',
+					Connection: 'keep-alive',
+					'X-Accel-Buffering': 'no',
+				},
+			});
+		}
+
 		const data = await response.json();
 		return json(data);
 	} catch (error: any) {
@@ -33,4 +59,3 @@ export const POST: RequestHandler = async ({ request }) => {
 		);
 	}
 };
-
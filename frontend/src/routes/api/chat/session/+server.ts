@@ -0,0 +1,31 @@
+import type { RequestHandler } from './$types';
+import { requestIdHeaders } from '$lib/server/requestId';
+import { chatSessionHeaders, endChatSession } from '$lib/server/chatSession';
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:10000';
+// Public key identifying the store (tenant) this frontend serves
+const WIDGET_KEY = process.env.WIDGET_KEY || 'wk_default';
+
+// Start over: revoke the token and forget the cookie
+export const DELETE: RequestHandler = async ({ cookies }) => {
+	const headers = chatSessionHeaders(cookies);
+	endChatSession(cookies);
+	if (!headers['X-Session-Token']) {
+		return new Response(null, { status: 204 });
+	}
+
+	try {
+		await fetch(`${BACKEND_URL}/chat/session`, {
+			method: 'DELETE',
+			headers: {
+				'X-Widget-Key': WIDGET_KEY,
+				...headers,
+				...requestIdHeaders(),
+			},
+		});
+	} catch (error: any) {
+		// The cookie is gone either way; the token just lives until it expires
+		console.error('Proxy error:', error);
+	}
+	return new Response(null, { status: 204 });
+};
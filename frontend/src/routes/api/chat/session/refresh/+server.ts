@@ -0,0 +1,45 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requestIdHeaders } from '$lib/server/requestId';
+import { chatSessionHeaders, syncChatSession } from '$lib/server/chatSession';
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:10000';
+// Public key identifying the store (tenant) this frontend serves
+const WIDGET_KEY = process.env.WIDGET_KEY || 'wk_default';
+
+// Resume the conversation in the session cookie, rotating its token
+export const POST: RequestHandler = async ({ cookies }) => {
+	const headers = chatSessionHeaders(cookies);
+	if (!headers['X-Session-Token']) {
+		return json({ error: 'No conversation to resume' }, { status: 401 });
+	}
+
+	try {
+		const response = await fetch(`${BACKEND_URL}/chat/session/refresh`, {
+			method: 'POST',
+			headers: {
+				'X-Widget-Key': WIDGET_KEY,
+				...headers,
+				...requestIdHeaders(),
+			},
+		});
+		syncChatSession(cookies, response);
+
+		if (!response.ok) {
+			const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+			return json(
+				{ error: error.message || error.error || 'Failed to resume conversation' },
+				{ status: response.status }
+			);
+		}
+
+		const data = await response.json();
+		return json(data);
+	} catch (error: any) {
+		console.error('Proxy error:', error);
+		return json(
+			{ error: error.message || 'Internal server error' },
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,114 @@
+// Standalone build of the chat widget for third-party storefronts:
+//
+//   <script src="https://support.example.com/widget/chat-widget.js"
+//           data-api-url="https://api.example.com"
+//           data-widget-key="wk_..."></script>
+//
+// Built with `npm run build:widget`. Loaded as a classic script it exposes
+// `window.SpurChat` with open(), close(), identify() and on().
+import ChatLauncher from './ChatLauncher.svelte';
+import { configureApi, setCustomer, type CustomerIdentity, type Message } from '../lib/api';
+
+type Position = 'bottom-right' | 'bottom-left';
+
+export interface WidgetEvents {
+	message: Message;
+	open: void;
+	close: void;
+}
+
+type Listener<K extends keyof WidgetEvents> = (payload: WidgetEvents[K]) => void;
+
+const HOST_ID = 'spur-chat-widget';
+const POSITIONS: Position[] = ['bottom-right', 'bottom-left'];
+
+// Read while the script runs; currentScript is null once it has finished
+const config = (document.currentScript as HTMLScriptElement | null)?.dataset ?? {};
+
+const listeners: { [K in keyof WidgetEvents]: Set<Listener<K>> } = {
+	message: new Set(),
+	open: new Set(),
+	close: new Set(),
+};
+
+let launcher: ChatLauncher | null = null;
+let isOpen = false;
+
+function emit<K extends keyof WidgetEvents>(event: K, payload: WidgetEvents[K]): void {
+	for (const listener of listeners[event]) {
+		try {
+			listener(payload);
+		} catch (error) {
+			console.error(`SpurChat "${event}" listener failed:`, error);
+		}
+	}
+}
+
+function setOpen(value: boolean): void {
+	if (value === isOpen) return;
+	isOpen = value;
+	launcher?.$set({ open: value });
+	emit(value ? 'open' : 'close', undefined);
+}
+
+function mount(): void {
+	if (launcher || document.getElementById(HOST_ID)) return;
+
+	if (!config.apiUrl || !config.widgetKey) {
+		console.error('SpurChat: the script tag needs data-api-url and data-widget-key');
+		return;
+	}
+	configureApi({ baseUrl: config.apiUrl, widgetKey: config.widgetKey });
+
+	const host = document.createElement('div');
+	host.id = HOST_ID;
+	// Custom properties inherit into the shadow root and theme the widget
+	if (config.primaryColor) host.style.setProperty('--chat-primary', config.primaryColor);
+	if (config.accentColor) host.style.setProperty('--chat-accent', config.accentColor);
+	document.body.appendChild(host);
+
+	// Svelte adds component styles to the shadow root they're rendered in,
+	// so the page and the widget can't restyle each other
+	const shadow = host.attachShadow({ mode: 'open' });
+	const position = POSITIONS.find((p) => p === config.position) ?? 'bottom-right';
+
+	launcher = new ChatLauncher({
+		target: shadow,
+		props: { open: isOpen, position, greeting: config.greeting },
+	});
+	launcher.$on('toggle', (event) => setOpen(event.detail));
+	launcher.$on('message', (event) => emit('message', event.detail));
+}
+
+export function open(): void {
+	setOpen(true);
+}
+
+export function close(): void {
+	setOpen(false);
+}
+
+/**
+ * Tell support who the customer is. Sent with their next message and
+ * shown to agents; pass null when they sign out.
+ */
+export function identify(user: CustomerIdentity | null): void {
+	setCustomer(user);
+}
+
+/**
+ * Subscribe to widget events. Returns a function that unsubscribes.
+ */
+export function on<K extends keyof WidgetEvents>(event: K, listener: Listener<K>): () => void {
+	if (!(event in listeners)) {
+		throw new Error(`Unknown SpurChat event "${event}"`);
+	}
+	listeners[event].add(listener);
+	return () => listeners[event].delete(listener);
+}
+
+if (document.readyState === 'loading') {
+	document.addEventListener('DOMContentLoaded', mount);
+} else {
+	mount();
+}
@@ -1,12 +1,18 @@
 import { sveltekit } from '@sveltejs/kit/vite';
 import { defineConfig } from 'vite';
 
+// The /api/admin and /api/chat server routes call the backend themselves;
+// in development that's the local one
+process.env.BACKEND_URL ??= 'http://localhost:3001';
+
 export default defineConfig({
 	plugins: [sveltekit()],
 	server: {
 		port: 5173,
 		proxy: {
-			'/api': {
+			// Admin and chat routes are served by SvelteKit itself so the API key
+			// and the chat session cookie stay server-side
+			'^/api/(?!(admin|chat)(/|$))': {
 				target: 'http://localhost:3001',
 				changeOrigin: true,
 				rewrite: (path) => path.replace(/^\/api/, '')
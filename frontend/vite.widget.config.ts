@@ -0,0 +1,26 @@
+import { svelte, vitePreprocess } from '@sveltejs/vite-plugin-svelte';
+import { defineConfig } from 'vite';
+
+// Builds the embeddable widget (src/widget) into one self-contained script.
+// It lands in static/ so the SvelteKit app serves it at /widget/chat-widget.js
+export default defineConfig({
+	plugins: [
+		svelte({
+			configFile: false,
+			preprocess: vitePreprocess(),
+			// Styles ship inside the script and are added to the widget's shadow root
+			emitCss: false,
+			compilerOptions: { css: 'injected' }
+		})
+	],
+	build: {
+		outDir: 'static/widget',
+		emptyOutDir: true,
+		lib: {
+			entry: 'src/widget/main.ts',
+			name: 'SpurChat',
+			formats: ['iife'],
+			fileName: () => 'chat-widget.js'
+		}
+	}
+});
@@ -151,22 +151,21 @@ async function checkDatabase() {
   
   if (!existsSync(dbPath)) {
     logWarning('Database not found. Initializing...');
-    try {
-      const { stdout, stderr } = await execAsync('cd backend && npm run migrate', {
-        cwd: join(__dirname, 'backend'),
-      });
-      if (stderr && !stderr.includes('npm WARN')) {
-        console.error(stderr);
-      }
-      logSuccess('Database initialized');
-      return true;
-    } catch (error) {
-      logError(`Failed to initialize database: ${error.message}`);
-      return false;
+  }
+  
+  // Always run migrations: the backend refuses to start with pending ones
+  try {
+    const { stdout, stderr } = await execAsync('npm run migrate', {
+      cwd: join(__dirname, 'backend'),
+    });
+    if (stderr && !stderr.includes('npm WARN')) {
+      console.error(stderr);
     }
-  } else {
-    logSuccess('Database exists');
+    logSuccess('Database migrated');
     return true;
+  } catch (error) {
+    logError(`Failed to migrate database: ${error.message}`);
+    return false;
   }
 }
 